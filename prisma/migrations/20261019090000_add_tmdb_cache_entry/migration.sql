@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "TmdbCacheEntry" (
+    "id" SERIAL NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "params" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TmdbCacheEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TmdbCacheEntry_expiresAt_idx" ON "TmdbCacheEntry"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TmdbCacheEntry_endpoint_params_key" ON "TmdbCacheEntry"("endpoint", "params");
@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "MovieHistory_userId_watchedAt_idx" ON "MovieHistory"("userId", "watchedAt");
+
+-- CreateIndex
+CREATE INDEX "MovieHistory_userId_movieId_idx" ON "MovieHistory"("userId", "movieId");
@@ -0,0 +1,100 @@
+-- CreateEnum
+CREATE TYPE "MovieNightStatus" AS ENUM ('OPEN', 'CLOSED');
+
+-- CreateEnum
+CREATE TYPE "NominationSource" AS ENUM ('SEARCH', 'SHUFFLE', 'COLLECTION');
+
+-- CreateTable
+CREATE TABLE "MovieNight" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "joinCode" TEXT NOT NULL,
+    "status" "MovieNightStatus" NOT NULL DEFAULT 'OPEN',
+    "scheduledFor" TIMESTAMP(3),
+    "winnerTmdbId" INTEGER,
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "hostId" INTEGER NOT NULL,
+
+    CONSTRAINT "MovieNight_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MovieNightParticipant" (
+    "id" SERIAL NOT NULL,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "movieNightId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+
+    CONSTRAINT "MovieNightParticipant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MovieNightCandidate" (
+    "id" SERIAL NOT NULL,
+    "tmdbId" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "posterUrl" TEXT,
+    "source" "NominationSource" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "movieNightId" INTEGER NOT NULL,
+    "nominatedById" INTEGER NOT NULL,
+
+    CONSTRAINT "MovieNightCandidate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MovieNightVote" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "candidateId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+
+    CONSTRAINT "MovieNightVote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MovieNight_joinCode_key" ON "MovieNight"("joinCode");
+
+-- CreateIndex
+CREATE INDEX "MovieNight_hostId_idx" ON "MovieNight"("hostId");
+
+-- CreateIndex
+CREATE INDEX "MovieNightParticipant_userId_idx" ON "MovieNightParticipant"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MovieNightParticipant_movieNightId_userId_key" ON "MovieNightParticipant"("movieNightId", "userId");
+
+-- CreateIndex
+CREATE INDEX "MovieNightCandidate_movieNightId_idx" ON "MovieNightCandidate"("movieNightId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MovieNightCandidate_movieNightId_tmdbId_key" ON "MovieNightCandidate"("movieNightId", "tmdbId");
+
+-- CreateIndex
+CREATE INDEX "MovieNightVote_userId_idx" ON "MovieNightVote"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MovieNightVote_candidateId_userId_key" ON "MovieNightVote"("candidateId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "MovieNight" ADD CONSTRAINT "MovieNight_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MovieNightParticipant" ADD CONSTRAINT "MovieNightParticipant_movieNightId_fkey" FOREIGN KEY ("movieNightId") REFERENCES "MovieNight"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MovieNightParticipant" ADD CONSTRAINT "MovieNightParticipant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MovieNightCandidate" ADD CONSTRAINT "MovieNightCandidate_movieNightId_fkey" FOREIGN KEY ("movieNightId") REFERENCES "MovieNight"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MovieNightCandidate" ADD CONSTRAINT "MovieNightCandidate_nominatedById_fkey" FOREIGN KEY ("nominatedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MovieNightVote" ADD CONSTRAINT "MovieNightVote_candidateId_fkey" FOREIGN KEY ("candidateId") REFERENCES "MovieNightCandidate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MovieNightVote" ADD CONSTRAINT "MovieNightVote_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
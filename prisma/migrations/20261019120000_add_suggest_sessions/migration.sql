@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "SuggestSessionStatus" AS ENUM ('ACTIVE', 'FINISHED');
+
+-- CreateTable
+CREATE TABLE "SuggestSession" (
+    "id" SERIAL NOT NULL,
+    "status" "SuggestSessionStatus" NOT NULL DEFAULT 'ACTIVE',
+    "currentRound" INTEGER NOT NULL DEFAULT 1,
+    "roundMovieIds" INTEGER[],
+    "resultTmdbId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3),
+    "userId" INTEGER NOT NULL,
+
+    CONSTRAINT "SuggestSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SuggestSessionChoice" (
+    "id" SERIAL NOT NULL,
+    "round" INTEGER NOT NULL,
+    "tmdbId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sessionId" INTEGER NOT NULL,
+
+    CONSTRAINT "SuggestSessionChoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SuggestSession_userId_updatedAt_idx" ON "SuggestSession"("userId", "updatedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SuggestSessionChoice_sessionId_round_key" ON "SuggestSessionChoice"("sessionId", "round");
+
+-- AddForeignKey
+ALTER TABLE "SuggestSession" ADD CONSTRAINT "SuggestSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SuggestSessionChoice" ADD CONSTRAINT "SuggestSessionChoice_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "SuggestSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
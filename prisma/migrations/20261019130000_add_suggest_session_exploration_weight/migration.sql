@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SuggestSession" ADD COLUMN     "explorationWeight" DOUBLE PRECISION NOT NULL DEFAULT 0.3;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "UserPreferences" ADD COLUMN     "includeAdult" BOOLEAN,
+ADD COLUMN     "language" TEXT,
+ADD COLUMN     "voteAverageGte" DOUBLE PRECISION,
+ADD COLUMN     "voteCountGte" INTEGER,
+ADD COLUMN     "withOriginalLanguage" TEXT;
@@ -0,0 +1,5 @@
+-- DropForeignKey
+ALTER TABLE "MovieHistory" DROP CONSTRAINT "MovieHistory_userId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "MovieHistory" ADD CONSTRAINT "MovieHistory_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
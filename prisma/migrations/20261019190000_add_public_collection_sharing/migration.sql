@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "Collection" ADD COLUMN     "shareSlug" TEXT;
+
+-- Backfill share slugs for existing collections: slugified name plus a random suffix
+UPDATE "Collection" SET "shareSlug" =
+    COALESCE(NULLIF(LEFT(TRIM(BOTH '-' FROM REGEXP_REPLACE(LOWER("name"), '[^a-z0-9]+', '-', 'g')), 50), ''), 'collection')
+    || '-' || SUBSTR(MD5(RANDOM()::TEXT || "id"::TEXT), 1, 8);
+
+ALTER TABLE "Collection" ALTER COLUMN "shareSlug" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "CollectionMovie" ADD COLUMN     "genreIds" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
+
+-- CreateTable
+CREATE TABLE "CollectionFollow" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "collectionId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+
+    CONSTRAINT "CollectionFollow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Collection_shareSlug_key" ON "Collection"("shareSlug");
+
+-- CreateIndex
+CREATE INDEX "Collection_isPublic_updatedAt_idx" ON "Collection"("isPublic", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "CollectionFollow_userId_idx" ON "CollectionFollow"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CollectionFollow_collectionId_userId_key" ON "CollectionFollow"("collectionId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "CollectionFollow" ADD CONSTRAINT "CollectionFollow_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "Collection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CollectionFollow" ADD CONSTRAINT "CollectionFollow_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
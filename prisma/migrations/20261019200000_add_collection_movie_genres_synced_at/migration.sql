@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CollectionMovie" ADD COLUMN     "genresSyncedAt" TIMESTAMP(3);
@@ -0,0 +1,8 @@
+-- DropForeignKey
+ALTER TABLE "MovieNightCandidate" DROP CONSTRAINT "MovieNightCandidate_nominatedById_fkey";
+
+-- AlterTable
+ALTER TABLE "MovieNightCandidate" ALTER COLUMN "nominatedById" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "MovieNightCandidate" ADD CONSTRAINT "MovieNightCandidate_nominatedById_fkey" FOREIGN KEY ("nominatedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
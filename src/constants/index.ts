@@ -3,6 +3,12 @@
  */
 export const MIN_PASSWORD_LENGTH = 6;
 
+/**
+ * Lifetimes of single-use tokens sent by email
+ */
+export const PASSWORD_RESET_TOKEN_TTL_HOURS = 1;
+export const EMAIL_VERIFICATION_TOKEN_TTL_HOURS = 24;
+
 /**
  * Rating validation constants
  */
@@ -13,13 +19,100 @@ export const MAX_RATING = 10;
  * Suggest movie rounds configuration
  */
 export const SUGGEST_MOVIE_ROUNDS = 10; // Number of rounds available for suggest movie flow
+// Share of each round kept exploratory instead of following earlier picks (0 = converge fastest, 1 = never adapt)
+export const SUGGEST_EXPLORATION_WEIGHT = 0.3;
+// Each selected movie costs a TMDB details and keywords request
+export const SUGGEST_MAX_SELECTED_MOVIES = 2 * SUGGEST_MOVIE_ROUNDS;
+export const GROUP_SUGGEST_DEFAULT_LIMIT = 10;
+export const GROUP_SUGGEST_MAX_LIMIT = 20;
+export const GROUP_SUGGEST_MAX_PARTICIPANTS = 8;
+
+/**
+ * Similar movies configuration
+ */
+export const SIMILAR_MOVIES_DEFAULT_LIMIT = 10;
+export const SIMILAR_MOVIES_MAX_LIMIT = 40;
+
+/**
+ * Personalized recommendations configuration
+ */
+export const RECOMMENDATION_DEFAULT_LIMIT = 20;
+export const RECOMMENDATION_MAX_LIMIT = 50;
+// Rated/collected/reviewed movies fetched from TMDB to build a taste profile
+export const RECOMMENDATION_PROFILE_MAX_MOVIES = 40;
+
+/**
+ * Connection (cursor pagination) configuration
+ */
+export const CONNECTION_DEFAULT_FIRST = 20;
+export const CONNECTION_MAX_FIRST = 100;
+
+/**
+ * Query complexity limits for the GraphQL endpoint
+ * Overridable with GRAPHQL_MAX_DEPTH and GRAPHQL_MAX_COST
+ */
+export const GRAPHQL_MAX_DEPTH = 10;
+export const GRAPHQL_MAX_COST = 5000;
+
+/**
+ * Rate limits per user (or per IP when unauthenticated), per window
+ * Expensive operations also draw from a smaller bucket since they fan out into many TMDB requests
+ */
+export const RATE_LIMIT_WINDOW_MS = 60 * 1000; // 1 minute
+export const RATE_LIMIT_MAX_REQUESTS = 120;
+export const RATE_LIMIT_EXPENSIVE_MAX_REQUESTS = 20;
+
+/**
+ * Library import (Letterboxd and IMDb CSV exports)
+ */
+export const IMPORT_MAX_ROWS = 2000;
+
+/**
+ * Collection export (each movie is fetched from TMDB)
+ */
+export const COLLECTION_EXPORT_MAX_MOVIES = 500;
+
+/**
+ * Movie night configuration
+ */
+export const MOVIE_NIGHT_JOIN_CODE_LENGTH = 8;
+export const MOVIE_NIGHT_MAX_CANDIDATES = 30; // Maximum nominated movies per movie night
+
+/**
+ * GraphQL error codes (extensions.code)
+ */
+export const ERROR_CODES = {
+  UNAUTHENTICATED: "UNAUTHENTICATED",
+  FORBIDDEN: "FORBIDDEN",
+  NOT_FOUND: "NOT_FOUND",
+  BAD_USER_INPUT: "BAD_USER_INPUT",
+  UPSTREAM_TMDB_ERROR: "UPSTREAM_TMDB_ERROR",
+  RATE_LIMITED: "RATE_LIMITED",
+  QUERY_TOO_DEEP: "QUERY_TOO_DEEP",
+  QUERY_TOO_COMPLEX: "QUERY_TOO_COMPLEX",
+  INTERNAL_SERVER_ERROR: "INTERNAL_SERVER_ERROR",
+} as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[keyof typeof ERROR_CODES];
 
 /**
  * Error messages
  */
 export const ERROR_MESSAGES = {
   AUTH_REQUIRED: "Authentication required",
+  EMAIL_REQUIRED: "Email is required",
+  PASSWORD_REQUIRED: "Password is required",
   INVALID_EMAIL_PASSWORD: "Invalid email or password",
+  INVALID_REFRESH_TOKEN: "Invalid or expired refresh token",
+  SESSION_NOT_FOUND: "Session not found",
+  CURRENT_PASSWORD_INCORRECT: "Current password is incorrect",
+  PASSWORD_INCORRECT: "Password is incorrect",
+  IMPORT_EMPTY_FILE: "File has no rows to import",
+  IMPORT_TOO_MANY_ROWS: `File has more than ${IMPORT_MAX_ROWS} rows; split it and import each part`,
+  IMPORT_MISSING_COLUMNS: "File is missing required columns for this format",
+  PASSWORD_RESET_TOKEN_INVALID: "Invalid or expired password reset token",
+  EMAIL_VERIFICATION_TOKEN_INVALID: "Invalid or expired email verification token",
+  EMAIL_ALREADY_VERIFIED: "Email address is already verified",
   USER_EXISTS: "User with this email already exists",
   PASSWORD_TOO_SHORT: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`,
   RATING_INVALID: `Rating must be between ${MIN_RATING} and ${MAX_RATING}`,
@@ -28,8 +121,45 @@ export const ERROR_MESSAGES = {
   COLLECTION_NAME_EMPTY: "Collection name cannot be empty",
   COLLECTION_NO_ACCESS: "You don't have access to this collection",
   COLLECTION_NO_PERMISSION: "You don't have permission to modify this collection",
+  COLLECTION_FOLLOW_OWN: "You can't follow your own collection",
+  COLLECTION_EXPORT_TOO_LARGE: `Collections with more than ${COLLECTION_EXPORT_MAX_MOVIES} movies can't be exported`,
   NAME_CANNOT_BE_EMPTY: "Name cannot be empty",
   USER_NOT_FOUND: "User not found",
+  MOVIE_NOT_FOUND: "Movie not found",
+  WATCHED_AT_IN_FUTURE: "Watch date cannot be in the future",
+  GROUP_SUGGEST_TOO_FEW_PARTICIPANTS: "At least two participants are required",
+  GROUP_SUGGEST_EMPTY_SELECTION: "Each participant must select at least one movie",
+  GROUP_SUGGEST_TOO_MANY_PARTICIPANTS: `At most ${GROUP_SUGGEST_MAX_PARTICIPANTS} participants are allowed`,
+  SUGGEST_TOO_MANY_SELECTED_MOVIES: `At most ${SUGGEST_MAX_SELECTED_MOVIES} movies can be selected`,
+  EXPLORATION_WEIGHT_INVALID: "Exploration weight must be between 0 and 1",
+  SUGGEST_SESSION_NOT_FOUND: "Suggest session not found",
+  SUGGEST_SESSION_NO_ACCESS: "You don't have access to this suggest session",
+  SUGGEST_SESSION_FINISHED: "This suggest session is already finished",
+  SUGGEST_SESSION_ROUNDS_COMPLETE: "All rounds are complete, finish the session to get a suggestion",
+  SUGGEST_SESSION_INVALID_CHOICE: "Movie is not one of the options in this round",
+  SUGGEST_SESSION_NO_CHOICES: "Choose at least one movie before finishing the session",
+  NO_STREAMING_SERVICES: "Add your streaming services to your preferences to filter by them",
+  MY_SERVICES_WITH_WATCH_PROVIDERS: "Use either onlyMyServices or watchProviders, not both",
+  INVALID_REGION: "Region must be a two-letter ISO 3166-1 country code",
+  INVALID_LANGUAGE: "Language must be an ISO 639-1 code (e.g. en), with a region where allowed (e.g. en-US)",
+  INVALID_VOTE_AVERAGE: "Minimum vote average must be between 0 and 10",
+  INVALID_VOTE_COUNT: "Minimum vote count cannot be negative",
+  RECOMMENDATION_NO_TASTE: "Rate, review or collect some movies you like to get recommendations",
+  MOVIE_NIGHT_NOT_FOUND: "Movie night not found",
+  MOVIE_NIGHT_NO_ACCESS: "You are not a participant in this movie night",
+  MOVIE_NIGHT_HOST_ONLY: "Only the host can do this",
+  MOVIE_NIGHT_CLOSED: "This movie night is closed",
+  MOVIE_NIGHT_INVALID_JOIN_CODE: "Invalid join code",
+  MOVIE_NIGHT_NO_CANDIDATES: "No movies have been nominated",
+  MOVIE_NIGHT_CANDIDATE_NOT_FOUND: "Nominated movie not found",
+  MOVIE_NIGHT_CANDIDATE_LIMIT: `A movie night can have at most ${MOVIE_NIGHT_MAX_CANDIDATES} nominated movies`,
+  INVALID_CURSOR: "Invalid pagination cursor",
+  INVALID_CONNECTION_FIRST: `first must be between 1 and ${CONNECTION_MAX_FIRST}`,
+  QUERY_TOO_DEEP: "Query is nested too deeply",
+  QUERY_TOO_COMPLEX: "Query is too expensive",
+  RATE_LIMITED: "Too many requests, please try again later",
+  ADMIN_UNAUTHORIZED: "Invalid or missing admin API key",
+  ADMIN_INVALID_ID: "ID must be a positive integer",
 } as const;
 
 /**
@@ -1,16 +1,80 @@
-import { PrismaClient, User } from "@prisma/client";
+import { PrismaClient, User, UserPreferences } from "@prisma/client";
 import { Request, Response } from "express";
-import { TMDBDataSource } from "./datasources/tmdb";
+import {
+  TMDBDataSource,
+  TMDBCacheStore,
+  PrismaCacheStore,
+  createMemoryCacheStore,
+} from "./datasources/tmdb";
 import { extractTokenFromHeader, verifyToken } from "./utils/auth";
+import { isSessionActive } from "./utils/sessionHelpers";
+import { Loaders, createLoaders } from "./loaders";
+import { Mailer, createMailer } from "./mailer";
 
 const prisma = new PrismaClient();
 
+// Shared across requests so TMDB caches and in-flight request deduplication persist
+let tmdbDataSource: TMDBDataSource | null = null;
+let mailer: Mailer | null = null;
+
+/**
+ * Create the TMDB cache store selected by TMDB_CACHE_STORE ("memory" or "postgres")
+ */
+function createTMDBCacheStore(): TMDBCacheStore {
+  const storeType = process.env.TMDB_CACHE_STORE || "memory";
+  if (storeType === "postgres") {
+    return new PrismaCacheStore(prisma, createMemoryCacheStore());
+  }
+  if (storeType !== "memory") {
+    throw new Error(`Unknown TMDB_CACHE_STORE "${storeType}" (expected "memory" or "postgres")`);
+  }
+  return createMemoryCacheStore();
+}
+
+/**
+ * Get the process-wide TMDB data source (created on first use)
+ */
+export function getTMDBDataSource(): TMDBDataSource {
+  if (!tmdbDataSource) {
+    const tmdbApiKey = process.env.TMDB_API_KEY;
+    if (!tmdbApiKey) {
+      throw new Error("TMDB_API_KEY environment variable is required");
+    }
+    tmdbDataSource = new TMDBDataSource(tmdbApiKey, createTMDBCacheStore());
+  }
+  return tmdbDataSource;
+}
+
+/**
+ * Get the process-wide Prisma client (for work outside a request, e.g. startup jobs)
+ */
+export function getPrisma(): PrismaClient {
+  return prisma;
+}
+
+/**
+ * Get the process-wide mailer (created on first use)
+ */
+export function getMailer(): Mailer {
+  if (!mailer) {
+    mailer = createMailer();
+  }
+  return mailer;
+}
+
 export interface Context {
   prisma: PrismaClient;
   tmdb: TMDBDataSource;
+  mailer: Mailer;
   req: Request;
   res: Response;
   user: User | null;
+  // Session the access token was issued for (null if not authenticated)
+  sessionId: number | null;
+  // Authenticated user's saved preferences (null if not authenticated or none saved)
+  preferences: UserPreferences | null;
+  // Request-scoped batch loaders for field resolvers
+  loaders: Loaders;
 }
 
 export const createContext = async ({
@@ -20,26 +84,33 @@ export const createContext = async ({
   req: Request;
   res: Response;
 }): Promise<Context> => {
-  const tmdbApiKey = process.env.TMDB_API_KEY;
-  if (!tmdbApiKey) {
-    throw new Error("TMDB_API_KEY environment variable is required");
-  }
-
-  const tmdb = new TMDBDataSource(tmdbApiKey);
+  const tmdb = getTMDBDataSource();
 
   // Extract and verify user from JWT token
   let user: User | null = null;
+  let sessionId: number | null = null;
+  let preferences: UserPreferences | null = null;
   const authHeader = req.headers.authorization;
   const token = extractTokenFromHeader(authHeader);
 
   if (token) {
     try {
       const payload = verifyToken(token);
-      user = await prisma.user.findUnique({
-        where: { id: payload.userId },
-      });
+      // Access tokens stop working as soon as their session is revoked or expires
+      const session = typeof payload.sessionId === "number"
+        ? await prisma.session.findUnique({
+            where: { id: payload.sessionId },
+            include: { user: { include: { preferences: true } } },
+          })
+        : null;
+      if (session && session.userId === payload.userId && isSessionActive(session)) {
+        const { preferences: userPreferences, ...foundUser } = session.user;
+        user = foundUser;
+        sessionId = session.id;
+        preferences = userPreferences;
+      }
     } catch (error) {
-      // Invalid token, user remains null
+      // Invalid token or revoked session, user remains null
       // Don't throw error here - allow unauthenticated requests
     }
   }
@@ -47,8 +118,12 @@ export const createContext = async ({
   return {
     prisma,
     tmdb,
+    mailer: getMailer(),
     req,
     res,
     user,
+    sessionId,
+    preferences,
+    loaders: createLoaders(prisma, tmdb, user?.id ?? null),
   };
 };
@@ -0,0 +1,110 @@
+/**
+ * Bounded in-memory LRU cache with per-entry TTLs and hit/miss metrics
+ */
+
+import { CacheEntry } from "./types";
+
+export interface CacheStats {
+  name: string;
+  size: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number;
+}
+
+export class LRUCache<K, V> {
+  // Map iteration order is insertion order, so the first key is always the least recently used
+  private entries = new Map<K, CacheEntry<V>>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    readonly name: string,
+    private readonly maxEntries: number,
+    private readonly defaultTtl: number
+  ) {}
+
+  /**
+   * Get a value if present and not expired (marks it as most recently used)
+   */
+  get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    if (Date.now() - entry.timestamp >= entry.ttl) {
+      this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+
+    // Re-insert to move the key to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.data;
+  }
+
+  /**
+   * Store a value, evicting the least recently used entries when full
+   */
+  set(key: K, value: V, ttl: number = this.defaultTtl): void {
+    if (this.entries.has(key)) {
+      this.entries.delete(key);
+    }
+
+    this.entries.set(key, { data: value, timestamp: Date.now(), ttl });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as K;
+      this.entries.delete(oldestKey);
+      this.evictions++;
+    }
+  }
+
+  delete(key: K): boolean {
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Remove every entry whose key matches the predicate
+   * Returns the number of removed entries
+   */
+  invalidateWhere(predicate: (key: K) => boolean): number {
+    let removed = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (predicate(key)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  getStats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      name: this.name,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+    };
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Pluggable cache stores for TMDB responses
+ * MemoryCacheStore keeps entries in per-namespace LRU caches
+ * PrismaCacheStore persists entries in Postgres so they survive restarts and deploys
+ */
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { LRUCache, CacheStats } from "./cache";
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const PRUNE_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+export interface TMDBCacheStore {
+  get<T>(namespace: string, key: string): Promise<T | undefined>;
+  set<T>(namespace: string, key: string, value: T, ttl: number): Promise<void>;
+  delete(namespace: string, key: string): Promise<void>;
+  clear(namespace?: string): Promise<void>;
+  getStats(): CacheStats[];
+}
+
+/**
+ * In-memory store with one bounded LRU cache per namespace
+ */
+export class MemoryCacheStore implements TMDBCacheStore {
+  private caches = new Map<string, LRUCache<string, unknown>>();
+
+  constructor(private readonly maxEntriesByNamespace: Record<string, number> = {}) {}
+
+  private getCache(namespace: string): LRUCache<string, unknown> {
+    let cache = this.caches.get(namespace);
+    if (!cache) {
+      cache = new LRUCache<string, unknown>(
+        namespace,
+        this.maxEntriesByNamespace[namespace] ?? DEFAULT_MAX_ENTRIES,
+        0
+      );
+      this.caches.set(namespace, cache);
+    }
+    return cache;
+  }
+
+  async get<T>(namespace: string, key: string): Promise<T | undefined> {
+    return this.getCache(namespace).get(key) as T | undefined;
+  }
+
+  async set<T>(namespace: string, key: string, value: T, ttl: number): Promise<void> {
+    this.getCache(namespace).set(key, value, ttl);
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    this.getCache(namespace).delete(key);
+  }
+
+  async clear(namespace?: string): Promise<void> {
+    if (namespace) {
+      this.caches.get(namespace)?.clear();
+      return;
+    }
+    this.caches.forEach((cache) => cache.clear());
+  }
+
+  getStats(): CacheStats[] {
+    return Array.from(this.caches.values()).map((cache) => cache.getStats());
+  }
+}
+
+/**
+ * Postgres-backed store (TmdbCacheEntry table) with an in-memory LRU in front
+ * Database failures are logged and treated as cache misses so TMDB requests still succeed
+ */
+export class PrismaCacheStore implements TMDBCacheStore {
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly memory: MemoryCacheStore = new MemoryCacheStore()
+  ) {
+    // Periodically remove expired rows so the table doesn't grow unbounded
+    setInterval(() => {
+      this.pruneExpired().catch((error) =>
+        console.error("Failed to prune TMDB cache entries:", error)
+      );
+    }, PRUNE_INTERVAL).unref();
+  }
+
+  async get<T>(namespace: string, key: string): Promise<T | undefined> {
+    const memoryValue = await this.memory.get<T>(namespace, key);
+    if (memoryValue !== undefined) {
+      return memoryValue;
+    }
+
+    try {
+      const entry = await this.prisma.tmdbCacheEntry.findUnique({
+        where: { endpoint_params: { endpoint: namespace, params: key } },
+      });
+
+      const remainingTtl = entry ? entry.expiresAt.getTime() - Date.now() : 0;
+      if (!entry || remainingTtl <= 0) {
+        this.misses++;
+        return undefined;
+      }
+
+      this.hits++;
+      const value = entry.data as unknown as T;
+      // Warm the in-memory layer for the rest of the entry's lifetime
+      await this.memory.set(namespace, key, value, remainingTtl);
+      return value;
+    } catch (error) {
+      console.error(`Failed to read TMDB cache entry ${namespace}:${key}:`, error);
+      this.misses++;
+      return undefined;
+    }
+  }
+
+  async set<T>(namespace: string, key: string, value: T, ttl: number): Promise<void> {
+    await this.memory.set(namespace, key, value, ttl);
+
+    const expiresAt = new Date(Date.now() + ttl);
+    const data = value as unknown as Prisma.InputJsonValue;
+
+    try {
+      await this.prisma.tmdbCacheEntry.upsert({
+        where: { endpoint_params: { endpoint: namespace, params: key } },
+        update: { data, expiresAt },
+        create: { endpoint: namespace, params: key, data, expiresAt },
+      });
+    } catch (error) {
+      console.error(`Failed to write TMDB cache entry ${namespace}:${key}:`, error);
+    }
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    await this.memory.delete(namespace, key);
+    await this.prisma.tmdbCacheEntry.deleteMany({
+      where: { endpoint: namespace, params: key },
+    });
+  }
+
+  async clear(namespace?: string): Promise<void> {
+    await this.memory.clear(namespace);
+    await this.prisma.tmdbCacheEntry.deleteMany({
+      where: namespace ? { endpoint: namespace } : {},
+    });
+  }
+
+  /**
+   * Remove expired rows, returning the number deleted
+   */
+  async pruneExpired(): Promise<number> {
+    const result = await this.prisma.tmdbCacheEntry.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+    return result.count;
+  }
+
+  getStats(): CacheStats[] {
+    const lookups = this.hits + this.misses;
+    return [
+      ...this.memory.getStats(),
+      {
+        name: "postgres",
+        size: 0, // Row count is not tracked to avoid a COUNT query per stats call
+        maxEntries: 0,
+        hits: this.hits,
+        misses: this.misses,
+        evictions: 0,
+        hitRate: lookups > 0 ? this.hits / lookups : 0,
+      },
+    ];
+  }
+}
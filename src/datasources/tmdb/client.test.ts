@@ -0,0 +1,85 @@
+import { TMDBClient } from "./client";
+import { MemoryCacheStore } from "./cacheStore";
+import { CACHE_NAMESPACES, MOVIE_WITHOUT_CREDITS_KEY_SUFFIX } from "./types";
+
+const TTL_MS = 60_000;
+
+/**
+ * Client exposing the cache path, with a switch to make the scheduler turn requests away
+ */
+class TestClient extends TMDBClient {
+  request<T>(namespace: string, key: string | number, requestFn: () => Promise<T>): Promise<T> {
+    return this.getCachedOrRequest(namespace, key, TTL_MS, requestFn);
+  }
+
+  rejectRequests(): void {
+    jest.spyOn(this.scheduler, "isRejectingRequests").mockReturnValue(true);
+  }
+}
+
+const unavailable = () => Promise.reject(new Error("TMDB unavailable"));
+
+describe("TMDBClient cache invalidation", () => {
+  let store: MemoryCacheStore;
+  let client: TestClient;
+
+  beforeEach(() => {
+    store = new MemoryCacheStore();
+    client = new TestClient("test-key", store);
+  });
+
+  it("serves the stale copy while TMDB is unavailable", async () => {
+    await client.request(CACHE_NAMESPACES.PERSON, 1, async () => ({ name: "Old" }));
+    await store.clear();
+    client.rejectRequests();
+
+    await expect(client.request(CACHE_NAMESPACES.PERSON, 1, unavailable)).resolves.toEqual({
+      name: "Old",
+    });
+  });
+
+  it("drops the stale copies of an invalidated person", async () => {
+    await client.request(CACHE_NAMESPACES.PERSON, 1, async () => ({ name: "Old" }));
+    await client.request(CACHE_NAMESPACES.PERSON_CREDITS, 1, async () => ({ cast: [] }));
+    await client.invalidatePerson(1);
+    client.rejectRequests();
+
+    await expect(client.request(CACHE_NAMESPACES.PERSON, 1, unavailable)).rejects.toThrow(
+      "TMDB unavailable"
+    );
+    await expect(client.request(CACHE_NAMESPACES.PERSON_CREDITS, 1, unavailable)).rejects.toThrow(
+      "TMDB unavailable"
+    );
+  });
+
+  it("drops every cached and stale variant of an invalidated movie", async () => {
+    const withoutCredits = `1${MOVIE_WITHOUT_CREDITS_KEY_SUFFIX}`;
+    await client.request(CACHE_NAMESPACES.MOVIE, 1, async () => ({ title: "Old" }));
+    await client.request(CACHE_NAMESPACES.MOVIE, withoutCredits, async () => ({ title: "Old" }));
+    await client.request(CACHE_NAMESPACES.MOVIE_VIDEOS, 1, async () => []);
+    await client.invalidateMovie(1);
+
+    expect(await store.get(CACHE_NAMESPACES.MOVIE, "1")).toBeUndefined();
+    expect(await store.get(CACHE_NAMESPACES.MOVIE, withoutCredits)).toBeUndefined();
+
+    client.rejectRequests();
+    for (const [namespace, key] of [
+      [CACHE_NAMESPACES.MOVIE, 1],
+      [CACHE_NAMESPACES.MOVIE, withoutCredits],
+      [CACHE_NAMESPACES.MOVIE_VIDEOS, 1],
+    ] as const) {
+      await expect(client.request(namespace, key, unavailable)).rejects.toThrow("TMDB unavailable");
+    }
+  });
+
+  it("leaves other movies cached", async () => {
+    await client.request(CACHE_NAMESPACES.MOVIE, 2, async () => ({ title: "Other" }));
+    await client.invalidateMovie(1);
+
+    const requestFn = jest.fn();
+    await expect(client.request(CACHE_NAMESPACES.MOVIE, 2, requestFn)).resolves.toEqual({
+      title: "Other",
+    });
+    expect(requestFn).not.toHaveBeenCalled();
+  });
+});
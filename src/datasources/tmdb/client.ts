@@ -12,117 +12,117 @@ import {
   DEFAULT_SORT_BY,
   DEFAULT_INCLUDE_ADULT,
   CACHE_TTL,
-  CacheEntry,
+  CACHE_MAX_ENTRIES,
+  CACHE_NAMESPACES,
+  MOVIE_WITHOUT_CREDITS_KEY_SUFFIX,
+  TMDB_REQUEST_LIMITS,
   DiscoverParams,
 } from "./types";
+import { LRUCache, CacheStats } from "./cache";
+import { TMDBCacheStore, MemoryCacheStore } from "./cacheStore";
+import { TMDBRequestScheduler, SchedulerStats } from "./scheduler";
+
+/**
+ * Create an in-memory cache store sized with CACHE_MAX_ENTRIES
+ */
+export function createMemoryCacheStore(): MemoryCacheStore {
+  return new MemoryCacheStore({
+    [CACHE_NAMESPACES.GENRES]: CACHE_MAX_ENTRIES.GENRES,
+    [CACHE_NAMESPACES.MOVIE]: CACHE_MAX_ENTRIES.MOVIE,
+    [CACHE_NAMESPACES.MOVIE_CREDITS]: CACHE_MAX_ENTRIES.MOVIE_CREDITS,
+    [CACHE_NAMESPACES.MOVIE_VIDEOS]: CACHE_MAX_ENTRIES.MOVIE_VIDEOS,
+    [CACHE_NAMESPACES.MOVIE_KEYWORDS]: CACHE_MAX_ENTRIES.MOVIE_KEYWORDS,
+    [CACHE_NAMESPACES.MOVIE_WATCH_PROVIDERS]: CACHE_MAX_ENTRIES.MOVIE_WATCH_PROVIDERS,
+    [CACHE_NAMESPACES.WATCH_PROVIDER_CATALOG]: CACHE_MAX_ENTRIES.WATCH_PROVIDER_CATALOG,
+    [CACHE_NAMESPACES.PERSON]: CACHE_MAX_ENTRIES.PERSON,
+    [CACHE_NAMESPACES.PERSON_CREDITS]: CACHE_MAX_ENTRIES.PERSON_CREDITS,
+    [CACHE_NAMESPACES.IMDB_LOOKUP]: CACHE_MAX_ENTRIES.IMDB_LOOKUP,
+  });
+}
 
 export class TMDBClient {
   protected client: AxiosInstance;
   protected apiKey: string;
 
-  // In-memory caches
-  protected genresCache: CacheEntry<Array<{ id: number; name: string }>> | null = null;
-  protected movieCreditsCache = new Map<
-    number,
-    CacheEntry<{
-      cast?: unknown[];
-      crew?: Array<{ job?: string; department?: string }>;
-    }>
-  >();
-  protected movieVideosCache = new Map<
-    number,
-    CacheEntry<{
-      results?: Array<{
-        id: string;
-        iso_639_1?: string;
-        iso_3166_1?: string;
-        key: string;
-        name: string;
-        official?: boolean;
-        published_at?: string;
-        site: string;
-        size?: number;
-        type: string;
-      }>;
-    }>
-  >();
-  protected movieKeywordsCache = new Map<
-    number,
-    CacheEntry<{
-      keywords?: Array<{ id: number; name: string }>;
-    }>
-  >();
-  protected personCreditsCache = new Map<
-    number,
-    CacheEntry<{
-      cast?: unknown[];
-      crew?: Array<{ job?: string; department?: string }>;
-    }>
-  >();
-  protected movieCache = new Map<number, CacheEntry<unknown>>();
-  protected personCache = new Map<number, CacheEntry<unknown>>();
-  protected searchCache = new Map<string, CacheEntry<unknown[]>>();
+  // Persistent cache store for movie, person, credits, videos, keywords and genres
+  // (shared across requests, see getTMDBDataSource in context.ts)
+  protected cacheStore: TMDBCacheStore;
+
+  // Short-lived caches that stay in memory only
+  protected searchCache = new LRUCache<string, unknown[]>("search", CACHE_MAX_ENTRIES.SEARCH, CACHE_TTL.SEARCH);
   // Cache for page metadata (total_pages) to avoid fetching page 1 every time
-  protected pageMetadataCache = new Map<string, CacheEntry<{ totalPages: number; firstPageResults: unknown[] }>>();
+  protected pageMetadataCache = new LRUCache<string, { totalPages: number; firstPageResults: unknown[] }>(
+    "page_metadata",
+    CACHE_MAX_ENTRIES.PAGE_METADATA,
+    CACHE_TTL.PAGE_METADATA
+  );
+
+  // Last known response per cache entry, kept past its TTL and served while the circuit breaker is open
+  protected staleCache = new LRUCache<string, unknown>("stale", CACHE_MAX_ENTRIES.STALE, CACHE_TTL.STALE);
 
   // Request deduplication - prevent duplicate concurrent requests
   protected pendingRequests = new Map<string, Promise<unknown>>();
 
-  constructor(apiKey: string) {
+  // Throttles, retries and circuit-breaks every outbound request
+  protected scheduler = new TMDBRequestScheduler();
+
+  constructor(apiKey: string, cacheStore?: TMDBCacheStore) {
     this.apiKey = apiKey;
+    this.cacheStore = cacheStore ?? createMemoryCacheStore();
     this.client = axios.create({
       baseURL: TMDB_BASE_URL,
       params: {
         api_key: this.apiKey,
       },
+      timeout: TMDB_REQUEST_LIMITS.TIMEOUT_MS,
     });
   }
 
   /**
-   * Check if cache entry is still valid
-   */
-  protected isCacheValid<T>(
-    entry: CacheEntry<T> | null | undefined
-  ): entry is CacheEntry<T> {
-    if (!entry) return false;
-    return Date.now() - entry.timestamp < entry.ttl;
-  }
-
-  /**
-   * Get from cache or execute request (with deduplication)
+   * Get from the cache store or execute request (with deduplication)
+   * Falls back to the last known value if the request fails while the scheduler is turning
+   * requests away (circuit breaker open or half open, or hourly budget used up)
+   * shouldStore can keep a result out of the cache (e.g. one built from fallback data)
    */
   protected async getCachedOrRequest<T>(
-    cacheKey: string,
-    cache: Map<number, CacheEntry<T>> | null,
-    id: number | null,
+    namespace: string,
+    key: string | number,
     ttl: number,
-    requestFn: () => Promise<T>
+    requestFn: () => Promise<T>,
+    shouldStore: (data: T) => boolean = () => true
   ): Promise<T> {
+    const cacheKey = String(key);
+
     // Check cache first
-    if (cache && id !== null) {
-      const cached = cache.get(id);
-      if (this.isCacheValid(cached)) {
-        return cached.data;
-      }
+    const cached = await this.cacheStore.get<T>(namespace, cacheKey);
+    if (cached !== undefined) {
+      return cached;
     }
 
     // Check if request is already pending (deduplication)
-    const pendingKey = `${cacheKey}_${id || "global"}`;
+    const pendingKey = `${namespace}_${cacheKey}`;
     if (this.pendingRequests.has(pendingKey)) {
       return (await this.pendingRequests.get(pendingKey)) as T;
     }
 
     // Make request and cache it
     const requestPromise = requestFn()
-      .then((data) => {
-        if (cache && id !== null) {
-          cache.set(id, { data, timestamp: Date.now(), ttl });
+      .then(async (data) => {
+        if (shouldStore(data)) {
+          await this.cacheStore.set(namespace, cacheKey, data, ttl);
+          this.staleCache.set(pendingKey, data);
         }
         this.pendingRequests.delete(pendingKey);
         return data;
       })
       .catch((error) => {
         this.pendingRequests.delete(pendingKey);
+        const stale = this.scheduler.isRejectingRequests()
+          ? this.staleCache.get(pendingKey)
+          : undefined;
+        if (stale !== undefined) {
+          return stale as T;
+        }
         throw error;
       });
 
@@ -130,6 +130,70 @@ export class TMDBClient {
     return requestPromise;
   }
 
+  /**
+   * Get hit/miss/eviction metrics for every cache
+   */
+  getCacheStats(): CacheStats[] {
+    return [
+      ...this.cacheStore.getStats(),
+      this.searchCache.getStats(),
+      this.pageMetadataCache.getStats(),
+      this.staleCache.getStats(),
+    ];
+  }
+
+  /**
+   * Get circuit breaker state and queue sizes of the outbound request scheduler
+   */
+  getRequestStats(): SchedulerStats {
+    return this.scheduler.getStats();
+  }
+
+  /**
+   * Delete one entry from the cache store and its stale copy, so an invalidated
+   * value can't come back as a fallback while TMDB is unavailable
+   */
+  protected async deleteCached(namespace: string, key: string): Promise<void> {
+    this.staleCache.delete(`${namespace}_${key}`);
+    await this.cacheStore.delete(namespace, key);
+  }
+
+  /**
+   * Invalidate all cached data for a movie (details, credits, videos, keywords, watch providers)
+   */
+  async invalidateMovie(movieId: number): Promise<void> {
+    const key = String(movieId);
+    await Promise.all([
+      this.deleteCached(CACHE_NAMESPACES.MOVIE, key),
+      this.deleteCached(CACHE_NAMESPACES.MOVIE, `${key}${MOVIE_WITHOUT_CREDITS_KEY_SUFFIX}`),
+      this.deleteCached(CACHE_NAMESPACES.MOVIE_CREDITS, key),
+      this.deleteCached(CACHE_NAMESPACES.MOVIE_VIDEOS, key),
+      this.deleteCached(CACHE_NAMESPACES.MOVIE_KEYWORDS, key),
+      this.deleteCached(CACHE_NAMESPACES.MOVIE_WATCH_PROVIDERS, key),
+    ]);
+  }
+
+  /**
+   * Invalidate all cached data for a person (details and combined credits)
+   */
+  async invalidatePerson(personId: number): Promise<void> {
+    const key = String(personId);
+    await Promise.all([
+      this.deleteCached(CACHE_NAMESPACES.PERSON, key),
+      this.deleteCached(CACHE_NAMESPACES.PERSON_CREDITS, key),
+    ]);
+  }
+
+  /**
+   * Clear every cache (e.g. after changing TMDB configuration)
+   */
+  async clearCaches(): Promise<void> {
+    this.searchCache.clear();
+    this.pageMetadataCache.clear();
+    this.staleCache.clear();
+    await this.cacheStore.clear();
+  }
+
   /**
    * Build request parameters with defaults from TMDB options
    */
@@ -154,6 +218,8 @@ export class TMDBClient {
       }),
       ...(options?.withWatchProviders && {
         with_watch_providers: options.withWatchProviders,
+        // TMDB ignores with_watch_providers without a watch_region
+        watch_region: options.watchRegion || options.region || DEFAULT_REGION,
       }),
       ...(options?.popularityGte !== undefined && {
         "popularity.gte": options.popularityGte,
@@ -245,6 +311,7 @@ export class TMDBClient {
 
   /**
    * Generic API request handler with error handling
+   * Requests go through the scheduler (rate limits, retries, circuit breaker)
    */
   protected async makeRequest<T>(
     endpoint: string,
@@ -252,9 +319,9 @@ export class TMDBClient {
     errorMessage: string = "Failed to fetch from TMDB"
   ): Promise<T> {
     try {
-      const response: AxiosResponse<T> = await this.client.get(endpoint, {
-        params,
-      });
+      const response: AxiosResponse<T> = await this.scheduler.schedule(() =>
+        this.client.get(endpoint, { params })
+      );
       return response.data;
     } catch (error: unknown) {
       throw handleTMDBError(error, errorMessage);
@@ -3,7 +3,7 @@
  */
 
 import { TMDBClient } from "./client";
-import { PersonRoleInfo, CACHE_TTL } from "./types";
+import { PersonRoleInfo, CACHE_TTL, CACHE_NAMESPACES } from "./types";
 
 export class CreditsMethods extends TMDBClient {
   /**
@@ -11,8 +11,7 @@ export class CreditsMethods extends TMDBClient {
    */
   async getPersonCombinedCredits(personId: number) {
     return this.getCachedOrRequest(
-      "person_credits",
-      this.personCreditsCache,
+      CACHE_NAMESPACES.PERSON_CREDITS,
       personId,
       CACHE_TTL.PERSON_CREDITS,
       () =>
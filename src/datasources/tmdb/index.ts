@@ -7,7 +7,15 @@ import { TMDBClient } from "./client";
 import { MovieMethods } from "./movies";
 import { PeopleMethods } from "./people";
 import { CreditsMethods } from "./credits";
-import { DiscoverParams } from "./types";
+import { WatchProviderMethods } from "./watchProviders";
+import {
+  DiscoverParams,
+  MovieListRequest,
+  TMDBPagedResults,
+  TMDBWatchProvider,
+  TMDBWatchProviderRegion,
+} from "./types";
+import { TMDBCacheStore } from "./cacheStore";
 
 /**
  * Apply mixins to a class
@@ -30,7 +38,8 @@ function applyMixins(derivedCtor: any, constructors: any[]) {
 /**
  * TMDB DataSource - Main class combining all TMDB API functionality
  * 
- * This class combines functionality from MovieMethods, PeopleMethods, and CreditsMethods
+ * This class combines functionality from MovieMethods, PeopleMethods, CreditsMethods,
+ * and WatchProviderMethods
  * to provide a unified interface for all TMDB API operations.
  */
 export class TMDBDataSource extends TMDBClient {
@@ -46,6 +55,14 @@ export class TMDBDataSource extends TMDBClient {
   getPopularMovies!: (options?: TMDBOptions) => Promise<unknown[]>;
   getTopRatedMovies!: (options?: TMDBOptions) => Promise<unknown[]>;
   getUpcomingMovies!: (options?: TMDBOptions) => Promise<unknown[]>;
+  getSimilarMovies!: (movieId: number, options?: TMDBOptions) => Promise<unknown[]>;
+  getMovieRecommendations!: (movieId: number, options?: TMDBOptions) => Promise<unknown[]>;
+  findMovieByImdbId!: (imdbId: string) => Promise<unknown | null>;
+  getMovieListPage!: (
+    request: MovieListRequest,
+    page: number,
+    options?: TMDBOptions
+  ) => Promise<TMDBPagedResults>;
   getRandomMovieFromSource!: (
     source: "trending" | "now_playing" | "popular" | "top_rated" | "upcoming",
     timeWindow?: "day" | "week",
@@ -107,14 +124,29 @@ export class TMDBDataSource extends TMDBClient {
     roleType: "actor" | "crew" | "both"
   ) => Promise<Array<{ id: number }>>;
 
-  constructor(apiKey: string) {
-    super(apiKey);
+  // Watch provider methods
+  getMovieWatchProviders!: (movieId: number) => Promise<Record<string, TMDBWatchProviderRegion>>;
+  getWatchProviderCatalog!: (region: string) => Promise<TMDBWatchProvider[]>;
+
+  constructor(apiKey: string, cacheStore?: TMDBCacheStore) {
+    super(apiKey, cacheStore);
   }
 }
 
 // Apply mixins to combine all methods
-applyMixins(TMDBDataSource, [MovieMethods, PeopleMethods, CreditsMethods]);
+applyMixins(TMDBDataSource, [
+  MovieMethods,
+  PeopleMethods,
+  CreditsMethods,
+  WatchProviderMethods,
+]);
 
 // Export types for external use
 export * from "./types";
+export type { CacheStats } from "./cache";
+export { MemoryCacheStore, PrismaCacheStore } from "./cacheStore";
+export type { TMDBCacheStore } from "./cacheStore";
+export { createMemoryCacheStore } from "./client";
+export { TMDBUnavailableError } from "./scheduler";
+export type { SchedulerStats, CircuitState } from "./scheduler";
 
@@ -4,7 +4,18 @@
 
 import { TMDBOptions } from "../../types";
 import { TMDBClient } from "./client";
-import { DiscoverParams, DEFAULT_SORT_BY, CACHE_TTL } from "./types";
+import {
+  DiscoverParams,
+  MovieListRequest,
+  TMDBPagedResults,
+  DEFAULT_SORT_BY,
+  DEFAULT_LANGUAGE,
+  MAX_PAGES,
+  CACHE_TTL,
+  CACHE_NAMESPACES,
+  MOVIE_WITHOUT_CREDITS_KEY_SUFFIX,
+} from "./types";
+import { NotFoundError } from "../../utils/errors";
 
 export class MovieMethods extends TMDBClient {
   /**
@@ -12,20 +23,31 @@ export class MovieMethods extends TMDBClient {
    * Also fetches videos and credits to include trailer and cast/crew information
    */
   async getMovie(movieId: number, options?: TMDBOptions, includeCredits: boolean = true) {
-    // Only cache if no special options (options might change results)
-    const shouldCache = !options || Object.keys(options).length === 0;
+    // Only the language changes a details response. Callers often pass list options along
+    // (saved preferences, vote filters), which must not bypass the shared cache
+    const language = options?.language;
+    const shouldCache = !language || language === DEFAULT_LANGUAGE;
+    // Set when videos or credits couldn't be fetched, so the partial result isn't cached
+    let degraded = false;
 
     const getMovieData = async () => {
       // Fetch movie, videos, and credits in parallel for detail page
       const [movieData, videosData, creditsData] = await Promise.all([
         this.makeRequest<Record<string, unknown>>(
           `/movie/${movieId}`,
-          this.buildRequestParams(options),
+          this.buildRequestParams(language ? { language } : undefined),
           "Failed to fetch movie from TMDB"
         ),
-        this.getMovieVideos(movieId).catch(() => ({ results: [] })), // Gracefully handle video fetch errors
+        // Gracefully handle video and credits fetch errors
+        this.getMovieVideos(movieId).catch(() => {
+          degraded = true;
+          return { results: [] };
+        }),
         includeCredits
-          ? this.getMovieCredits(movieId).catch(() => ({ cast: [], crew: [] })) // Gracefully handle credits fetch errors
+          ? this.getMovieCredits(movieId).catch(() => {
+              degraded = true;
+              return { cast: [], crew: [] };
+            })
           : Promise.resolve({ cast: [], crew: [] }),
       ]);
 
@@ -38,12 +60,13 @@ export class MovieMethods extends TMDBClient {
     };
 
     if (shouldCache) {
+      // Movies fetched without credits are cached separately so they never stand in for full ones
       return this.getCachedOrRequest(
-        "movie",
-        this.movieCache,
-        movieId,
+        CACHE_NAMESPACES.MOVIE,
+        includeCredits ? movieId : `${movieId}${MOVIE_WITHOUT_CREDITS_KEY_SUFFIX}`,
         CACHE_TTL.MOVIE,
-        getMovieData
+        getMovieData,
+        () => !degraded
       );
     }
 
@@ -55,8 +78,7 @@ export class MovieMethods extends TMDBClient {
    */
   async getMovieKeywords(movieId: number) {
     return this.getCachedOrRequest(
-      "movie_keywords",
-      this.movieKeywordsCache,
+      CACHE_NAMESPACES.MOVIE_KEYWORDS,
       movieId,
       CACHE_TTL.MOVIE_CREDITS, // Use same TTL as credits
       () =>
@@ -70,13 +92,31 @@ export class MovieMethods extends TMDBClient {
     );
   }
 
+  /**
+   * Find the movie with an IMDb ID (e.g. "tt1375666"), or null if TMDB has none (with caching)
+   */
+  async findMovieByImdbId(imdbId: string): Promise<unknown | null> {
+    return this.getCachedOrRequest(
+      CACHE_NAMESPACES.IMDB_LOOKUP,
+      imdbId,
+      CACHE_TTL.IMDB_LOOKUP,
+      async () => {
+        const response = await this.makeRequest<{ movie_results?: unknown[] }>(
+          `/find/${encodeURIComponent(imdbId)}`,
+          { ...this.buildRequestParams(), external_source: "imdb_id" },
+          "Failed to find movie by IMDb ID on TMDB"
+        );
+        return response.movie_results?.[0] ?? null;
+      }
+    );
+  }
+
   /**
    * Get movie videos (trailers, teasers, etc.) by movie ID (with caching)
    */
   async getMovieVideos(movieId: number) {
     return this.getCachedOrRequest(
-      "movie_videos",
-      this.movieVideosCache,
+      CACHE_NAMESPACES.MOVIE_VIDEOS,
       movieId,
       CACHE_TTL.MOVIE_CREDITS, // Use same TTL as credits
       () =>
@@ -112,9 +152,9 @@ export class MovieMethods extends TMDBClient {
     const cacheKey = `search_${normalizedQuery}_${JSON.stringify(options || {})}`;
     
     // Check cache first
-    if (this.searchCache && this.isCacheValid(this.searchCache.get(cacheKey))) {
-      const cached = this.searchCache.get(cacheKey)!;
-      const results = cached.data as unknown[];
+    const cached = this.searchCache.get(cacheKey);
+    if (cached) {
+      const results = cached as unknown[];
       return limit ? results.slice(0, limit) : results;
     }
 
@@ -133,14 +173,7 @@ export class MovieMethods extends TMDBClient {
     
     // Cache results (limit to first 20 for cache efficiency)
     const resultsToCache = results.slice(0, 20);
-    if (!this.searchCache) {
-      this.searchCache = new Map();
-    }
-    this.searchCache.set(cacheKey, {
-      data: resultsToCache,
-      timestamp: Date.now(),
-      ttl: CACHE_TTL.SEARCH,
-    });
+    this.searchCache.set(cacheKey, resultsToCache, CACHE_TTL.SEARCH);
 
     // Apply limit if specified
     return limit ? results.slice(0, Math.min(limit, 100)) : results;
@@ -190,7 +223,7 @@ export class MovieMethods extends TMDBClient {
 
     // If no pages or no results, throw error
     if (totalPages === 0 || firstPageResults.length === 0) {
-      throw new Error("No movies found");
+      throw new NotFoundError("No movies found");
     }
 
     // If only one page, pick from first page results
@@ -295,6 +328,76 @@ export class MovieMethods extends TMDBClient {
     return response.results || [];
   }
 
+  /**
+   * Get movies TMDB considers similar to a movie (matched on genres and keywords)
+   * @param options - Optional TMDB options
+   */
+  async getSimilarMovies(movieId: number, options?: TMDBOptions) {
+    const response = await this.makeRequest<{ results?: unknown[] }>(
+      `/movie/${movieId}/similar`,
+      this.buildRequestParams(options),
+      "Failed to get similar movies from TMDB"
+    );
+    return response.results || [];
+  }
+
+  /**
+   * Get TMDB's recommendations for a movie (based on what other users watched)
+   * @param options - Optional TMDB options
+   */
+  async getMovieRecommendations(movieId: number, options?: TMDBOptions) {
+    const response = await this.makeRequest<{ results?: unknown[] }>(
+      `/movie/${movieId}/recommendations`,
+      this.buildRequestParams(options),
+      "Failed to get movie recommendations from TMDB"
+    );
+    return response.results || [];
+  }
+
+  /**
+   * Get one page of a movie list along with TMDB's totals (for cursor pagination)
+   * @param page - 1-based page number (overrides options.page)
+   */
+  async getMovieListPage(
+    request: MovieListRequest,
+    page: number,
+    options?: TMDBOptions
+  ): Promise<TMDBPagedResults> {
+    const params: Record<string, unknown> = this.buildRequestParams(options);
+    let endpoint: string;
+
+    if (request.list === "search") {
+      endpoint = "/search/movie";
+      params.query = request.query.trim();
+    } else if (request.list === "discover") {
+      endpoint = "/discover/movie";
+      Object.assign(params, this.buildDiscoverParams(request.params));
+      params.sort_by = options?.sortBy || DEFAULT_SORT_BY;
+    } else if (request.list === "trending") {
+      endpoint = `/trending/movie/${request.timeWindow}`;
+    } else {
+      endpoint = `/movie/${request.list}`;
+    }
+
+    const response = await this.makeRequest<{
+      results?: unknown[];
+      page?: number;
+      total_pages?: number;
+      total_results?: number;
+    }>(
+      endpoint,
+      { ...params, page },
+      "Failed to get movie list page from TMDB"
+    );
+
+    return {
+      results: response.results || [],
+      page: response.page || page,
+      totalPages: Math.min(response.total_pages || 0, MAX_PAGES),
+      totalResults: response.total_results || 0,
+    };
+  }
+
   /**
    * Get page metadata (total pages and first page results) with caching
    * This reduces API calls by caching the total pages count
@@ -306,8 +409,8 @@ export class MovieMethods extends TMDBClient {
   ): Promise<{ totalPages: number; firstPageResults: unknown[] }> {
     // Check cache first
     const cached = this.pageMetadataCache.get(cacheKey);
-    if (this.isCacheValid(cached)) {
-      return cached.data;
+    if (cached) {
+      return cached;
     }
 
     // Fetch first page to get metadata
@@ -326,11 +429,7 @@ export class MovieMethods extends TMDBClient {
     const metadata = { totalPages, firstPageResults };
 
     // Cache the metadata
-    this.pageMetadataCache.set(cacheKey, {
-      data: metadata,
-      timestamp: Date.now(),
-      ttl: CACHE_TTL.PAGE_METADATA,
-    });
+    this.pageMetadataCache.set(cacheKey, metadata, CACHE_TTL.PAGE_METADATA);
 
     return metadata;
   }
@@ -342,12 +441,17 @@ export class MovieMethods extends TMDBClient {
    * @param source - Which source to use: "trending", "now_playing", "popular", "top_rated", or "upcoming"
    * @param timeWindow - For trending: "day" or "week" (default: "day")
    * @param options - Optional TMDB options
+   * Falls back to discover when options.withWatchProviders is set, since these lists can't filter by provider
    */
   async getRandomMovieFromSource(
     source: "trending" | "now_playing" | "popular" | "top_rated" | "upcoming",
     timeWindow: "day" | "week" = "day",
     options?: TMDBOptions
   ) {
+    if (options?.withWatchProviders) {
+      return this.getRandomMovie(options);
+    }
+
     const baseParams = this.buildRequestParams(options);
     const sortBy = options?.sortBy || DEFAULT_SORT_BY;
 
@@ -374,7 +478,7 @@ export class MovieMethods extends TMDBClient {
 
     // If no pages or no results, throw error
     if (totalPages === 0 || firstPageResults.length === 0) {
-      throw new Error(`No movies found in ${source}`);
+      throw new NotFoundError(`No movies found in ${source}`);
     }
 
     // If only one page, pick from first page results
@@ -467,7 +571,7 @@ export class MovieMethods extends TMDBClient {
       attempts++;
     }
 
-    throw new Error(`No actors found after ${maxRetries} attempts from ${source}`);
+    throw new NotFoundError(`No actors found after ${maxRetries} attempts from ${source}`);
   }
 
   /**
@@ -481,9 +585,9 @@ export class MovieMethods extends TMDBClient {
     const cacheKey = `search_keyword_${normalizedQuery}`;
     
     // Check cache first (using searchCache)
-    if (this.searchCache && this.isCacheValid(this.searchCache.get(cacheKey))) {
-      const cached = this.searchCache.get(cacheKey)!;
-      const results = cached.data as unknown[];
+    const cached = this.searchCache.get(cacheKey);
+    if (cached) {
+      const results = cached as unknown[];
       return limit ? results.slice(0, limit) : results;
     }
 
@@ -501,14 +605,8 @@ export class MovieMethods extends TMDBClient {
     
     // Cache results (limit to first 20 for cache efficiency)
     const resultsToCache = results.slice(0, 20);
-    if (!this.searchCache) {
-      this.searchCache = new Map();
-    }
-    this.searchCache.set(cacheKey, {
-      data: resultsToCache,
-      timestamp: Date.now(),
-      ttl: CACHE_TTL.SEARCH * 24, // Cache keywords for 24 hours (longer than movie search)
-    });
+    // Cache keywords for 24 hours (longer than movie search)
+    this.searchCache.set(cacheKey, resultsToCache, CACHE_TTL.SEARCH * 24);
 
     // Apply limit if specified
     return limit ? results.slice(0, Math.min(limit, 100)) : results;
@@ -518,26 +616,21 @@ export class MovieMethods extends TMDBClient {
    * Get movie genres list (with caching)
    */
   async getGenres() {
-    if (this.isCacheValid(this.genresCache)) {
-      return this.genresCache.data;
-    }
-
-    const response = await this.makeRequest<{
-      genres?: Array<{ id: number; name: string }>;
-    }>(
-      "/genre/movie/list",
-      this.buildRequestParams(),
-      "Failed to get genres from TMDB"
+    return this.getCachedOrRequest(
+      CACHE_NAMESPACES.GENRES,
+      "all",
+      CACHE_TTL.GENRES,
+      async () => {
+        const response = await this.makeRequest<{
+          genres?: Array<{ id: number; name: string }>;
+        }>(
+          "/genre/movie/list",
+          this.buildRequestParams(),
+          "Failed to get genres from TMDB"
+        );
+        return response.genres || [];
+      }
     );
-
-    const genres = response.genres || [];
-    this.genresCache = {
-      data: genres,
-      timestamp: Date.now(),
-      ttl: CACHE_TTL.GENRES,
-    };
-
-    return genres;
   }
 
   /**
@@ -545,8 +638,7 @@ export class MovieMethods extends TMDBClient {
    */
   async getMovieCredits(movieId: number) {
     return this.getCachedOrRequest(
-      "movie_credits",
-      this.movieCreditsCache,
+      CACHE_NAMESPACES.MOVIE_CREDITS,
       movieId,
       CACHE_TTL.MOVIE_CREDITS,
       () =>
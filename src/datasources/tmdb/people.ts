@@ -3,7 +3,8 @@
  */
 
 import { TMDBClient } from "./client";
-import { CACHE_TTL } from "./types";
+import { CACHE_TTL, CACHE_NAMESPACES } from "./types";
+import { NotFoundError } from "../../utils/errors";
 
 export class PeopleMethods extends TMDBClient {
   /**
@@ -11,8 +12,7 @@ export class PeopleMethods extends TMDBClient {
    */
   async getPerson(personId: number) {
     return this.getCachedOrRequest(
-      "person",
-      this.personCache,
+      CACHE_NAMESPACES.PERSON,
       personId,
       CACHE_TTL.PERSON,
       () =>
@@ -35,9 +35,9 @@ export class PeopleMethods extends TMDBClient {
     const cacheKey = `search_person_${normalizedQuery}_${JSON.stringify(options || {})}`;
     
     // Check cache first
-    if (this.searchCache && this.isCacheValid(this.searchCache.get(cacheKey))) {
-      const cached = this.searchCache.get(cacheKey)!;
-      const results = cached.data as unknown[];
+    const cached = this.searchCache.get(cacheKey);
+    if (cached) {
+      const results = cached as unknown[];
       return limit ? results.slice(0, limit) : results;
     }
 
@@ -56,14 +56,7 @@ export class PeopleMethods extends TMDBClient {
     
     // Cache results (limit to first 20 for cache efficiency)
     const resultsToCache = results.slice(0, 20);
-    if (!this.searchCache) {
-      this.searchCache = new Map();
-    }
-    this.searchCache.set(cacheKey, {
-      data: resultsToCache,
-      timestamp: Date.now(),
-      ttl: CACHE_TTL.SEARCH,
-    });
+    this.searchCache.set(cacheKey, resultsToCache, CACHE_TTL.SEARCH);
 
     // Apply limit if specified
     return limit ? results.slice(0, Math.min(limit, 100)) : results;
@@ -92,7 +85,7 @@ export class PeopleMethods extends TMDBClient {
 
     const people = (response.results || []) as unknown[];
     if (people.length === 0) {
-      throw new Error("No people found");
+      throw new NotFoundError("No people found");
     }
 
     return this.pickRandomItem(people);
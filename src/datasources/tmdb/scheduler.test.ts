@@ -0,0 +1,159 @@
+import {
+  TMDBBudgetExceededError,
+  TMDBRequestScheduler,
+  TMDBUnavailableError,
+} from "./scheduler";
+import {
+  TMDB_CIRCUIT_BREAKER,
+  TMDB_REQUEST_BUDGET,
+  TMDB_RETRY,
+} from "./types";
+
+// Attempts one failing request makes before giving up
+const ATTEMPTS_PER_FAILURE = TMDB_RETRY.MAX_RETRIES + 1;
+
+const serverError = () => Object.assign(new Error("Server error"), { response: { status: 500 } });
+
+/**
+ * Schedule a request and let its retries and backoff run to completion on fake timers
+ */
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  const result = promise.then(
+    (value) => ({ value }),
+    (error: unknown) => ({ error })
+  );
+  // Only as far as the pending backoff timers, so circuit cooldowns don't elapse on the way
+  await jest.runAllTimersAsync();
+  const outcome = await result;
+  if ("error" in outcome) {
+    throw outcome.error;
+  }
+  return outcome.value;
+}
+
+/**
+ * Fail enough requests in a row to open the circuit breaker
+ */
+async function openCircuit(scheduler: TMDBRequestScheduler): Promise<void> {
+  for (let i = 0; i < TMDB_CIRCUIT_BREAKER.FAILURE_THRESHOLD; i++) {
+    await expect(settle(scheduler.schedule(() => Promise.reject(serverError())))).rejects.toThrow(
+      "Server error"
+    );
+  }
+}
+
+describe("TMDBRequestScheduler", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("retries transient failures before succeeding", async () => {
+    const scheduler = new TMDBRequestScheduler();
+    const requestFn = jest
+      .fn()
+      .mockRejectedValueOnce(serverError())
+      .mockResolvedValueOnce("ok");
+
+    await expect(settle(scheduler.schedule(requestFn))).resolves.toBe("ok");
+    expect(requestFn).toHaveBeenCalledTimes(2);
+    expect(scheduler.getStats().circuit).toBe("closed");
+  });
+
+  it("does not retry client errors or count them as failures", async () => {
+    const scheduler = new TMDBRequestScheduler();
+    const notFound = Object.assign(new Error("Not found"), { response: { status: 404 } });
+    const requestFn = jest.fn().mockRejectedValue(notFound);
+
+    await expect(settle(scheduler.schedule(requestFn))).rejects.toBe(notFound);
+    expect(requestFn).toHaveBeenCalledTimes(1);
+    expect(scheduler.getStats().consecutiveFailures).toBe(0);
+  });
+
+  it("opens after consecutive failures and rejects until the cooldown ends", async () => {
+    const scheduler = new TMDBRequestScheduler();
+    await openCircuit(scheduler);
+
+    expect(scheduler.isCircuitOpen()).toBe(true);
+    expect(scheduler.isRejectingRequests()).toBe(true);
+    const requestFn = jest.fn().mockResolvedValue("ok");
+    await expect(scheduler.schedule(requestFn)).rejects.toBeInstanceOf(TMDBUnavailableError);
+    expect(requestFn).not.toHaveBeenCalled();
+  });
+
+  it("closes again when the half-open probe succeeds", async () => {
+    const scheduler = new TMDBRequestScheduler();
+    await openCircuit(scheduler);
+    jest.advanceTimersByTime(TMDB_CIRCUIT_BREAKER.COOLDOWN_MS);
+
+    let finishProbe: (value: string) => void = () => undefined;
+    const probe = scheduler.schedule(
+      () => new Promise<string>((resolve) => (finishProbe = resolve))
+    );
+    await jest.advanceTimersByTimeAsync(0);
+
+    // Only the probe goes through while half open
+    expect(scheduler.getStats().circuit).toBe("half_open");
+    expect(scheduler.isRejectingRequests()).toBe(true);
+    await expect(scheduler.schedule(() => Promise.resolve("other"))).rejects.toBeInstanceOf(
+      TMDBUnavailableError
+    );
+
+    finishProbe("ok");
+    await expect(probe).resolves.toBe("ok");
+    expect(scheduler.getStats().circuit).toBe("closed");
+    expect(scheduler.isRejectingRequests()).toBe(false);
+  });
+
+  it("reopens when the half-open probe fails", async () => {
+    const scheduler = new TMDBRequestScheduler();
+    await openCircuit(scheduler);
+    jest.advanceTimersByTime(TMDB_CIRCUIT_BREAKER.COOLDOWN_MS);
+
+    const requestFn = jest.fn().mockRejectedValue(serverError());
+    await expect(settle(scheduler.schedule(requestFn))).rejects.toThrow("Server error");
+    // The probe is never retried
+    expect(requestFn).toHaveBeenCalledTimes(1);
+    expect(scheduler.isCircuitOpen()).toBe(true);
+  });
+
+  it("rejects requests once the budget is used up, until the window resets", async () => {
+    const scheduler = new TMDBRequestScheduler(2);
+    await scheduler.schedule(() => Promise.resolve(1));
+    await scheduler.schedule(() => Promise.resolve(2));
+
+    const requestFn = jest.fn().mockResolvedValue(3);
+    await expect(scheduler.schedule(requestFn)).rejects.toBeInstanceOf(TMDBBudgetExceededError);
+    expect(requestFn).not.toHaveBeenCalled();
+    expect(scheduler.isBudgetExhausted()).toBe(true);
+    expect(scheduler.getStats().budget.remaining).toBe(0);
+
+    jest.advanceTimersByTime(TMDB_REQUEST_BUDGET.WINDOW_MS);
+    await expect(scheduler.schedule(requestFn)).resolves.toBe(3);
+  });
+
+  it("recovers when the budget runs out across an open to half-open transition", async () => {
+    // Opening the circuit uses up exactly the whole budget
+    const scheduler = new TMDBRequestScheduler(
+      TMDB_CIRCUIT_BREAKER.FAILURE_THRESHOLD * ATTEMPTS_PER_FAILURE
+    );
+    await openCircuit(scheduler);
+    expect(scheduler.isBudgetExhausted()).toBe(true);
+
+    // The cooldown ends while the budget is still exhausted
+    jest.advanceTimersByTime(TMDB_CIRCUIT_BREAKER.COOLDOWN_MS);
+    const requestFn = jest.fn().mockResolvedValue("ok");
+    await expect(scheduler.schedule(requestFn)).rejects.toBeInstanceOf(TMDBBudgetExceededError);
+    expect(scheduler.getStats().circuit).not.toBe("half_open");
+
+    // Once the budget window resets, the next request is the probe and closes the circuit
+    jest.advanceTimersByTime(TMDB_REQUEST_BUDGET.WINDOW_MS);
+    await expect(scheduler.schedule(requestFn)).resolves.toBe("ok");
+    expect(requestFn).toHaveBeenCalledTimes(1);
+    expect(scheduler.getStats().circuit).toBe("closed");
+    expect(scheduler.isRejectingRequests()).toBe(false);
+  });
+});
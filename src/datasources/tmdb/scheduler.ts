@@ -0,0 +1,286 @@
+/**
+ * Outbound TMDB request scheduling
+ * Caps concurrency, request rate and the hourly request budget, retries transient failures
+ * with backoff, and stops calling TMDB for a while when it keeps failing (circuit breaker)
+ */
+
+import {
+  TMDB_REQUEST_LIMITS,
+  TMDB_REQUEST_BUDGET,
+  TMDB_RETRY,
+  TMDB_CIRCUIT_BREAKER,
+} from "./types";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface SchedulerStats {
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  active: number;
+  queued: number;
+  budget: {
+    limit: number;
+    remaining: number;
+    // Seconds until the budget window resets
+    resetSeconds: number;
+  };
+}
+
+interface HttpErrorLike {
+  response?: {
+    status: number;
+    headers?: Record<string, unknown>;
+  };
+  code?: string;
+}
+
+const RATE_WINDOW_MS = 1000;
+
+/**
+ * Thrown instead of calling TMDB while the circuit breaker is open
+ */
+export class TMDBUnavailableError extends Error {
+  constructor() {
+    super("TMDB is temporarily unavailable");
+    this.name = "TMDBUnavailableError";
+  }
+}
+
+/**
+ * Thrown instead of calling TMDB once the hourly request budget is used up
+ */
+export class TMDBBudgetExceededError extends TMDBUnavailableError {
+  constructor() {
+    super();
+    this.message = "TMDB request budget exhausted, please try again later";
+    this.name = "TMDBBudgetExceededError";
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Whether a failed request is worth retrying (rate limited, server error or network failure)
+ */
+function isRetryable(error: unknown): boolean {
+  const { response, code } = error as HttpErrorLike;
+  if (response) {
+    return response.status === 429 || response.status >= 500;
+  }
+  return code !== "ERR_CANCELED";
+}
+
+/**
+ * Delay before the next attempt, honoring Retry-After (seconds or HTTP date) when sent
+ */
+function getRetryDelay(error: unknown, attempt: number): number {
+  const retryAfter = (error as HttpErrorLike).response?.headers?.["retry-after"];
+  if (typeof retryAfter === "string") {
+    const seconds = Number(retryAfter);
+    const delay = Number.isNaN(seconds)
+      ? Date.parse(retryAfter) - Date.now()
+      : seconds * 1000;
+    if (delay >= 0) {
+      return Math.min(delay, TMDB_RETRY.MAX_DELAY_MS);
+    }
+  }
+
+  // Exponential backoff with jitter so queued retries don't fire together
+  const backoff = TMDB_RETRY.BASE_DELAY_MS * 2 ** attempt;
+  return Math.min(backoff + Math.random() * TMDB_RETRY.BASE_DELAY_MS, TMDB_RETRY.MAX_DELAY_MS);
+}
+
+export class TMDBRequestScheduler {
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private recentStarts: number[] = [];
+  private drainTimer: NodeJS.Timeout | null = null;
+
+  private circuit: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+
+  private budgetUsed = 0;
+  private budgetResetAt = 0;
+
+  constructor(
+    private readonly budgetLimit: number = Number(process.env.TMDB_HOURLY_REQUEST_BUDGET) ||
+      TMDB_REQUEST_BUDGET.MAX_REQUESTS
+  ) {}
+
+  /**
+   * Run a request through the scheduler
+   * Client errors (4xx other than 429) are passed through without retrying
+   */
+  async schedule<T>(requestFn: () => Promise<T>): Promise<T> {
+    // Checked before allowRequest, which would turn this request into the half-open probe
+    if (this.isBudgetExhausted()) {
+      throw new TMDBBudgetExceededError();
+    }
+    if (!this.allowRequest()) {
+      throw new TMDBUnavailableError();
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      // Every attempt, retries included, is an outbound request
+      if (!this.consumeBudget()) {
+        // A probe that never went out must not leave the breaker stuck half open
+        if (this.circuit === "half_open") {
+          this.circuit = "open";
+        }
+        throw new TMDBBudgetExceededError();
+      }
+      try {
+        const result = await this.runWithSlot(requestFn);
+        this.recordSuccess();
+        return result;
+      } catch (error) {
+        if (!isRetryable(error)) {
+          // TMDB answered, so it is up even if this request was bad
+          this.recordSuccess();
+          throw error;
+        }
+        if (attempt >= TMDB_RETRY.MAX_RETRIES || this.circuit === "half_open") {
+          this.recordFailure();
+          throw error;
+        }
+        await sleep(getRetryDelay(error, attempt));
+      }
+    }
+  }
+
+  /**
+   * Whether the circuit breaker is currently rejecting requests
+   */
+  isCircuitOpen(): boolean {
+    return this.circuit === "open" && !this.cooldownElapsed();
+  }
+
+  /**
+   * Whether new requests are being turned away: the breaker is open, a half-open probe is
+   * in flight (only the probe gets through), or the hourly budget is used up
+   */
+  isRejectingRequests(): boolean {
+    return this.isCircuitOpen() || this.circuit === "half_open" || this.isBudgetExhausted();
+  }
+
+  /**
+   * Whether the hourly request budget is used up
+   */
+  isBudgetExhausted(): boolean {
+    return this.budgetResetAt > Date.now() && this.budgetUsed >= this.budgetLimit;
+  }
+
+  getStats(): SchedulerStats {
+    const now = Date.now();
+    const windowActive = this.budgetResetAt > now;
+    return {
+      circuit: this.isCircuitOpen() ? "open" : this.circuit,
+      consecutiveFailures: this.consecutiveFailures,
+      active: this.active,
+      queued: this.queue.length,
+      budget: {
+        limit: this.budgetLimit,
+        remaining: windowActive ? Math.max(0, this.budgetLimit - this.budgetUsed) : this.budgetLimit,
+        resetSeconds: windowActive ? Math.ceil((this.budgetResetAt - now) / 1000) : 0,
+      },
+    };
+  }
+
+  /**
+   * Count one request against the budget (fixed window), or return false if it is used up
+   */
+  private consumeBudget(): boolean {
+    const now = Date.now();
+    if (this.budgetResetAt <= now) {
+      this.budgetUsed = 0;
+      this.budgetResetAt = now + TMDB_REQUEST_BUDGET.WINDOW_MS;
+    }
+    if (this.budgetUsed >= this.budgetLimit) {
+      return false;
+    }
+    this.budgetUsed++;
+    return true;
+  }
+
+  private cooldownElapsed(): boolean {
+    return Date.now() - this.openedAt >= TMDB_CIRCUIT_BREAKER.COOLDOWN_MS;
+  }
+
+  /**
+   * Closed: allow. Open: reject until the cooldown ends, then let one probe through (half open)
+   */
+  private allowRequest(): boolean {
+    if (this.circuit === "closed") {
+      return true;
+    }
+    if (this.circuit === "open" && this.cooldownElapsed()) {
+      this.circuit = "half_open";
+      return true;
+    }
+    return false;
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.circuit = "closed";
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    if (
+      this.circuit === "half_open" ||
+      this.consecutiveFailures >= TMDB_CIRCUIT_BREAKER.FAILURE_THRESHOLD
+    ) {
+      this.circuit = "open";
+      this.openedAt = Date.now();
+    }
+  }
+
+  private async runWithSlot<T>(requestFn: () => Promise<T>): Promise<T> {
+    await new Promise<void>((resolve) => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+
+    try {
+      return await requestFn();
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  /**
+   * Start queued requests while under both the concurrency and per-second limits
+   */
+  private drain(): void {
+    const now = Date.now();
+    this.recentStarts = this.recentStarts.filter((start) => now - start < RATE_WINDOW_MS);
+
+    while (
+      this.queue.length > 0 &&
+      this.active < TMDB_REQUEST_LIMITS.MAX_CONCURRENT &&
+      this.recentStarts.length < TMDB_REQUEST_LIMITS.REQUESTS_PER_SECOND
+    ) {
+      const start = this.queue.shift() as () => void;
+      this.active++;
+      this.recentStarts.push(now);
+      start();
+    }
+
+    // Rate limited with free slots: try again once the oldest start leaves the window
+    if (
+      this.queue.length > 0 &&
+      this.active < TMDB_REQUEST_LIMITS.MAX_CONCURRENT &&
+      !this.drainTimer
+    ) {
+      this.drainTimer = setTimeout(() => {
+        this.drainTimer = null;
+        this.drain();
+      }, RATE_WINDOW_MS - (now - this.recentStarts[0]));
+    }
+  }
+}
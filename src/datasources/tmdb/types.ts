@@ -4,6 +4,7 @@
 
 export const TMDB_BASE_URL = "https://api.themoviedb.org/3";
 export const MAX_PAGES = 500; // TMDB API limit
+export const TMDB_PAGE_SIZE = 20; // Results per page on list endpoints
 
 // Default TMDB options
 export const DEFAULT_REGION = "US";
@@ -21,6 +22,72 @@ export const CACHE_TTL = {
   PERSON: 30 * 60 * 1000, // 30 minutes
   SEARCH: 5 * 60 * 1000, // 5 minutes - short TTL for search results
   PAGE_METADATA: 10 * 60 * 1000, // 10 minutes - cache total pages for random selection
+  WATCH_PROVIDERS: 6 * 60 * 60 * 1000, // 6 hours - availability changes as catalogs rotate
+  WATCH_PROVIDER_CATALOG: 24 * 60 * 60 * 1000, // 24 hours
+  IMDB_LOOKUP: 24 * 60 * 60 * 1000, // 24 hours - IMDb to TMDB mappings rarely change
+  STALE: 24 * 60 * 60 * 1000, // 24 hours - last known responses served while TMDB is unavailable
+};
+
+// Namespaces for entries kept in the pluggable cache store (see cacheStore.ts)
+export const CACHE_NAMESPACES = {
+  GENRES: "genres",
+  MOVIE: "movie",
+  MOVIE_CREDITS: "movie_credits",
+  MOVIE_VIDEOS: "movie_videos",
+  MOVIE_KEYWORDS: "movie_keywords",
+  MOVIE_WATCH_PROVIDERS: "movie_watch_providers",
+  WATCH_PROVIDER_CATALOG: "watch_provider_catalog",
+  PERSON: "person",
+  PERSON_CREDITS: "person_credits",
+  IMDB_LOOKUP: "imdb_lookup",
+} as const;
+
+// Maximum number of entries per cache before least recently used entries are evicted
+// Caches are shared process-wide, so these bound total memory use
+export const CACHE_MAX_ENTRIES = {
+  GENRES: 1,
+  MOVIE_CREDITS: 2000,
+  MOVIE_VIDEOS: 2000,
+  MOVIE_KEYWORDS: 2000,
+  MOVIE_WATCH_PROVIDERS: 2000,
+  WATCH_PROVIDER_CATALOG: 100,
+  PERSON_CREDITS: 1000,
+  IMDB_LOOKUP: 2000,
+  MOVIE: 2000,
+  PERSON: 1000,
+  SEARCH: 500,
+  PAGE_METADATA: 500,
+  STALE: 5000,
+};
+
+// Cache key suffix for movie details fetched without credits
+export const MOVIE_WITHOUT_CREDITS_KEY_SUFFIX = ":without_credits";
+
+// Outbound request scheduling (TMDB allows roughly 50 requests per second per IP)
+export const TMDB_REQUEST_LIMITS = {
+  MAX_CONCURRENT: 20,
+  REQUESTS_PER_SECOND: 40,
+  TIMEOUT_MS: 10 * 1000, // 10 seconds
+};
+
+// Cap on outbound requests per hour across all users, including retries, so a burst of
+// suggest/shuffle retry loops can't use up the TMDB quota (override with TMDB_HOURLY_REQUEST_BUDGET)
+export const TMDB_REQUEST_BUDGET = {
+  MAX_REQUESTS: 20000,
+  WINDOW_MS: 60 * 60 * 1000, // 1 hour
+};
+
+// Retries for 429, 5xx and network errors (exponential backoff unless TMDB sends Retry-After)
+export const TMDB_RETRY = {
+  MAX_RETRIES: 3,
+  BASE_DELAY_MS: 500,
+  MAX_DELAY_MS: 10 * 1000, // 10 seconds
+};
+
+// Circuit breaker opens after consecutive failed requests and lets one probe through after the cooldown
+export const TMDB_CIRCUIT_BREAKER = {
+  FAILURE_THRESHOLD: 5,
+  COOLDOWN_MS: 30 * 1000, // 30 seconds
 };
 
 export interface CacheEntry<T> {
@@ -49,3 +116,39 @@ export interface DiscoverParams {
   originCountries?: string[];
 }
 
+/**
+ * Movie list endpoints that can be fetched page by page
+ */
+export type MovieListRequest =
+  | { list: "search"; query: string }
+  | { list: "discover"; params?: DiscoverParams }
+  | { list: "trending"; timeWindow: "day" | "week" }
+  | { list: "now_playing" | "popular" | "top_rated" | "upcoming" };
+
+/**
+ * One page of a TMDB list with its totals
+ */
+export interface TMDBPagedResults {
+  results: unknown[];
+  page: number;
+  totalPages: number;
+  totalResults: number;
+}
+
+export interface TMDBWatchProvider {
+  provider_id: number;
+  provider_name: string;
+  logo_path?: string | null;
+  display_priority?: number | null;
+}
+
+/**
+ * Watch providers for a movie in one region
+ */
+export interface TMDBWatchProviderRegion {
+  // TMDB page listing every provider for the movie in this region
+  link?: string;
+  flatrate?: TMDBWatchProvider[];
+  rent?: TMDBWatchProvider[];
+  buy?: TMDBWatchProvider[];
+}
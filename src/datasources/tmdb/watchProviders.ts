@@ -0,0 +1,57 @@
+/**
+ * Watch provider (streaming availability) TMDB API methods
+ */
+
+import { TMDBClient } from "./client";
+import {
+  CACHE_TTL,
+  CACHE_NAMESPACES,
+  DEFAULT_LANGUAGE,
+  TMDBWatchProvider,
+  TMDBWatchProviderRegion,
+} from "./types";
+
+export class WatchProviderMethods extends TMDBClient {
+  /**
+   * Get where a movie can be streamed, rented or bought, keyed by region (with caching)
+   * TMDB returns every region in one response, so the whole map is cached per movie
+   */
+  async getMovieWatchProviders(movieId: number) {
+    return this.getCachedOrRequest(
+      CACHE_NAMESPACES.MOVIE_WATCH_PROVIDERS,
+      movieId,
+      CACHE_TTL.WATCH_PROVIDERS,
+      async () => {
+        const response = await this.makeRequest<{
+          results?: Record<string, TMDBWatchProviderRegion>;
+        }>(
+          `/movie/${movieId}/watch/providers`,
+          undefined,
+          "Failed to get movie watch providers from TMDB"
+        );
+        return response.results || {};
+      }
+    );
+  }
+
+  /**
+   * Get every watch provider available for movies in a region (with caching)
+   */
+  async getWatchProviderCatalog(region: string) {
+    return this.getCachedOrRequest(
+      CACHE_NAMESPACES.WATCH_PROVIDER_CATALOG,
+      region,
+      CACHE_TTL.WATCH_PROVIDER_CATALOG,
+      async () => {
+        const response = await this.makeRequest<{
+          results?: TMDBWatchProvider[];
+        }>(
+          "/watch/providers/movie",
+          { watch_region: region, language: DEFAULT_LANGUAGE },
+          "Failed to get watch provider catalog from TMDB"
+        );
+        return response.results || [];
+      }
+    );
+  }
+}
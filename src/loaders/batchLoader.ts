@@ -0,0 +1,88 @@
+/**
+ * Request-scoped batch loader (same contract as the dataloader package)
+ * Keys requested in the same tick are collected and resolved with a single batch call,
+ * and every key is memoized for the lifetime of the loader
+ */
+
+/**
+ * Resolve values for keys, in the same order as the keys
+ * Return an Error at a position to reject only that key
+ */
+export type BatchLoadFn<K, V> = (keys: K[]) => Promise<Array<V | Error>>;
+
+interface PendingLoad<V> {
+  resolve: (value: V) => void;
+  reject: (error: unknown) => void;
+}
+
+export class BatchLoader<K, V> {
+  private cache = new Map<K, Promise<V>>();
+  private queue = new Map<K, PendingLoad<V>>();
+
+  constructor(private readonly batchLoadFn: BatchLoadFn<K, V>) {}
+
+  /**
+   * Load one key, batched with every other key requested in the same tick
+   */
+  load(key: K): Promise<V> {
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const promise = new Promise<V>((resolve, reject) => {
+      this.queue.set(key, { resolve, reject });
+    });
+    this.cache.set(key, promise);
+
+    if (this.queue.size === 1) {
+      // Wait for pending promise callbacks (sibling field resolvers) before dispatching
+      Promise.resolve().then(() => process.nextTick(() => this.dispatch()));
+    }
+    return promise;
+  }
+
+  /**
+   * Load several keys in one batch
+   */
+  loadMany(keys: K[]): Promise<V[]> {
+    return Promise.all(keys.map((key) => this.load(key)));
+  }
+
+  /**
+   * Forget a memoized key (e.g. after a mutation changed it)
+   */
+  clear(key: K): void {
+    this.cache.delete(key);
+  }
+
+  private async dispatch(): Promise<void> {
+    const batch = this.queue;
+    this.queue = new Map();
+    const keys = Array.from(batch.keys());
+
+    try {
+      const values = await this.batchLoadFn(keys);
+      if (values.length !== keys.length) {
+        throw new Error("Batch load function must return one value per key");
+      }
+
+      keys.forEach((key, index) => {
+        const value = values[index];
+        const pending = batch.get(key) as PendingLoad<V>;
+        if (value instanceof Error) {
+          // Failed keys are not memoized so a later load can retry them
+          this.cache.delete(key);
+          pending.reject(value);
+        } else {
+          pending.resolve(value);
+        }
+      });
+    } catch (error) {
+      keys.forEach((key) => {
+        this.cache.delete(key);
+        (batch.get(key) as PendingLoad<V>).reject(error);
+      });
+    }
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Request-scoped loaders used by field resolvers to batch per-parent lookups
+ * A new set is created for every request so results are never shared between users
+ */
+
+import { Collection, PrismaClient, Rating, Review } from "@prisma/client";
+import { TMDBDataSource } from "../datasources/tmdb";
+import { Movie } from "../types";
+import { UserWithoutPassword } from "../types/resolvers";
+import { ERROR_MESSAGES } from "../constants";
+import { fetchMovieFromTMDB } from "../utils/movieHelpers";
+import { getOrCreateSavedMoviesCollection } from "../utils/dbHelpers";
+import { NotFoundError } from "../utils/errors";
+import { BatchLoader } from "./batchLoader";
+
+export { BatchLoader } from "./batchLoader";
+export type { BatchLoadFn } from "./batchLoader";
+
+export interface Loaders {
+  // TMDB movies by ID (null if not found)
+  movies: BatchLoader<number, Movie | null>;
+  // Users by ID, without password
+  users: BatchLoader<number, UserWithoutPassword>;
+  // Authenticated user's rating/review by TMDB ID
+  userRatings: BatchLoader<number, Rating | null>;
+  userReviews: BatchLoader<number, Review | null>;
+  // Whether a TMDB ID is in the authenticated user's "Saved Movies" collection
+  savedState: BatchLoader<number, boolean>;
+  // Authenticated user's collections containing a TMDB ID
+  collectionMembership: BatchLoader<number, Collection[]>;
+  // Number of followers by collection ID
+  collectionFollowerCounts: BatchLoader<number, number>;
+  // Whether the authenticated user follows a collection, by collection ID
+  collectionFollowing: BatchLoader<number, boolean>;
+  // Host user ID by movie night ID (null if the night doesn't exist)
+  movieNightHosts: BatchLoader<number, number | null>;
+  // Number of votes by movie night candidate ID
+  movieNightVoteCounts: BatchLoader<number, number>;
+  // Whether the authenticated user voted for a movie night candidate, by candidate ID
+  movieNightVoted: BatchLoader<number, boolean>;
+}
+
+/**
+ * Group rows by TMDB ID, keeping one row per ID
+ */
+function indexByTmdbId<T extends { tmdbId: number }>(rows: T[]): Map<number, T> {
+  return new Map(rows.map((row) => [row.tmdbId, row]));
+}
+
+/**
+ * Create loaders for one request
+ * User-scoped loaders resolve to empty values when no user is authenticated
+ */
+export function createLoaders(
+  prisma: PrismaClient,
+  tmdb: TMDBDataSource,
+  userId: number | null
+): Loaders {
+  return {
+    // TMDB has no batch endpoint; loading still dedupes IDs within the request
+    // and the datasource caches and dedupes the underlying requests
+    movies: new BatchLoader((tmdbIds) =>
+      Promise.all(
+        tmdbIds.map((tmdbId) => fetchMovieFromTMDB(tmdbId, { tmdb }))
+      )
+    ),
+
+    users: new BatchLoader<number, UserWithoutPassword>(async (ids) => {
+      const users = await prisma.user.findMany({ where: { id: { in: ids } } });
+      const byId = new Map(
+        users.map(({ password: _, ...user }) => [user.id, user])
+      );
+      return ids.map(
+        (id) => byId.get(id) ?? new NotFoundError(ERROR_MESSAGES.USER_NOT_FOUND)
+      );
+    }),
+
+    userRatings: new BatchLoader(async (tmdbIds) => {
+      if (userId === null) {
+        return tmdbIds.map(() => null);
+      }
+      const ratings = indexByTmdbId(
+        await prisma.rating.findMany({
+          where: { userId, tmdbId: { in: tmdbIds } },
+        })
+      );
+      return tmdbIds.map((tmdbId) => ratings.get(tmdbId) ?? null);
+    }),
+
+    userReviews: new BatchLoader(async (tmdbIds) => {
+      if (userId === null) {
+        return tmdbIds.map(() => null);
+      }
+      const reviews = indexByTmdbId(
+        await prisma.review.findMany({
+          where: { userId, tmdbId: { in: tmdbIds } },
+        })
+      );
+      return tmdbIds.map((tmdbId) => reviews.get(tmdbId) ?? null);
+    }),
+
+    savedState: new BatchLoader(async (tmdbIds) => {
+      if (userId === null) {
+        return tmdbIds.map(() => false);
+      }
+      const collection = await getOrCreateSavedMoviesCollection(prisma, userId);
+      const saved = indexByTmdbId(
+        await prisma.collectionMovie.findMany({
+          where: { collectionId: collection.id, tmdbId: { in: tmdbIds } },
+          select: { tmdbId: true },
+        })
+      );
+      return tmdbIds.map((tmdbId) => saved.has(tmdbId));
+    }),
+
+    collectionMembership: new BatchLoader(async (tmdbIds) => {
+      if (userId === null) {
+        return tmdbIds.map(() => []);
+      }
+      const collectionMovies = await prisma.collectionMovie.findMany({
+        where: { tmdbId: { in: tmdbIds }, collection: { userId } },
+        include: { collection: true },
+      });
+      return tmdbIds.map((tmdbId) =>
+        collectionMovies
+          .filter((cm) => cm.tmdbId === tmdbId)
+          .map((cm) => cm.collection)
+      );
+    }),
+
+    collectionFollowerCounts: new BatchLoader(async (collectionIds) => {
+      const counts = await prisma.collectionFollow.groupBy({
+        by: ["collectionId"],
+        where: { collectionId: { in: collectionIds } },
+        _count: { _all: true },
+      });
+      const byId = new Map(counts.map((count) => [count.collectionId, count._count._all]));
+      return collectionIds.map((collectionId) => byId.get(collectionId) ?? 0);
+    }),
+
+    collectionFollowing: new BatchLoader(async (collectionIds) => {
+      if (userId === null) {
+        return collectionIds.map(() => false);
+      }
+      const follows = await prisma.collectionFollow.findMany({
+        where: { userId, collectionId: { in: collectionIds } },
+        select: { collectionId: true },
+      });
+      const followed = new Set(follows.map((follow) => follow.collectionId));
+      return collectionIds.map((collectionId) => followed.has(collectionId));
+    }),
+
+    movieNightHosts: new BatchLoader(async (movieNightIds) => {
+      const movieNights = await prisma.movieNight.findMany({
+        where: { id: { in: movieNightIds } },
+        select: { id: true, hostId: true },
+      });
+      const byId = new Map(movieNights.map((movieNight) => [movieNight.id, movieNight.hostId]));
+      return movieNightIds.map((movieNightId) => byId.get(movieNightId) ?? null);
+    }),
+
+    movieNightVoteCounts: new BatchLoader(async (candidateIds) => {
+      const counts = await prisma.movieNightVote.groupBy({
+        by: ["candidateId"],
+        where: { candidateId: { in: candidateIds } },
+        _count: { _all: true },
+      });
+      const byId = new Map(counts.map((count) => [count.candidateId, count._count._all]));
+      return candidateIds.map((candidateId) => byId.get(candidateId) ?? 0);
+    }),
+
+    movieNightVoted: new BatchLoader(async (candidateIds) => {
+      if (userId === null) {
+        return candidateIds.map(() => false);
+      }
+      const votes = await prisma.movieNightVote.findMany({
+        where: { userId, candidateId: { in: candidateIds } },
+        select: { candidateId: true },
+      });
+      const voted = new Set(votes.map((vote) => vote.candidateId));
+      return candidateIds.map((candidateId) => voted.has(candidateId));
+    }),
+  };
+}
@@ -0,0 +1,40 @@
+import { ConsoleMailer, createMailer, FileMailer } from "./index";
+
+describe("createMailer", () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env };
+    delete process.env.MAIL_TRANSPORT;
+    delete process.env.NODE_ENV;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it("defaults to the console transport in development", () => {
+    expect(createMailer()).toBeInstanceOf(ConsoleMailer);
+  });
+
+  it("creates the file transport when selected", () => {
+    process.env.MAIL_TRANSPORT = "file";
+    expect(createMailer()).toBeInstanceOf(FileMailer);
+  });
+
+  it("rejects unknown transports", () => {
+    process.env.MAIL_TRANSPORT = "smtp";
+    expect(() => createMailer()).toThrow('Unknown MAIL_TRANSPORT "smtp"');
+  });
+
+  it.each(["console", "file", undefined])(
+    "refuses the %s transport in production",
+    (transport) => {
+      process.env.NODE_ENV = "production";
+      if (transport) {
+        process.env.MAIL_TRANSPORT = transport;
+      }
+      expect(() => createMailer()).toThrow("local development only");
+    }
+  );
+});
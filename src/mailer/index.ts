@@ -0,0 +1,71 @@
+/**
+ * Pluggable outgoing email
+ * ConsoleMailer logs messages and FileMailer writes them to disk, for local development;
+ * production deployments plug in their provider by implementing Mailer
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+
+const DEFAULT_MAIL_DIR = "tmp/mail";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Format a message as plain text with a few headers
+ */
+function formatMessage(message: MailMessage): string {
+  return `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`;
+}
+
+/**
+ * Print messages to the server log
+ */
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail]\n${formatMessage(message)}`);
+  }
+}
+
+/**
+ * Write each message to its own .eml file in a directory
+ */
+export class FileMailer implements Mailer {
+  constructor(private readonly directory: string = DEFAULT_MAIL_DIR) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const filename = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@.-]/g, "_")}.eml`;
+    await fs.writeFile(path.join(this.directory, filename), formatMessage(message));
+  }
+}
+
+/**
+ * Create the mailer selected by MAIL_TRANSPORT ("console" or "file")
+ * Both transports expose reset and verification tokens, so they are refused in production
+ */
+export function createMailer(): Mailer {
+  const transport = process.env.MAIL_TRANSPORT || "console";
+  if (process.env.NODE_ENV === "production" && (transport === "console" || transport === "file")) {
+    throw new Error(
+      `MAIL_TRANSPORT "${transport}" is for local development only; implement Mailer for your provider in production`
+    );
+  }
+  if (transport === "file") {
+    return new FileMailer(process.env.MAIL_DIR || DEFAULT_MAIL_DIR);
+  }
+  if (transport !== "console") {
+    throw new Error(`Unknown MAIL_TRANSPORT "${transport}" (expected "console" or "file")`);
+  }
+  return new ConsoleMailer();
+}
+
+export { passwordResetEmail, verificationEmail } from "./templates";
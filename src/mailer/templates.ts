@@ -0,0 +1,59 @@
+/**
+ * Account emails
+ * Links point at FRONTEND_URL when set; the token is always included so it can be pasted
+ */
+
+import { MailMessage } from "./index";
+import {
+  EMAIL_VERIFICATION_TOKEN_TTL_HOURS,
+  PASSWORD_RESET_TOKEN_TTL_HOURS,
+} from "../constants";
+
+/**
+ * Build a frontend link carrying a token, or null when FRONTEND_URL isn't set
+ */
+function buildLink(pathname: string, token: string): string | null {
+  const frontendUrl = process.env.FRONTEND_URL;
+  if (!frontendUrl) {
+    return null;
+  }
+  const url = new URL(pathname, frontendUrl);
+  url.searchParams.set("token", token);
+  return url.toString();
+}
+
+function formatHours(hours: number): string {
+  return hours === 1 ? "1 hour" : `${hours} hours`;
+}
+
+function withLink(intro: string, pathname: string, token: string, outro: string): string {
+  const link = buildLink(pathname, token);
+  return [intro, link ? `\n${link}\n` : "", `Token: ${token}`, "", outro].join("\n");
+}
+
+export function passwordResetEmail(to: string, token: string): MailMessage {
+  return {
+    to,
+    subject: "Reset your Movie Night Picker password",
+    text: withLink(
+      "Someone asked to reset the password for your account. Use this link to choose a new one:",
+      "/reset-password",
+      token,
+      `The link expires in ${formatHours(PASSWORD_RESET_TOKEN_TTL_HOURS)}. ` +
+        "If you didn't ask for this, you can ignore this email."
+    ),
+  };
+}
+
+export function verificationEmail(to: string, token: string): MailMessage {
+  return {
+    to,
+    subject: "Verify your Movie Night Picker email address",
+    text: withLink(
+      "Confirm this is your email address:",
+      "/verify-email",
+      token,
+      `The link expires in ${formatHours(EMAIL_VERIFICATION_TOKEN_TTL_HOURS)}.`
+    ),
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Express middleware that protects admin endpoints with a shared API key
+ */
+
+import { timingSafeEqual } from "crypto";
+import { RequestHandler } from "express";
+import { ERROR_MESSAGES } from "../constants";
+import { extractTokenFromHeader } from "../utils/auth";
+
+/**
+ * Create the middleware for an API key
+ * Requests must send "Authorization: Bearer <key>"; anything else gets a 401
+ */
+export function createAdminAuthMiddleware(apiKey: string): RequestHandler {
+  const expected = Buffer.from(apiKey);
+
+  return (req, res, next) => {
+    const provided = Buffer.from(extractTokenFromHeader(req.headers.authorization) ?? "");
+
+    // Compare in constant time so the key can't be guessed byte by byte
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      res.status(401).json({ error: ERROR_MESSAGES.ADMIN_UNAUTHORIZED });
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Express middleware that rate limits every request to the GraphQL endpoint
+ */
+
+import { RequestHandler } from "express";
+import { ERROR_CODES, ERROR_MESSAGES } from "../constants";
+import {
+  RateLimiter,
+  getRateLimitHeaders,
+  getRateLimitKey,
+} from "../utils/rateLimiter";
+
+/**
+ * Create the middleware for a limiter
+ * Limited requests get a 429 with a GraphQL-shaped RATE_LIMITED error
+ */
+export function createRateLimitMiddleware(limiter: RateLimiter): RequestHandler {
+  return (req, res, next) => {
+    const result = limiter.consume(getRateLimitKey(req));
+    res.set(getRateLimitHeaders(result));
+
+    if (!result.allowed) {
+      res.status(429).json({
+        errors: [
+          {
+            message: ERROR_MESSAGES.RATE_LIMITED,
+            extensions: {
+              code: ERROR_CODES.RATE_LIMITED,
+              retryAfter: result.resetSeconds,
+            },
+          },
+        ],
+      });
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,233 @@
+/**
+ * Apollo plugin that rejects queries that are nested too deeply or would cost too much to run
+ * Cost is estimated before execution from per-field weights and list sizes
+ */
+
+import { ApolloServerPlugin } from "@apollo/server";
+import {
+  FieldNode,
+  FragmentDefinitionNode,
+  GraphQLNamedType,
+  GraphQLSchema,
+  Kind,
+  SelectionSetNode,
+  getNamedType,
+  getNullableType,
+  isInterfaceType,
+  isLeafType,
+  isListType,
+  isObjectType,
+} from "graphql";
+import {
+  CONNECTION_DEFAULT_FIRST,
+  CONNECTION_MAX_FIRST,
+  ERROR_CODES,
+  ERROR_MESSAGES,
+  GRAPHQL_MAX_COST,
+  GRAPHQL_MAX_DEPTH,
+} from "../constants";
+import { AppError } from "../utils/errors";
+
+// Assumed size of lists without a first/limit argument
+const DEFAULT_LIST_SIZE = CONNECTION_DEFAULT_FIRST;
+
+// Most root fields call TMDB at least once
+const ROOT_FIELD_COST = 10;
+// One TMDB request per parent object
+const TMDB_FIELD_COST = 10;
+// Fetches every movie in a collection from TMDB
+const INSIGHTS_FIELD_COST = 100;
+
+/**
+ * Weights for fields that cost more than a plain database relation (1) or scalar (0)
+ */
+const FIELD_COSTS: Record<string, number> = {
+  "Query.recommendedForMe": 5 * TMDB_FIELD_COST,
+  "Query.similarMovies": 5 * TMDB_FIELD_COST,
+  "Query.groupSuggestMovies": 5 * TMDB_FIELD_COST,
+  "Query.collectionInsights": INSIGHTS_FIELD_COST,
+  "Query.collectionAnalysis": INSIGHTS_FIELD_COST,
+  "Collection.insights": INSIGHTS_FIELD_COST,
+  "SavedMovie.movie": TMDB_FIELD_COST,
+  "Rating.movie": TMDB_FIELD_COST,
+  "Review.movie": TMDB_FIELD_COST,
+  "CollectionMovie.movie": TMDB_FIELD_COST,
+  "WatchHistoryEntry.movie": TMDB_FIELD_COST,
+  "MovieNightCandidate.movie": TMDB_FIELD_COST,
+  "SuggestSession.roundMovies": TMDB_FIELD_COST,
+  "SuggestSession.result": TMDB_FIELD_COST,
+  "SuggestSessionChoice.movie": TMDB_FIELD_COST,
+  "Movie.genres": TMDB_FIELD_COST,
+  "Movie.keywords": TMDB_FIELD_COST,
+  "Movie.cast": TMDB_FIELD_COST,
+  "Movie.crew": TMDB_FIELD_COST,
+  "Movie.trailer": TMDB_FIELD_COST,
+  "Movie.watchProviders": TMDB_FIELD_COST,
+  "Person.movies": TMDB_FIELD_COST,
+  "UserPreferences.watchProviders": TMDB_FIELD_COST,
+};
+
+export interface QueryComplexityOptions {
+  maxDepth?: number;
+  maxCost?: number;
+}
+
+interface ComplexityContext {
+  schema: GraphQLSchema;
+  fragments: Record<string, FragmentDefinitionNode>;
+  variables: Record<string, unknown>;
+}
+
+/**
+ * Read the first/limit argument of a field as a list size
+ * Clamped to the range resolvers enforce, so negative sizes can't offset the cost of other fields
+ */
+function getRequestedSize(field: FieldNode, ctx: ComplexityContext): number {
+  const arg = field.arguments?.find(
+    (a) => a.name.value === "first" || a.name.value === "limit"
+  );
+  let value: unknown;
+  if (arg?.value.kind === Kind.INT) {
+    value = parseInt(arg.value.value, 10);
+  } else if (arg?.value.kind === Kind.VARIABLE) {
+    value = ctx.variables[arg.value.name.value];
+  }
+
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 1) {
+    return DEFAULT_LIST_SIZE;
+  }
+  return Math.min(Math.floor(value), CONNECTION_MAX_FIRST);
+}
+
+/**
+ * Estimate the cost and depth of a selection set on a parent type
+ */
+function measureSelectionSet(
+  selectionSet: SelectionSetNode,
+  parentType: GraphQLNamedType,
+  ctx: ComplexityContext
+): { cost: number; depth: number } {
+  let cost = 0;
+  let depth = 0;
+
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FIELD) {
+      // Introspection is cheap and would otherwise trip the depth limit
+      if (selection.name.value.startsWith("__")) {
+        continue;
+      }
+      if (!isObjectType(parentType) && !isInterfaceType(parentType)) {
+        continue;
+      }
+      const fieldDef = parentType.getFields()[selection.name.value];
+      if (!fieldDef) {
+        continue;
+      }
+
+      const fieldType = getNamedType(fieldDef.type);
+      const fieldKey = `${parentType.name}.${selection.name.value}`;
+      let fieldCost = FIELD_COSTS[fieldKey];
+      if (fieldCost === undefined) {
+        const isRoot =
+          parentType === ctx.schema.getQueryType() ||
+          parentType === ctx.schema.getMutationType();
+        fieldCost = isRoot ? ROOT_FIELD_COST : isLeafType(fieldType) ? 0 : 1;
+      }
+
+      // Connections multiply their edges by first, so the edges list itself counts once
+      let multiplier = 1;
+      const isConnection = fieldType.name.endsWith("Connection");
+      if (isConnection || isListType(getNullableType(fieldDef.type))) {
+        multiplier = parentType.name.endsWith("Connection")
+          ? 1
+          : getRequestedSize(selection, ctx);
+      }
+
+      const child = selection.selectionSet
+        ? measureSelectionSet(selection.selectionSet, fieldType, ctx)
+        : { cost: 0, depth: 0 };
+
+      cost += fieldCost + multiplier * child.cost;
+      depth = Math.max(depth, child.depth + 1);
+    } else {
+      const fragment =
+        selection.kind === Kind.FRAGMENT_SPREAD
+          ? ctx.fragments[selection.name.value]
+          : selection;
+      if (!fragment) {
+        continue;
+      }
+      const typeCondition = fragment.typeCondition
+        ? ctx.schema.getType(fragment.typeCondition.name.value)
+        : parentType;
+      const child = measureSelectionSet(
+        fragment.selectionSet,
+        typeCondition ?? parentType,
+        ctx
+      );
+      cost += child.cost;
+      depth = Math.max(depth, child.depth);
+    }
+  }
+
+  return { cost, depth };
+}
+
+/**
+ * Create the query complexity plugin
+ * Rejected queries fail with QUERY_TOO_DEEP or QUERY_TOO_COMPLEX before any resolver runs
+ */
+export function createQueryComplexityPlugin(
+  options: QueryComplexityOptions = {}
+): ApolloServerPlugin {
+  const maxDepth = options.maxDepth ?? GRAPHQL_MAX_DEPTH;
+  const maxCost = options.maxCost ?? GRAPHQL_MAX_COST;
+
+  return {
+    async requestDidStart() {
+      return {
+        async didResolveOperation({ document, operation, schema, request }) {
+          if (!operation) {
+            return;
+          }
+          const rootType =
+            operation.operation === "mutation"
+              ? schema.getMutationType()
+              : schema.getQueryType();
+          if (!rootType) {
+            return;
+          }
+
+          const fragments: Record<string, FragmentDefinitionNode> = {};
+          document.definitions.forEach((definition) => {
+            if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+              fragments[definition.name.value] = definition;
+            }
+          });
+
+          const { cost, depth } = measureSelectionSet(operation.selectionSet, rootType, {
+            schema,
+            fragments,
+            variables: request.variables || {},
+          });
+
+          if (depth > maxDepth) {
+            throw new AppError(
+              `${ERROR_MESSAGES.QUERY_TOO_DEEP}: depth ${depth} exceeds the maximum of ${maxDepth}`,
+              ERROR_CODES.QUERY_TOO_DEEP,
+              { depth, maxDepth, http: { status: 400 } }
+            );
+          }
+
+          if (cost > maxCost) {
+            throw new AppError(
+              `${ERROR_MESSAGES.QUERY_TOO_COMPLEX}: estimated cost ${cost} exceeds the maximum of ${maxCost}`,
+              ERROR_CODES.QUERY_TOO_COMPLEX,
+              { cost, maxCost, http: { status: 400 } }
+            );
+          }
+        },
+      };
+    },
+  };
+}
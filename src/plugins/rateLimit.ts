@@ -0,0 +1,126 @@
+/**
+ * Apollo plugin that rate limits expensive operations in their own, smaller bucket
+ * Suggest, shuffle and insights fields can each trigger dozens of TMDB requests,
+ * and account email mutations would otherwise let anyone flood an inbox
+ */
+
+import { ApolloServerPlugin } from "@apollo/server";
+import { DocumentNode, Kind, SelectionSetNode } from "graphql";
+import { Context } from "../context";
+import { ERROR_MESSAGES } from "../constants";
+import { RateLimitError } from "../utils/errors";
+import {
+  RateLimiter,
+  getRateLimitHeaders,
+  getRateLimitKey,
+} from "../utils/rateLimiter";
+
+/**
+ * Fields that draw from the expensive bucket, wherever they appear in a query
+ */
+const EXPENSIVE_FIELDS = new Set([
+  "suggestMovie",
+  "suggestMovieExplained",
+  "suggestMovieRound",
+  "groupSuggestMovies",
+  "startSuggestSession",
+  "submitRoundChoice",
+  "finishSuggestSession",
+  "shuffleMovie",
+  "recommendedForMe",
+  "similarMovies",
+  "collectionInsights",
+  "collectionAnalysis",
+  "insights",
+  "requestPasswordReset",
+  "sendVerificationEmail",
+  "exportMyData",
+  "importLibrary",
+  "exportCollection",
+]);
+
+/**
+ * Count the expensive fields a selection set selects, including inside fragments
+ * Every occurrence counts, so aliasing one field many times costs one token per alias
+ */
+function countExpensiveFields(
+  selectionSet: SelectionSetNode,
+  document: DocumentNode,
+  fragmentPath: Set<string> = new Set()
+): number {
+  return selectionSet.selections.reduce((count, selection) => {
+    if (selection.kind === Kind.FIELD) {
+      return (
+        count +
+        (EXPENSIVE_FIELDS.has(selection.name.value) ? 1 : 0) +
+        (selection.selectionSet
+          ? countExpensiveFields(selection.selectionSet, document, fragmentPath)
+          : 0)
+      );
+    }
+    if (selection.kind === Kind.INLINE_FRAGMENT) {
+      return count + countExpensiveFields(selection.selectionSet, document, fragmentPath);
+    }
+
+    // Fragments can be spread more than once, but never inside themselves
+    if (fragmentPath.has(selection.name.value)) {
+      return count;
+    }
+    const fragment = document.definitions.find(
+      (definition) =>
+        definition.kind === Kind.FRAGMENT_DEFINITION &&
+        definition.name.value === selection.name.value
+    );
+    if (!fragment || fragment.kind !== Kind.FRAGMENT_DEFINITION) {
+      return count;
+    }
+    return (
+      count +
+      countExpensiveFields(
+        fragment.selectionSet,
+        document,
+        new Set([...fragmentPath, selection.name.value])
+      )
+    );
+  }, 0);
+}
+
+/**
+ * Create the expensive operation rate limit plugin
+ */
+export function createExpensiveOperationRateLimitPlugin(
+  limiter: RateLimiter
+): ApolloServerPlugin<Context> {
+  return {
+    async requestDidStart() {
+      return {
+        async didResolveOperation({ document, operation, contextValue }) {
+          if (!operation) {
+            return;
+          }
+          const expensiveFields = countExpensiveFields(operation.selectionSet, document);
+          if (expensiveFields === 0) {
+            return;
+          }
+
+          const result = limiter.consume(
+            getRateLimitKey(contextValue.req, contextValue.user?.id),
+            expensiveFields
+          );
+
+          if (!result.allowed) {
+            // The expensive bucket's headers replace the general ones on the 429 response
+            throw new RateLimitError(ERROR_MESSAGES.RATE_LIMITED, {
+              bucket: limiter.name,
+              retryAfter: result.resetSeconds,
+              http: {
+                status: 429,
+                headers: new Map(Object.entries(getRateLimitHeaders(result))),
+              },
+            });
+          }
+        },
+      };
+    },
+  };
+}
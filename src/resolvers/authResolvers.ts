@@ -1,12 +1,58 @@
+import { Session } from "@prisma/client";
 import { Context } from "../context";
-import { hashPassword, verifyPassword, generateToken } from "../utils/auth";
+import { hashPassword, verifyPassword } from "../utils/auth";
 import { handleError } from "../utils/errorHandler";
-import { excludePassword, validatePassword } from "../utils/userHelpers";
-import { AuthArgs, AuthPayload } from "../types/resolvers";
+import { validatePassword } from "../utils/userHelpers";
+import { requireAuth } from "../utils/authHelpers";
+import {
+  createSession,
+  revokeAllSessions,
+  revokeSession,
+  rotateSession,
+} from "../utils/sessionHelpers";
+import {
+  consumeUserToken,
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+} from "../utils/userTokenHelpers";
+import {
+  AuthArgs,
+  AuthPayload,
+  ChangePasswordArgs,
+  RefreshTokenArgs,
+  RequestPasswordResetArgs,
+  ResetPasswordArgs,
+  RevokeSessionArgs,
+  VerifyEmailArgs,
+} from "../types/resolvers";
 import { ERROR_MESSAGES } from "../constants";
+import {
+  AuthenticationError,
+  NotFoundError,
+  UserInputError,
+} from "../utils/errors";
 import { getOrCreateSavedMoviesCollection } from "../utils/dbHelpers";
 
 export const authResolvers = {
+  Query: {
+    mySessions: async (
+      _parent: unknown,
+      _args: unknown,
+      context: Context
+    ): Promise<Session[]> => {
+      const user = requireAuth(context);
+
+      try {
+        return await context.prisma.session.findMany({
+          where: { userId: user.id, revokedAt: null, expiresAt: { gt: new Date() } },
+          orderBy: { lastUsedAt: "desc" },
+        });
+      } catch (error) {
+        throw handleError(error, "Failed to fetch sessions");
+      }
+    },
+  },
+
   Mutation: {
     register: async (
       _parent: unknown,
@@ -16,10 +62,10 @@ export const authResolvers = {
       try {
         // Validate input
         if (!args.email) {
-          throw new Error("Email is required");
+          throw new UserInputError(ERROR_MESSAGES.EMAIL_REQUIRED);
         }
         if (!args.password) {
-          throw new Error("Password is required");
+          throw new UserInputError(ERROR_MESSAGES.PASSWORD_REQUIRED);
         }
 
         // Check if user already exists
@@ -28,13 +74,13 @@ export const authResolvers = {
         });
 
         if (existingUser) {
-          throw new Error(ERROR_MESSAGES.USER_EXISTS);
+          throw new UserInputError(ERROR_MESSAGES.USER_EXISTS);
         }
 
         // Validate password
         const passwordValidation = validatePassword(args.password);
         if (!passwordValidation.valid) {
-          throw new Error(passwordValidation.error);
+          throw new UserInputError(passwordValidation.error ?? ERROR_MESSAGES.PASSWORD_TOO_SHORT);
         }
 
         // Hash password and create user
@@ -52,14 +98,12 @@ export const authResolvers = {
         // Create default "Saved Movies" collection for the new user
         await getOrCreateSavedMoviesCollection(context.prisma, user.id);
 
-        // Generate token
-        const token = generateToken({ userId: user.id, email: user.email });
-        const userWithoutPassword = excludePassword(user);
+        // A mail failure shouldn't fail the registration; the user can ask for another email
+        await sendVerificationEmail(context.prisma, context.mailer, user).catch((error) => {
+          console.error("Error sending verification email:", error);
+        });
 
-        return {
-          token,
-          user: userWithoutPassword,
-        };
+        return await createSession(context.prisma, user, context.req);
       } catch (error) {
         throw handleError(error, "Failed to register user");
       }
@@ -77,26 +121,191 @@ export const authResolvers = {
         });
 
         if (!user) {
-          throw new Error(ERROR_MESSAGES.INVALID_EMAIL_PASSWORD);
+          throw new AuthenticationError(ERROR_MESSAGES.INVALID_EMAIL_PASSWORD);
         }
 
         // Verify password
         const isValid = await verifyPassword(args.password, user.password);
         if (!isValid) {
-          throw new Error(ERROR_MESSAGES.INVALID_EMAIL_PASSWORD);
+          throw new AuthenticationError(ERROR_MESSAGES.INVALID_EMAIL_PASSWORD);
         }
 
-        // Generate token
-        const token = generateToken({ userId: user.id, email: user.email });
-
-        return {
-          token,
-          user: excludePassword(user),
-        };
+        return await createSession(context.prisma, user, context.req);
       } catch (error) {
         throw handleError(error, "Failed to login");
       }
     },
+
+    refreshToken: async (
+      _parent: unknown,
+      args: RefreshTokenArgs,
+      context: Context
+    ): Promise<AuthPayload> => {
+      try {
+        return await rotateSession(context.prisma, args.refreshToken);
+      } catch (error) {
+        throw handleError(error, "Failed to refresh token");
+      }
+    },
+
+    logout: async (
+      _parent: unknown,
+      _args: unknown,
+      context: Context
+    ): Promise<boolean> => {
+      const user = requireAuth(context);
+      if (context.sessionId === null) {
+        throw new AuthenticationError(ERROR_MESSAGES.AUTH_REQUIRED);
+      }
+
+      try {
+        return await revokeSession(context.prisma, user.id, context.sessionId);
+      } catch (error) {
+        throw handleError(error, "Failed to logout");
+      }
+    },
+
+    logoutAllDevices: async (
+      _parent: unknown,
+      _args: unknown,
+      context: Context
+    ): Promise<number> => {
+      const user = requireAuth(context);
+
+      try {
+        return await revokeAllSessions(context.prisma, user.id);
+      } catch (error) {
+        throw handleError(error, "Failed to logout from all devices");
+      }
+    },
+
+    requestPasswordReset: async (
+      _parent: unknown,
+      args: RequestPasswordResetArgs,
+      context: Context
+    ): Promise<boolean> => {
+      try {
+        const user = await context.prisma.user.findUnique({
+          where: { email: args.email },
+        });
+
+        // Same response whether or not the account exists, so emails can't be probed
+        if (user) {
+          await sendPasswordResetEmail(context.prisma, context.mailer, user);
+        }
+        return true;
+      } catch (error) {
+        throw handleError(error, "Failed to request password reset");
+      }
+    },
+
+    resetPassword: async (
+      _parent: unknown,
+      args: ResetPasswordArgs,
+      context: Context
+    ): Promise<boolean> => {
+      const passwordValidation = validatePassword(args.newPassword);
+      if (!passwordValidation.valid) {
+        throw new UserInputError(passwordValidation.error ?? ERROR_MESSAGES.PASSWORD_TOO_SHORT);
+      }
+
+      try {
+        const userId = await consumeUserToken(context.prisma, args.token, "PASSWORD_RESET");
+        await context.prisma.user.update({
+          where: { id: userId },
+          data: { password: await hashPassword(args.newPassword) },
+        });
+
+        // Whoever knew the old password is signed out everywhere
+        await revokeAllSessions(context.prisma, userId);
+        return true;
+      } catch (error) {
+        throw handleError(error, "Failed to reset password");
+      }
+    },
+
+    changePassword: async (
+      _parent: unknown,
+      args: ChangePasswordArgs,
+      context: Context
+    ): Promise<boolean> => {
+      const user = requireAuth(context);
+      const passwordValidation = validatePassword(args.newPassword);
+      if (!passwordValidation.valid) {
+        throw new UserInputError(passwordValidation.error ?? ERROR_MESSAGES.PASSWORD_TOO_SHORT);
+      }
+
+      try {
+        const isValid = await verifyPassword(args.currentPassword, user.password);
+        if (!isValid) {
+          throw new UserInputError(ERROR_MESSAGES.CURRENT_PASSWORD_INCORRECT);
+        }
+
+        await context.prisma.user.update({
+          where: { id: user.id },
+          data: { password: await hashPassword(args.newPassword) },
+        });
+
+        // Keep this device signed in and sign out the others
+        await revokeAllSessions(context.prisma, user.id, context.sessionId ?? undefined);
+        return true;
+      } catch (error) {
+        throw handleError(error, "Failed to change password");
+      }
+    },
+
+    sendVerificationEmail: async (
+      _parent: unknown,
+      _args: unknown,
+      context: Context
+    ): Promise<boolean> => {
+      const user = requireAuth(context);
+      if (user.emailVerifiedAt) {
+        throw new UserInputError(ERROR_MESSAGES.EMAIL_ALREADY_VERIFIED);
+      }
+
+      try {
+        await sendVerificationEmail(context.prisma, context.mailer, user);
+        return true;
+      } catch (error) {
+        throw handleError(error, "Failed to send verification email");
+      }
+    },
+
+    verifyEmail: async (
+      _parent: unknown,
+      args: VerifyEmailArgs,
+      context: Context
+    ): Promise<boolean> => {
+      try {
+        const userId = await consumeUserToken(context.prisma, args.token, "EMAIL_VERIFICATION");
+        await context.prisma.user.update({
+          where: { id: userId },
+          data: { emailVerifiedAt: new Date() },
+        });
+        return true;
+      } catch (error) {
+        throw handleError(error, "Failed to verify email");
+      }
+    },
+
+    revokeSession: async (
+      _parent: unknown,
+      args: RevokeSessionArgs,
+      context: Context
+    ): Promise<boolean> => {
+      const user = requireAuth(context);
+
+      try {
+        const revoked = await revokeSession(context.prisma, user.id, args.id);
+        if (!revoked) {
+          throw new NotFoundError(ERROR_MESSAGES.SESSION_NOT_FOUND);
+        }
+        return true;
+      } catch (error) {
+        throw handleError(error, "Failed to revoke session");
+      }
+    },
   },
 };
 
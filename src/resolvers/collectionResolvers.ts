@@ -7,6 +7,15 @@ import { calculateCollectionInsights } from "../utils/collectionInsights";
 import type { CollectionInsightsData } from "../utils/collectionInsights";
 export type { CollectionInsightsData } from "../utils/collectionInsights";
 import { verifyCollectionAccess, extractCollectionAnalysis } from "../utils/collectionHelpers";
+import { getConnectionWindow, paginateQuery } from "../utils/connectionHelpers";
+import { buildCollectionExport } from "../utils/collectionExportHelpers";
+import {
+  backfillCollectionGenres,
+  browsePublicCollections,
+  copyCollection,
+  generateShareSlug,
+  getCollectionMovieGenres,
+} from "../utils/publicCollectionHelpers";
 import {
   GetCollectionArgs,
   CreateCollectionArgs,
@@ -16,8 +25,15 @@ import {
   RemoveMovieFromCollectionArgs,
   CollectionInsightsArgs,
   CollectionAnalysisArgs,
+  ConnectionArgs,
+  ExportCollectionArgs,
+  PublicCollectionArgs,
+  BrowsePublicCollectionsArgs,
+  CopyCollectionArgs,
+  FollowCollectionArgs,
 } from "../types/resolvers";
 import { ERROR_MESSAGES } from "../constants";
+import { ForbiddenError, NotFoundError, UserInputError } from "../utils/errors";
 
 export const collectionResolvers = {
   Query: {
@@ -38,6 +54,31 @@ export const collectionResolvers = {
       }
     },
 
+    collectionsConnection: async (
+      _parent: unknown,
+      args: ConnectionArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+      const window = getConnectionWindow(args);
+
+      try {
+        return await paginateQuery(
+          window,
+          () => context.prisma.collection.count({ where: { userId: user.id } }),
+          (skip, take) =>
+            context.prisma.collection.findMany({
+              where: { userId: user.id },
+              orderBy: [{ updatedAt: "desc" }, { id: "desc" }],
+              skip,
+              take,
+            })
+        );
+      } catch (error) {
+        throw handleError(error, "Failed to fetch collections");
+      }
+    },
+
     getCollection: async (
       _parent: unknown,
       args: GetCollectionArgs,
@@ -51,12 +92,12 @@ export const collectionResolvers = {
         });
 
         if (!collection) {
-          throw new Error(ERROR_MESSAGES.COLLECTION_NOT_FOUND);
+          throw new NotFoundError(ERROR_MESSAGES.COLLECTION_NOT_FOUND);
         }
 
         // Check if user has access (owner or public)
         if (collection.userId !== user.id && !collection.isPublic) {
-          throw new Error(ERROR_MESSAGES.COLLECTION_NO_ACCESS);
+          throw new ForbiddenError(ERROR_MESSAGES.COLLECTION_NO_ACCESS);
         }
 
         return collection;
@@ -114,6 +155,70 @@ export const collectionResolvers = {
         throw handleError(error, "Failed to fetch collection analysis");
       }
     },
+
+    exportCollection: async (
+      _parent: unknown,
+      args: ExportCollectionArgs,
+      context: Context
+    ) => {
+      try {
+        // No requireAuth: public collections can be exported by anyone
+        await verifyCollectionAccess(context.prisma, args.id, context.user?.id ?? null);
+        return await buildCollectionExport(context.prisma, context.tmdb, args.id, args.format);
+      } catch (error) {
+        throw handleError(error, "Failed to export collection");
+      }
+    },
+
+    publicCollection: async (
+      _parent: unknown,
+      args: PublicCollectionArgs,
+      context: Context
+    ) => {
+      try {
+        const collection = await context.prisma.collection.findUnique({
+          where: { shareSlug: args.slug },
+        });
+
+        // Private collections look the same as missing ones, so slugs can't be probed
+        if (!collection || !collection.isPublic) {
+          throw new NotFoundError(ERROR_MESSAGES.COLLECTION_NOT_FOUND);
+        }
+        return collection;
+      } catch (error) {
+        throw handleError(error, "Failed to fetch collection");
+      }
+    },
+
+    browsePublicCollections: async (
+      _parent: unknown,
+      args: BrowsePublicCollectionsArgs,
+      context: Context
+    ) => {
+      try {
+        return await browsePublicCollections(context.prisma, args);
+      } catch (error) {
+        throw handleError(error, "Failed to browse public collections");
+      }
+    },
+
+    followedCollections: async (
+      _parent: unknown,
+      _args: unknown,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      try {
+        // Collections made private after being followed are hidden
+        return await context.prisma.collection.findMany({
+          where: { isPublic: true, followers: { some: { userId: user.id } } },
+          orderBy: { updatedAt: "desc" },
+        });
+      } catch (error) {
+        throw handleError(error, "Failed to fetch followed collections");
+      }
+    },
   },
 
   Mutation: {
@@ -133,6 +238,7 @@ export const collectionResolvers = {
             name: trimmedName,
             description: args.description?.trim() || null,
             isPublic: args.isPublic ?? false,
+            shareSlug: generateShareSlug(trimmedName),
             userId: user.id,
           },
         });
@@ -150,7 +256,7 @@ export const collectionResolvers = {
 
       try {
         // Check if collection exists and user is owner
-        verifyCollectionOwnership(context.prisma, args.id, user.id);
+        const existing = await verifyCollectionOwnership(context.prisma, args.id, user.id);
 
         // Build update data
         const updateData: {
@@ -171,10 +277,19 @@ export const collectionResolvers = {
           updateData.isPublic = args.isPublic;
         }
 
-        return context.prisma.collection.update({
+        const collection = await context.prisma.collection.update({
           where: { id: args.id },
           data: updateData,
         });
+
+        // Public collections need genres on every movie for the feed's genre filter.
+        // Only when the collection is made public, and off the request path
+        if (collection.isPublic && !existing.isPublic) {
+          backfillCollectionGenres(context.prisma, context.tmdb, collection.id).catch((error) =>
+            console.error("Failed to backfill collection genres:", error)
+          );
+        }
+        return collection;
       } catch (error) {
         throw handleError(error, "Failed to update collection");
       }
@@ -231,6 +346,7 @@ export const collectionResolvers = {
           data: {
             collectionId: args.collectionId,
             tmdbId: args.tmdbId,
+            ...(await getCollectionMovieGenres(context.tmdb, args.tmdbId)),
           },
         });
       } catch (error) {
@@ -261,6 +377,67 @@ export const collectionResolvers = {
         throw handleError(error, "Failed to remove movie from collection");
       }
     },
+
+    copyCollection: async (
+      _parent: unknown,
+      args: CopyCollectionArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      try {
+        // Owners can copy their own collections; anyone can copy a public one
+        await verifyCollectionAccess(context.prisma, args.id, user.id);
+        const source = await context.prisma.collection.findUniqueOrThrow({
+          where: { id: args.id },
+        });
+        return await copyCollection(context.prisma, source, user.id);
+      } catch (error) {
+        throw handleError(error, "Failed to copy collection");
+      }
+    },
+
+    followCollection: async (
+      _parent: unknown,
+      args: FollowCollectionArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      try {
+        const collection = await verifyCollectionAccess(context.prisma, args.id, user.id);
+        if (collection.userId === user.id) {
+          throw new UserInputError(ERROR_MESSAGES.COLLECTION_FOLLOW_OWN);
+        }
+
+        await context.prisma.collectionFollow.upsert({
+          where: { collectionId_userId: { collectionId: args.id, userId: user.id } },
+          update: {},
+          create: { collectionId: args.id, userId: user.id },
+        });
+        return await context.prisma.collection.findUniqueOrThrow({
+          where: { id: args.id },
+        });
+      } catch (error) {
+        throw handleError(error, "Failed to follow collection");
+      }
+    },
+
+    unfollowCollection: async (
+      _parent: unknown,
+      args: FollowCollectionArgs,
+      context: Context
+    ): Promise<boolean> => {
+      const user = requireAuth(context);
+
+      try {
+        await context.prisma.collectionFollow.deleteMany({
+          where: { collectionId: args.id, userId: user.id },
+        });
+        return true;
+      } catch (error) {
+        throw handleError(error, "Failed to unfollow collection");
+      }
+    },
   },
 };
-
@@ -1,20 +1,25 @@
 import { Context } from "../context";
-import { fetchMovieFromTMDB } from "../utils/movieHelpers";
 import {
-  getUserWithoutPassword,
-  findUserRating,
-  findUserReview,
-  isMovieSaved,
   calculateAverageRating,
   getOrCreateSavedMoviesCollection,
 } from "../utils/dbHelpers";
-import { extractTrailer, transformTMDBMovie } from "../utils/transformers";
-import { GENRE_ICONS } from "../constants";
+import {
+  extractTrailer,
+  transformTMDBMovie,
+  transformTMDBWatchProvider,
+  transformTMDBWatchProviderRegion,
+} from "../utils/transformers";
+import { DEFAULT_REGION } from "../datasources/tmdb/types";
+import { validateRegion } from "../utils/validationHelpers";
+import { ConnectionArgs, MovieWatchProvidersArgs } from "../types/resolvers";
+import { getConnectionWindow, paginateQuery } from "../utils/connectionHelpers";
+import { GENRE_ICONS, SUGGEST_MOVIE_ROUNDS } from "../constants";
 import { calculateCollectionInsights } from "../utils/collectionInsights";
 
 export const fieldResolvers = {
   User: {
     createdAt: (user: { createdAt: Date }) => user.createdAt.toISOString(),
+    emailVerified: (user: { emailVerifiedAt: Date | null }) => user.emailVerifiedAt !== null,
     savedMovies: async (
       user: { id: number },
       _args: unknown,
@@ -62,7 +67,7 @@ export const fieldResolvers = {
       _args: unknown,
       context: Context
     ) => {
-      return fetchMovieFromTMDB(savedMovie.tmdbId, context);
+      return context.loaders.movies.load(savedMovie.tmdbId);
     },
     rating: async (
       savedMovie: { tmdbId: number },
@@ -74,11 +79,7 @@ export const fieldResolvers = {
       }
 
       try {
-        return findUserRating(
-          context.prisma,
-          context.user.id,
-          savedMovie.tmdbId
-        );
+        return context.loaders.userRatings.load(savedMovie.tmdbId);
       } catch (error) {
         return null;
       }
@@ -93,11 +94,7 @@ export const fieldResolvers = {
       }
 
       try {
-        return findUserReview(
-          context.prisma,
-          context.user.id,
-          savedMovie.tmdbId
-        );
+        return context.loaders.userReviews.load(savedMovie.tmdbId);
       } catch (error) {
         return null;
       }
@@ -113,14 +110,14 @@ export const fieldResolvers = {
       _args: unknown,
       context: Context
     ) => {
-      return fetchMovieFromTMDB(rating.tmdbId, context);
+      return context.loaders.movies.load(rating.tmdbId);
     },
     user: async (
       rating: { userId: number },
       _args: unknown,
       context: Context
     ) => {
-      return getUserWithoutPassword(context.prisma, rating.userId);
+      return context.loaders.users.load(rating.userId);
     },
   },
 
@@ -132,14 +129,14 @@ export const fieldResolvers = {
       _args: unknown,
       context: Context
     ) => {
-      return fetchMovieFromTMDB(review.tmdbId, context);
+      return context.loaders.movies.load(review.tmdbId);
     },
     user: async (
       review: { userId: number },
       _args: unknown,
       context: Context
     ) => {
-      return getUserWithoutPassword(context.prisma, review.userId);
+      return context.loaders.users.load(review.userId);
     },
   },
 
@@ -153,7 +150,7 @@ export const fieldResolvers = {
       _args: unknown,
       context: Context
     ) => {
-      return getUserWithoutPassword(context.prisma, collection.userId);
+      return context.loaders.users.load(collection.userId);
     },
     movies: async (
       collection: { id: number },
@@ -165,6 +162,26 @@ export const fieldResolvers = {
         orderBy: { addedAt: "desc" },
       });
     },
+    moviesConnection: async (
+      collection: { id: number },
+      args: ConnectionArgs,
+      context: Context
+    ) => {
+      return paginateQuery(
+        getConnectionWindow(args),
+        () =>
+          context.prisma.collectionMovie.count({
+            where: { collectionId: collection.id },
+          }),
+        (skip, take) =>
+          context.prisma.collectionMovie.findMany({
+            where: { collectionId: collection.id },
+            orderBy: [{ addedAt: "desc" }, { id: "desc" }],
+            skip,
+            take,
+          })
+      );
+    },
     movieCount: async (
       collection: { id: number },
       _args: unknown,
@@ -181,6 +198,20 @@ export const fieldResolvers = {
     ) => {
       return calculateCollectionInsights(collection.id, context);
     },
+    followerCount: async (
+      collection: { id: number },
+      _args: unknown,
+      context: Context
+    ) => {
+      return context.loaders.collectionFollowerCounts.load(collection.id);
+    },
+    isFollowing: async (
+      collection: { id: number },
+      _args: unknown,
+      context: Context
+    ) => {
+      return context.loaders.collectionFollowing.load(collection.id);
+    },
   },
 
   CollectionMovie: {
@@ -191,7 +222,216 @@ export const fieldResolvers = {
       _args: unknown,
       context: Context
     ) => {
-      return fetchMovieFromTMDB(collectionMovie.tmdbId, context);
+      return context.loaders.movies.load(collectionMovie.tmdbId);
+    },
+  },
+
+  WatchHistoryEntry: {
+    tmdbId: (entry: { movieId: number }) => entry.movieId, // Maps database 'movieId' field to GraphQL 'tmdbId' field
+    watchedAt: (entry: { watchedAt: Date }) => entry.watchedAt.toISOString(),
+    movie: async (
+      entry: { movieId: number },
+      _args: unknown,
+      context: Context
+    ) => {
+      return context.loaders.movies.load(entry.movieId);
+    },
+  },
+
+  MovieNight: {
+    scheduledFor: (movieNight: { scheduledFor: Date | null }) =>
+      movieNight.scheduledFor?.toISOString() ?? null,
+    createdAt: (movieNight: { createdAt: Date }) =>
+      movieNight.createdAt.toISOString(),
+    closedAt: (movieNight: { closedAt: Date | null }) =>
+      movieNight.closedAt?.toISOString() ?? null,
+    host: async (
+      movieNight: { hostId: number },
+      _args: unknown,
+      context: Context
+    ) => {
+      return context.loaders.users.load(movieNight.hostId);
+    },
+    participants: async (
+      movieNight: { id: number },
+      _args: unknown,
+      context: Context
+    ) => {
+      return context.prisma.movieNightParticipant.findMany({
+        where: { movieNightId: movieNight.id },
+        orderBy: { joinedAt: "asc" },
+      });
+    },
+    candidates: async (
+      movieNight: { id: number },
+      _args: unknown,
+      context: Context
+    ) => {
+      return context.prisma.movieNightCandidate.findMany({
+        where: { movieNightId: movieNight.id },
+        orderBy: [{ votes: { _count: "desc" } }, { createdAt: "asc" }],
+      });
+    },
+    winner: async (
+      movieNight: { id: number; winnerTmdbId: number | null },
+      _args: unknown,
+      context: Context
+    ) => {
+      if (movieNight.winnerTmdbId === null) {
+        return null;
+      }
+
+      return context.prisma.movieNightCandidate.findUnique({
+        where: {
+          movieNightId_tmdbId: {
+            movieNightId: movieNight.id,
+            tmdbId: movieNight.winnerTmdbId,
+          },
+        },
+      });
+    },
+  },
+
+  MovieNightParticipant: {
+    joinedAt: (participant: { joinedAt: Date }) =>
+      participant.joinedAt.toISOString(),
+    user: async (
+      participant: { userId: number },
+      _args: unknown,
+      context: Context
+    ) => {
+      return context.loaders.users.load(participant.userId);
+    },
+    isHost: async (
+      participant: { movieNightId: number; userId: number },
+      _args: unknown,
+      context: Context
+    ) => {
+      const hostId = await context.loaders.movieNightHosts.load(participant.movieNightId);
+      return hostId === participant.userId;
+    },
+  },
+
+  MovieNightCandidate: {
+    createdAt: (candidate: { createdAt: Date }) =>
+      candidate.createdAt.toISOString(),
+    nominatedBy: async (
+      candidate: { nominatedById: number | null },
+      _args: unknown,
+      context: Context
+    ) => {
+      if (candidate.nominatedById === null) {
+        return null;
+      }
+      return context.loaders.users.load(candidate.nominatedById);
+    },
+    voteCount: async (
+      candidate: { id: number },
+      _args: unknown,
+      context: Context
+    ) => {
+      return context.loaders.movieNightVoteCounts.load(candidate.id);
+    },
+    hasVoted: async (
+      candidate: { id: number },
+      _args: unknown,
+      context: Context
+    ) => {
+      return context.loaders.movieNightVoted.load(candidate.id);
+    },
+    movie: async (
+      candidate: { tmdbId: number },
+      _args: unknown,
+      context: Context
+    ) => {
+      return context.loaders.movies.load(candidate.tmdbId);
+    },
+  },
+
+  SuggestSession: {
+    totalRounds: () => SUGGEST_MOVIE_ROUNDS,
+    roundMovies: async (
+      session: { roundMovieIds: number[] },
+      _args: unknown,
+      context: Context
+    ) => {
+      const movies = await context.loaders.movies.loadMany(session.roundMovieIds);
+      return movies.filter((movie) => movie !== null);
+    },
+    choices: async (
+      session: { id: number },
+      _args: unknown,
+      context: Context
+    ) => {
+      return context.prisma.suggestSessionChoice.findMany({
+        where: { sessionId: session.id },
+        orderBy: { round: "asc" },
+      });
+    },
+    result: async (
+      session: { resultTmdbId: number | null },
+      _args: unknown,
+      context: Context
+    ) => {
+      if (session.resultTmdbId === null) {
+        return null;
+      }
+      return context.loaders.movies.load(session.resultTmdbId);
+    },
+    createdAt: (session: { createdAt: Date }) => session.createdAt.toISOString(),
+    updatedAt: (session: { updatedAt: Date }) => session.updatedAt.toISOString(),
+    finishedAt: (session: { finishedAt: Date | null }) =>
+      session.finishedAt?.toISOString() ?? null,
+  },
+
+  SuggestSessionChoice: {
+    createdAt: (choice: { createdAt: Date }) => choice.createdAt.toISOString(),
+    movie: async (
+      choice: { tmdbId: number },
+      _args: unknown,
+      context: Context
+    ) => {
+      return context.loaders.movies.load(choice.tmdbId);
+    },
+  },
+
+  AuthPayload: {
+    accessTokenExpiresAt: (payload: { accessTokenExpiresAt: Date }) =>
+      payload.accessTokenExpiresAt.toISOString(),
+  },
+
+  Session: {
+    createdAt: (session: { createdAt: Date }) => session.createdAt.toISOString(),
+    lastUsedAt: (session: { lastUsedAt: Date }) => session.lastUsedAt.toISOString(),
+    expiresAt: (session: { expiresAt: Date }) => session.expiresAt.toISOString(),
+    isCurrent: (session: { id: number }, _args: unknown, context: Context) =>
+      session.id === context.sessionId,
+  },
+
+  UserPreferences: {
+    updatedAt: (preferences: { updatedAt: Date }) => preferences.updatedAt.toISOString(),
+    watchProviders: async (
+      preferences: { region: string | null; watchProviderIds: number[] },
+      _args: unknown,
+      context: Context
+    ) => {
+      if (preferences.watchProviderIds.length === 0) {
+        return [];
+      }
+
+      try {
+        const catalog = await context.tmdb.getWatchProviderCatalog(
+          preferences.region || DEFAULT_REGION
+        );
+        const providers = new Map(catalog.map((provider) => [provider.provider_id, provider]));
+        // Keep the user's order and skip IDs not offered in the region
+        return preferences.watchProviderIds.flatMap((id) => {
+          const provider = providers.get(id);
+          return provider ? [transformTMDBWatchProvider(provider)] : [];
+        });
+      } catch (error) {
+        return [];
+      }
     },
   },
 
@@ -336,7 +576,7 @@ export const fieldResolvers = {
       }
 
       try {
-        return findUserRating(context.prisma, context.user.id, movie.id);
+        return context.loaders.userRatings.load(movie.id);
       } catch (error) {
         return null;
       }
@@ -348,7 +588,7 @@ export const fieldResolvers = {
       }
 
       try {
-        return findUserReview(context.prisma, context.user.id, movie.id);
+        return context.loaders.userReviews.load(movie.id);
       } catch (error) {
         return null;
       }
@@ -364,7 +604,7 @@ export const fieldResolvers = {
       }
 
       try {
-        return isMovieSaved(context.prisma, context.user.id, movie.id);
+        return context.loaders.savedState.load(movie.id);
       } catch (error) {
         return false;
       }
@@ -380,20 +620,8 @@ export const fieldResolvers = {
       }
 
       try {
-        // Find all collections that contain this movie
-        const collectionMovies = await context.prisma.collectionMovie.findMany({
-          where: {
-            tmdbId: movie.id,
-            collection: {
-              userId: context.user.id,
-            },
-          },
-          include: {
-            collection: true,
-          },
-        });
-
-        return collectionMovies.map((cm) => cm.collection);
+        // Find all of the user's collections that contain this movie
+        return await context.loaders.collectionMembership.load(movie.id);
       } catch (error) {
         return [];
       }
@@ -445,6 +673,63 @@ export const fieldResolvers = {
         return null;
       }
     },
+
+    watchedAt: async (
+      movie: { id: number },
+      _args: unknown,
+      context: Context
+    ) => {
+      if (!context.user) {
+        return null;
+      }
+
+      try {
+        const latest = await context.prisma.movieHistory.findFirst({
+          where: { userId: context.user.id, movieId: movie.id },
+          orderBy: { watchedAt: "desc" },
+          select: { watchedAt: true },
+        });
+
+        return latest ? latest.watchedAt.toISOString() : null;
+      } catch (error) {
+        return null;
+      }
+    },
+
+    timesWatched: async (
+      movie: { id: number },
+      _args: unknown,
+      context: Context
+    ) => {
+      if (!context.user) {
+        return 0;
+      }
+
+      try {
+        return await context.prisma.movieHistory.count({
+          where: { userId: context.user.id, movieId: movie.id },
+        });
+      } catch (error) {
+        return 0;
+      }
+    },
+
+    watchProviders: async (
+      movie: { id: number },
+      args: MovieWatchProvidersArgs,
+      context: Context
+    ) => {
+      const region = validateRegion(args.region || context.preferences?.region);
+
+      try {
+        const regions = await context.tmdb.getMovieWatchProviders(movie.id);
+        return regions[region]
+          ? transformTMDBWatchProviderRegion(region, regions[region])
+          : null;
+      } catch (error) {
+        return null;
+      }
+    },
   },
 
   Person: {
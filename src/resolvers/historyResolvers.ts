@@ -0,0 +1,109 @@
+import { Context } from "../context";
+import { requireAuth } from "../utils/authHelpers";
+import { handleError } from "../utils/errorHandler";
+import { fetchMovieFromTMDB } from "../utils/movieHelpers";
+import { parseDateArg, recordWatch } from "../utils/watchHistoryHelpers";
+import {
+  MarkWatchedArgs,
+  UnmarkWatchedArgs,
+  WatchHistoryArgs,
+} from "../types/resolvers";
+import { ERROR_MESSAGES } from "../constants";
+import { NotFoundError, UserInputError } from "../utils/errors";
+
+export const historyResolvers = {
+  Query: {
+    watchHistory: async (
+      _parent: unknown,
+      args: WatchHistoryArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      // Validate and set limit (default: 20, max: 100)
+      const limit = args.limit ? Math.min(Math.max(1, args.limit), 100) : 20;
+      const offset = Math.max(0, args.offset || 0);
+      const from = parseDateArg(args.from, "from");
+      const to = parseDateArg(args.to, "to");
+
+      try {
+        const where = {
+          userId: user.id,
+          ...((from || to) && {
+            watchedAt: {
+              ...(from && { gte: from }),
+              ...(to && { lte: to }),
+            },
+          }),
+        };
+
+        const [entries, totalCount] = await Promise.all([
+          context.prisma.movieHistory.findMany({
+            where,
+            orderBy: [{ watchedAt: "desc" }, { id: "desc" }],
+            skip: offset,
+            take: limit,
+          }),
+          context.prisma.movieHistory.count({ where }),
+        ]);
+
+        return {
+          entries,
+          totalCount,
+          hasMore: offset + entries.length < totalCount,
+        };
+      } catch (error) {
+        throw handleError(error, "Failed to fetch watch history");
+      }
+    },
+  },
+
+  Mutation: {
+    markWatched: async (
+      _parent: unknown,
+      args: MarkWatchedArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      const watchedAt = parseDateArg(args.watchedAt, "watchedAt") ?? new Date();
+      if (watchedAt.getTime() > Date.now()) {
+        throw new UserInputError(ERROR_MESSAGES.WATCHED_AT_IN_FUTURE);
+      }
+
+      try {
+        // Store title and poster so history renders without TMDB calls
+        const movie = await fetchMovieFromTMDB(args.tmdbId, context);
+        if (!movie) {
+          throw new NotFoundError(ERROR_MESSAGES.MOVIE_NOT_FOUND);
+        }
+
+        return await recordWatch(context.prisma, user.id, movie, watchedAt);
+      } catch (error) {
+        throw handleError(error, "Failed to mark movie as watched");
+      }
+    },
+
+    unmarkWatched: async (
+      _parent: unknown,
+      args: UnmarkWatchedArgs,
+      context: Context
+    ): Promise<boolean> => {
+      const user = requireAuth(context);
+
+      try {
+        const result = await context.prisma.movieHistory.deleteMany({
+          where: {
+            userId: user.id,
+            movieId: args.tmdbId,
+            ...(args.entryId && { id: args.entryId }),
+          },
+        });
+
+        return result.count > 0;
+      } catch (error) {
+        throw handleError(error, "Failed to unmark movie as watched");
+      }
+    },
+  },
+};
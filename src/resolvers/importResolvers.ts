@@ -0,0 +1,29 @@
+import { Context } from "../context";
+import { requireAuth } from "../utils/authHelpers";
+import { handleError } from "../utils/errorHandler";
+import { importLibrary } from "../utils/importHelpers";
+import { ImportLibraryArgs, ImportReport } from "../types/resolvers";
+
+export const importResolvers = {
+  Mutation: {
+    importLibrary: async (
+      _parent: unknown,
+      args: ImportLibraryArgs,
+      context: Context
+    ): Promise<ImportReport> => {
+      const user = requireAuth(context);
+
+      try {
+        return await importLibrary(
+          context.prisma,
+          context.tmdb,
+          user.id,
+          args.format,
+          args.fileContent
+        );
+      } catch (error) {
+        throw handleError(error, "Failed to import library");
+      }
+    },
+  },
+};
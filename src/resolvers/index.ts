@@ -3,6 +3,11 @@ import { personResolvers } from "./personResolvers";
 import { authResolvers } from "./authResolvers";
 import { userResolvers } from "./userResolvers";
 import { collectionResolvers } from "./collectionResolvers";
+import { historyResolvers } from "./historyResolvers";
+import { movieNightResolvers } from "./movieNightResolvers";
+import { suggestSessionResolvers } from "./suggestSessionResolvers";
+import { preferencesResolvers } from "./preferencesResolvers";
+import { importResolvers } from "./importResolvers";
 import { fieldResolvers } from "./fieldResolvers";
 
 /**
@@ -10,15 +15,25 @@ import { fieldResolvers } from "./fieldResolvers";
  */
 export const resolvers = {
   Query: {
+    ...authResolvers.Query,
     ...movieResolvers.Query,
     ...personResolvers.Query,
     ...userResolvers.Query,
     ...collectionResolvers.Query,
+    ...historyResolvers.Query,
+    ...movieNightResolvers.Query,
+    ...suggestSessionResolvers.Query,
+    ...preferencesResolvers.Query,
   },
   Mutation: {
     ...authResolvers.Mutation,
     ...userResolvers.Mutation,
     ...collectionResolvers.Mutation,
+    ...historyResolvers.Mutation,
+    ...movieNightResolvers.Mutation,
+    ...suggestSessionResolvers.Mutation,
+    ...preferencesResolvers.Mutation,
+    ...importResolvers.Mutation,
   },
   ...fieldResolvers,
 };
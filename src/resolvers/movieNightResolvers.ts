@@ -0,0 +1,418 @@
+import { Context } from "../context";
+import { requireAuth } from "../utils/authHelpers";
+import { handleError } from "../utils/errorHandler";
+import { fetchMovieFromTMDB } from "../utils/movieHelpers";
+import { validateNonEmptyString } from "../utils/validationHelpers";
+import { parseDateArg } from "../utils/watchHistoryHelpers";
+import { verifyCollectionAccess } from "../utils/collectionHelpers";
+import {
+  generateJoinCode,
+  verifyMovieNightParticipant,
+  assertMovieNightOpen,
+  assertMovieNightHost,
+  nominateMovies,
+  pickWinningCandidate,
+} from "../utils/movieNightHelpers";
+import { Movie } from "../types";
+import {
+  MovieNightArgs,
+  MyMovieNightsArgs,
+  CreateMovieNightArgs,
+  InviteToMovieNightArgs,
+  JoinMovieNightArgs,
+  NominateMovieArgs,
+  NominateFromCollectionArgs,
+  MovieNightVoteArgs,
+  CloseMovieNightArgs,
+} from "../types/resolvers";
+import { ERROR_MESSAGES, MOVIE_NIGHT_MAX_CANDIDATES } from "../constants";
+import { NotFoundError, UserInputError } from "../utils/errors";
+
+/**
+ * Find a candidate and verify the user participates in its movie night
+ */
+async function getCandidateForParticipant(
+  context: Context,
+  candidateId: number,
+  userId: number
+) {
+  const candidate = await context.prisma.movieNightCandidate.findUnique({
+    where: { id: candidateId },
+  });
+
+  if (!candidate) {
+    throw new NotFoundError(ERROR_MESSAGES.MOVIE_NIGHT_CANDIDATE_NOT_FOUND);
+  }
+
+  const movieNight = await verifyMovieNightParticipant(
+    context.prisma,
+    candidate.movieNightId,
+    userId
+  );
+
+  return { candidate, movieNight };
+}
+
+export const movieNightResolvers = {
+  Query: {
+    movieNight: async (
+      _parent: unknown,
+      args: MovieNightArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      try {
+        return await verifyMovieNightParticipant(context.prisma, args.id, user.id);
+      } catch (error) {
+        throw handleError(error, "Failed to fetch movie night");
+      }
+    },
+
+    myMovieNights: async (
+      _parent: unknown,
+      args: MyMovieNightsArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      try {
+        return await context.prisma.movieNight.findMany({
+          where: {
+            participants: { some: { userId: user.id } },
+            ...(args.status && { status: args.status }),
+          },
+          orderBy: { createdAt: "desc" },
+        });
+      } catch (error) {
+        throw handleError(error, "Failed to fetch movie nights");
+      }
+    },
+  },
+
+  Mutation: {
+    createMovieNight: async (
+      _parent: unknown,
+      args: CreateMovieNightArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      const name = validateNonEmptyString(args.name, "Movie night name");
+      const scheduledFor = parseDateArg(args.scheduledFor, "scheduledFor");
+
+      try {
+        const joinCode = await generateJoinCode(context.prisma);
+
+        // The host is also the first participant
+        return await context.prisma.movieNight.create({
+          data: {
+            name,
+            joinCode,
+            scheduledFor: scheduledFor ?? null,
+            hostId: user.id,
+            participants: {
+              create: { userId: user.id },
+            },
+          },
+        });
+      } catch (error) {
+        throw handleError(error, "Failed to create movie night");
+      }
+    },
+
+    inviteToMovieNight: async (
+      _parent: unknown,
+      args: InviteToMovieNightArgs,
+      context: Context
+    ): Promise<boolean> => {
+      const user = requireAuth(context);
+
+      try {
+        const movieNight = await verifyMovieNightParticipant(
+          context.prisma,
+          args.movieNightId,
+          user.id
+        );
+        assertMovieNightOpen(movieNight);
+
+        const invitee = await context.prisma.user.findUnique({
+          where: { email: args.email.trim() },
+          select: { id: true },
+        });
+
+        // Same response whether or not the account exists, so emails can't be probed.
+        // Inviting someone who already joined is a no-op
+        if (invitee) {
+          await context.prisma.movieNightParticipant.upsert({
+            where: {
+              movieNightId_userId: {
+                movieNightId: movieNight.id,
+                userId: invitee.id,
+              },
+            },
+            update: {},
+            create: {
+              movieNightId: movieNight.id,
+              userId: invitee.id,
+            },
+          });
+        }
+        return true;
+      } catch (error) {
+        throw handleError(error, "Failed to invite to movie night");
+      }
+    },
+
+    joinMovieNight: async (
+      _parent: unknown,
+      args: JoinMovieNightArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      try {
+        const movieNight = await context.prisma.movieNight.findUnique({
+          where: { joinCode: args.joinCode.trim().toUpperCase() },
+        });
+
+        if (!movieNight) {
+          throw new NotFoundError(ERROR_MESSAGES.MOVIE_NIGHT_INVALID_JOIN_CODE);
+        }
+        assertMovieNightOpen(movieNight);
+
+        await context.prisma.movieNightParticipant.upsert({
+          where: {
+            movieNightId_userId: {
+              movieNightId: movieNight.id,
+              userId: user.id,
+            },
+          },
+          update: {},
+          create: {
+            movieNightId: movieNight.id,
+            userId: user.id,
+          },
+        });
+
+        return movieNight;
+      } catch (error) {
+        throw handleError(error, "Failed to join movie night");
+      }
+    },
+
+    nominateMovie: async (
+      _parent: unknown,
+      args: NominateMovieArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      try {
+        const movieNight = await verifyMovieNightParticipant(
+          context.prisma,
+          args.movieNightId,
+          user.id
+        );
+        assertMovieNightOpen(movieNight);
+
+        // Store title and poster so candidates render without TMDB calls
+        const movie = await fetchMovieFromTMDB(args.tmdbId, context);
+        if (!movie) {
+          throw new NotFoundError(ERROR_MESSAGES.MOVIE_NOT_FOUND);
+        }
+
+        const [candidate] = await nominateMovies(
+          context.prisma,
+          movieNight.id,
+          user.id,
+          [movie],
+          args.source
+        );
+        return candidate;
+      } catch (error) {
+        throw handleError(error, "Failed to nominate movie");
+      }
+    },
+
+    nominateFromCollection: async (
+      _parent: unknown,
+      args: NominateFromCollectionArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      try {
+        const movieNight = await verifyMovieNightParticipant(
+          context.prisma,
+          args.movieNightId,
+          user.id
+        );
+        assertMovieNightOpen(movieNight);
+        await verifyCollectionAccess(context.prisma, args.collectionId, user.id);
+
+        const collectionMovies = await context.prisma.collectionMovie.findMany({
+          where: {
+            collectionId: args.collectionId,
+            ...(args.tmdbIds && { tmdbId: { in: args.tmdbIds } }),
+          },
+          orderBy: { addedAt: "desc" },
+          take: MOVIE_NIGHT_MAX_CANDIDATES,
+          select: { tmdbId: true },
+        });
+
+        const movies = await Promise.all(
+          collectionMovies.map((cm) => fetchMovieFromTMDB(cm.tmdbId, context))
+        );
+
+        return await nominateMovies(
+          context.prisma,
+          movieNight.id,
+          user.id,
+          movies.filter((movie): movie is Movie => movie !== null),
+          "COLLECTION"
+        );
+      } catch (error) {
+        throw handleError(error, "Failed to nominate movies from collection");
+      }
+    },
+
+    voteForCandidate: async (
+      _parent: unknown,
+      args: MovieNightVoteArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      try {
+        const { candidate, movieNight } = await getCandidateForParticipant(
+          context,
+          args.candidateId,
+          user.id
+        );
+        assertMovieNightOpen(movieNight);
+
+        await context.prisma.movieNightVote.upsert({
+          where: {
+            candidateId_userId: {
+              candidateId: candidate.id,
+              userId: user.id,
+            },
+          },
+          update: {},
+          create: {
+            candidateId: candidate.id,
+            userId: user.id,
+          },
+        });
+
+        return candidate;
+      } catch (error) {
+        throw handleError(error, "Failed to vote");
+      }
+    },
+
+    removeVote: async (
+      _parent: unknown,
+      args: MovieNightVoteArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      try {
+        const { candidate, movieNight } = await getCandidateForParticipant(
+          context,
+          args.candidateId,
+          user.id
+        );
+        assertMovieNightOpen(movieNight);
+
+        await context.prisma.movieNightVote.deleteMany({
+          where: {
+            candidateId: candidate.id,
+            userId: user.id,
+          },
+        });
+
+        return candidate;
+      } catch (error) {
+        throw handleError(error, "Failed to remove vote");
+      }
+    },
+
+    closeMovieNight: async (
+      _parent: unknown,
+      args: CloseMovieNightArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      try {
+        const movieNight = await verifyMovieNightParticipant(
+          context.prisma,
+          args.movieNightId,
+          user.id
+        );
+        assertMovieNightHost(movieNight, user.id);
+        assertMovieNightOpen(movieNight);
+
+        // An explicit winner overrides the vote count
+        const winner = args.winnerTmdbId
+          ? await context.prisma.movieNightCandidate.findUnique({
+              where: {
+                movieNightId_tmdbId: {
+                  movieNightId: movieNight.id,
+                  tmdbId: args.winnerTmdbId,
+                },
+              },
+            })
+          : await pickWinningCandidate(context.prisma, movieNight.id);
+
+        if (!winner) {
+          throw new NotFoundError(ERROR_MESSAGES.MOVIE_NIGHT_CANDIDATE_NOT_FOUND);
+        }
+
+        const participants = await context.prisma.movieNightParticipant.findMany({
+          where: { movieNightId: movieNight.id },
+          select: { userId: true },
+        });
+
+        // Record the winner in each participant's watch history at the scheduled time
+        const now = new Date();
+        const watchedAt =
+          movieNight.scheduledFor && movieNight.scheduledFor < now
+            ? movieNight.scheduledFor
+            : now;
+
+        return await context.prisma.$transaction(async (tx) => {
+          // Only one of two concurrent closes can flip the status, so history is recorded once
+          const { count } = await tx.movieNight.updateMany({
+            where: { id: movieNight.id, status: "OPEN" },
+            data: {
+              status: "CLOSED",
+              winnerTmdbId: winner.tmdbId,
+              closedAt: now,
+            },
+          });
+          if (count === 0) {
+            throw new UserInputError(ERROR_MESSAGES.MOVIE_NIGHT_CLOSED);
+          }
+
+          await tx.movieHistory.createMany({
+            data: participants.map((participant) => ({
+              userId: participant.userId,
+              movieId: winner.tmdbId,
+              title: winner.title,
+              posterUrl: winner.posterUrl,
+              watchedAt,
+            })),
+          });
+
+          return tx.movieNight.findUniqueOrThrow({ where: { id: movieNight.id } });
+        });
+      } catch (error) {
+        throw handleError(error, "Failed to close movie night");
+      }
+    },
+  },
+};
@@ -1,11 +1,15 @@
 import { Context } from "../context";
-import { Movie } from "../types";
+import { Connection, DiscoverParams, Movie, TMDBOptions } from "../types";
 import {
   GetMovieArgs,
   SearchMoviesArgs,
+  SimilarMoviesArgs,
+  WatchProviderCatalogArgs,
   SearchKeywordsArgs,
   DiscoverMoviesArgs,
   SuggestMovieArgs,
+  GroupSuggestMoviesArgs,
+  RecommendedForMeArgs,
   SuggestMovieRoundArgs,
   ShuffleMovieArgs,
   RandomMovieArgs,
@@ -17,28 +21,37 @@ import {
   RandomMovieFromSourceArgs,
   ActorsFromFeaturedMoviesArgs,
   CrewFromFeaturedMoviesArgs,
-  MoviePreferencesInput,
+  SearchMoviesConnectionArgs,
+  DiscoverMoviesConnectionArgs,
+  TrendingMoviesConnectionArgs,
+  MovieListConnectionArgs,
 } from "../types/resolvers";
-import { transformTMDBMovie } from "../utils/transformers";
+import { MovieListRequest } from "../datasources/tmdb/types";
+import {
+  transformTMDBMovie,
+  transformTMDBWatchProvider,
+} from "../utils/transformers";
 import type { TMDBMovieResponse } from "../utils/transformers";
 import { handleError } from "../utils/errorHandler";
+import { requireAuth } from "../utils/authHelpers";
 import {
   buildDiscoverParams,
   shouldTryFallback,
   pickRandomItem,
   buildProgressiveFallbackParams,
-  DiscoverFilters,
 } from "../utils/discoverHelpers";
 import {
   getMovieIdsFromCollections,
   getAllMovieIdsInCollections,
   filterMoviesByCollections,
   getCollectionAnalysisForFiltering,
+  applyCollectionFilters,
 } from "../utils/collectionHelpers";
+import { getSuggestHistory } from "../utils/dbHelpers";
 import {
-  getSuggestHistory,
-  addToSuggestHistory,
-} from "../utils/dbHelpers";
+  getExcludedWatchedIds,
+  filterOutWatched,
+} from "../utils/watchHistoryHelpers";
 import {
   MOVIE_VIBES,
   ERA_OPTIONS,
@@ -46,263 +59,155 @@ import {
   ERA_OPTION_ICONS,
   GENRE_ICONS,
   getPopularityRange,
-  MOOD_TO_KEYWORDS,
-  getEraYearRange,
   SUGGEST_MOVIE_ROUNDS,
+  ERROR_MESSAGES,
+  GROUP_SUGGEST_DEFAULT_LIMIT,
+  GROUP_SUGGEST_MAX_LIMIT,
+  GROUP_SUGGEST_MAX_PARTICIPANTS,
+  SUGGEST_MAX_SELECTED_MOVIES,
+  SIMILAR_MOVIES_DEFAULT_LIMIT,
+  SIMILAR_MOVIES_MAX_LIMIT,
+  RECOMMENDATION_DEFAULT_LIMIT,
+  RECOMMENDATION_MAX_LIMIT,
 } from "../constants";
-import { convertGraphQLOptionsToTMDBOptions } from "../utils/tmdbOptionsConverter";
+import { AuthenticationError, UserInputError } from "../utils/errors";
+import {
+  convertGraphQLOptionsToTMDBOptions,
+  mergeTMDBOptions,
+} from "../utils/tmdbOptionsConverter";
+import { getMyServicesOptions } from "../utils/preferencesHelpers";
+import {
+  ConnectionWindow,
+  getConnectionWindow,
+  paginateTMDBList,
+} from "../utils/connectionHelpers";
+import {
+  collectCategoryCounts,
+  suggestMovieFromSelections,
+  explainSuggestion,
+  SuggestionResultData,
+} from "../utils/suggestHelpers";
+import {
+  buildRoundPickProfile,
+  generateSuggestRound,
+} from "../utils/suggestRoundHelpers";
+import {
+  validateExplorationWeight,
+  validateRegion,
+} from "../utils/validationHelpers";
+import {
+  buildParticipantProfile,
+  mergeGroupPreferences,
+  scoreMovieForProfile,
+  calculateGroupScore,
+  ScorableMovie,
+} from "../utils/groupSuggestHelpers";
+import {
+  buildTasteProfile,
+  hasPositiveTaste,
+  discoverRecommendationCandidates,
+  rankRecommendations,
+} from "../utils/recommendationHelpers";
+import {
+  fetchSimilarCandidates,
+  rankSimilarMovies,
+} from "../utils/similarMovieHelpers";
 
 /**
- * Extract and aggregate categories from selected movies
- * Returns simplified preferences that are less restrictive for better discovery
+ * Helper function to page through a TMDB movie list as a connection of movies
  */
-async function extractCategoriesFromMovies(
-  movieIds: number[],
+async function getMovieConnection(
+  window: ConnectionWindow,
+  request: MovieListRequest,
+  options: TMDBOptions | undefined,
   context: Context
-): Promise<MoviePreferencesInput> {
-  const preferences: MoviePreferencesInput = {
-    genres: [],
-    keywordIds: [],
-    actors: [],
-    crew: [],
-    yearRange: undefined,
-  };
-
-  const years: number[] = [];
-  const genreCounts = new Map<number, number>();
-  const keywordCounts = new Map<number, number>();
-  const actorCounts = new Map<number, number>();
-  const crewCounts = new Map<number, number>();
-
-  // Fetch all selected movies in parallel (with credits for actors/crew)
-  const moviePromises = movieIds.map((id) =>
-    context.tmdb.getMovie(id, undefined, true).catch(() => null)
+): Promise<Connection<Movie>> {
+  const connection = await paginateTMDBList(window, (page) =>
+    context.tmdb.getMovieListPage(request, page, options)
   );
-  const movies = await Promise.all(moviePromises);
-
-  // Fetch keywords for all movies in parallel
-  const keywordPromises = movieIds.map((id) =>
-    context.tmdb.getMovieKeywords(id).catch(() => ({ keywords: [] }))
-  );
-  const keywordResults = await Promise.all(keywordPromises);
-
-  // Extract categories from each movie and count frequencies
-  for (let i = 0; i < movies.length; i++) {
-    const movie = movies[i];
-    if (!movie) continue;
-
-    const movieData = movie as {
-      genres?: Array<{ id: number; name: string }>;
-      release_date?: string;
-      credits?: {
-        cast?: Array<{ id: number; name: string }>;
-        crew?: Array<{ id: number; name: string; job?: string }>;
-      };
-    };
-
-    // Count genre frequencies
-    if (movieData.genres) {
-      movieData.genres.forEach((genre) => {
-        genreCounts.set(genre.id, (genreCounts.get(genre.id) || 0) + 1);
-      });
-    }
-
-    // Count keyword frequencies
-    const keywordData = keywordResults[i];
-    if (keywordData?.keywords) {
-      keywordData.keywords.forEach((keyword: { id: number; name: string }) => {
-        keywordCounts.set(keyword.id, (keywordCounts.get(keyword.id) || 0) + 1);
-      });
-    }
-
-    // Extract release year
-    if (movieData.release_date) {
-      const year = parseInt(movieData.release_date.substring(0, 4), 10);
-      if (!isNaN(year)) {
-        years.push(year);
-      }
-    }
-
-    // Count actor frequencies (top 3 actors per movie)
-    if (movieData.credits?.cast) {
-      movieData.credits.cast.slice(0, 3).forEach((actor) => {
-        actorCounts.set(actor.id, (actorCounts.get(actor.id) || 0) + 1);
-      });
-    }
-
-    // Count crew frequencies (directors and writers only)
-    if (movieData.credits?.crew) {
-      movieData.credits.crew
-        .filter((member) => {
-          const job = member.job?.toLowerCase() || "";
-          return job.includes("director") || job.includes("writer") || job.includes("screenplay");
-        })
-        .slice(0, 2)
-        .forEach((member) => {
-          crewCounts.set(member.id, (crewCounts.get(member.id) || 0) + 1);
-        });
-    }
-  }
-
-  // Select top genres (most common, limit to 2-3 for less restriction)
-  const sortedGenres = Array.from(genreCounts.entries())
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 3)
-    .map(([id]) => id);
-  preferences.genres = sortedGenres.length > 0 ? sortedGenres : [];
-
-  // Select top keywords (most common, limit to 3-5 for less restriction)
-  const sortedKeywords = Array.from(keywordCounts.entries())
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 5)
-    .map(([id]) => id);
-  preferences.keywordIds = sortedKeywords.length > 0 ? sortedKeywords : [];
-
-  // Select top actors (most common, limit to 2 for less restriction)
-  const sortedActors = Array.from(actorCounts.entries())
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 2)
-    .map(([id]) => id);
-  preferences.actors = sortedActors.length > 0 ? sortedActors : [];
-
-  // Select top crew (most common, limit to 1-2 for less restriction)
-  const sortedCrew = Array.from(crewCounts.entries())
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 2)
-    .map(([id]) => id);
-  preferences.crew = sortedCrew.length > 0 ? sortedCrew : [];
-
-  // Calculate flexible year range (expand by 5 years on each side for more variety)
-  if (years.length > 0) {
-    const minYear = Math.min(...years);
-    const maxYear = Math.max(...years);
-    const yearSpan = maxYear - minYear;
-    // Expand range: add 5 years on each side, or 50% of span (whichever is larger)
-    const expansion = Math.max(5, Math.floor(yearSpan * 0.5));
-    const expandedMin = Math.max(1900, minYear - expansion); // Don't go before 1900
-    const expandedMax = Math.min(new Date().getFullYear(), maxYear + expansion); // Don't go past current year
-    preferences.yearRange = [expandedMin, expandedMax];
-  }
-
-  return preferences;
+  return {
+    ...connection,
+    edges: connection.edges.map((edge) => ({
+      cursor: edge.cursor,
+      node: transformTMDBMovie(edge.node as TMDBMovieResponse),
+    })),
+  };
 }
 
 /**
- * Generate 4 diverse category combinations for a suggest round
- * Each combination represents different genres, moods, eras, and popularity levels
+ * Helper function to build discover filters and options from discover arguments
+ * Merges collection analysis, the user's streaming services and explicit filters
  */
-function generateRoundCombinations(
-  round: number,
-  genreIds: number[]
-): Array<{
-  genres?: number[];
-  yearRange?: number[];
-  keywordIds?: number[];
-  popularityLevel?: "HIGH" | "AVERAGE" | "LOW";
-}> {
-  const combinations: Array<{
+async function buildDiscoverRequest(
+  args: DiscoverMoviesConnectionArgs,
+  context: Context
+): Promise<{ discoverParams: DiscoverParams; options: TMDBOptions | undefined }> {
+  // Get collection analysis if requested
+  let collectionAnalysis: {
     genres?: number[];
+    keywords?: number[];
+    actors?: number[];
+    crew?: number[];
     yearRange?: number[];
-    keywordIds?: number[];
-    popularityLevel?: "HIGH" | "AVERAGE" | "LOW";
-  }> = [];
-
-  // Use round number as seed for deterministic but varied combinations
-  // Each round will have different category focuses
-  const roundSeed = round - 1; // 0 to (SUGGEST_MOVIE_ROUNDS - 1)
-
-  // Popular genres to use (common, well-represented genres)
-  const popularGenres = [
-    28, // Action
-    35, // Comedy
-    18, // Drama
-    14, // Fantasy
-    27, // Horror
-    878, // Sci-Fi
-    53, // Thriller
-    16, // Animation
-    10749, // Romance
-    80, // Crime
-  ];
+  } = {};
 
-  // Select genres based on round
-  const genreGroups = [
-    [popularGenres[roundSeed % popularGenres.length]],
-    [
-      popularGenres[roundSeed % popularGenres.length],
-      popularGenres[(roundSeed + 1) % popularGenres.length],
-    ],
-    [popularGenres[(roundSeed + 2) % popularGenres.length]],
-    [
-      popularGenres[(roundSeed + 3) % popularGenres.length],
-      popularGenres[(roundSeed + 4) % popularGenres.length],
-    ],
-  ];
+  if (args.filterByCollectionAnalysis && context.user) {
+    collectionAnalysis = await getCollectionAnalysisForFiltering(
+      args.filterByCollectionAnalysis,
+      context,
+      10
+    );
+  }
 
-  // Select moods based on round (vary across rounds)
-  const moodOptions = MOVIE_VIBES.map((m) => m.id);
-  const selectedMoods = [
-    moodOptions[(roundSeed * 4) % moodOptions.length],
-    moodOptions[(roundSeed * 4 + 1) % moodOptions.length],
-    moodOptions[(roundSeed * 4 + 2) % moodOptions.length],
-    moodOptions[(roundSeed * 4 + 3) % moodOptions.length],
+  // Filter cast to only actors (merge with collection analysis)
+  const allActorIds = [
+    ...(args.cast || []),
+    ...(collectionAnalysis.actors || []),
   ];
-
-  // Select eras based on round
-  const eraOptions = ERA_OPTIONS.map((e) => e.value);
-  const selectedEras = [
-    eraOptions[(roundSeed * 2) % eraOptions.length],
-    eraOptions[(roundSeed * 2 + 1) % eraOptions.length],
-    eraOptions[(roundSeed * 2 + 2) % eraOptions.length],
-    eraOptions[(roundSeed * 2 + 3) % eraOptions.length],
+  const actorIds = allActorIds.length > 0
+    ? await context.tmdb.filterToActorsOnly(allActorIds)
+    : undefined;
+
+  // Filter crew to only directors/writers (merge with collection analysis)
+  const allCrewIds = [
+    ...(args.crew || []),
+    ...(collectionAnalysis.crew || []),
   ];
+  const crewIds = allCrewIds.length > 0
+    ? await context.tmdb.filterToCrewOnly(allCrewIds)
+    : undefined;
+
+  // Merge collection analysis with explicit filters (explicit filters take precedence)
+  const discoverParams = buildDiscoverParams({
+    genres: args.genres || collectionAnalysis.genres,
+    yearRange: args.yearRange || collectionAnalysis.yearRange,
+    cast: actorIds,
+    actors: actorIds,
+    crew: crewIds,
+    runtimeRange: args.runtimeRange,
+    watchProviders: args.watchProviders,
+    excludeGenres: args.excludeGenres,
+    excludeCast: args.excludeCast,
+    excludeCrew: args.excludeCrew,
+    popularityRange: args.popularityRange,
+    popularityLevel: args.popularityLevel,
+    originCountries: args.originCountries,
+    keywords: args.keywordIds || collectionAnalysis.keywords,
+  });
+  
+  // Build options with popularity range if provided (from range or level)
+  const popularityRange = args.popularityRange || 
+    (args.popularityLevel ? getPopularityRange(args.popularityLevel) : undefined);
+  const options = mergeTMDBOptions(
+    convertGraphQLOptionsToTMDBOptions({
+      ...args.options,
+      popularityGte: popularityRange?.[0],
+      popularityLte: popularityRange?.[1],
+    }, context.preferences),
+    await getMyServicesOptions(context, args.onlyMyServices, args.watchProviders)
+  );
 
-  // Popularity levels
-  const popularityLevels: Array<"HIGH" | "AVERAGE" | "LOW"> = ["HIGH", "AVERAGE", "LOW"];
-
-  // Generate 4 combinations deterministically based on round
-  // Each combination will always have the same categories for the same round
-  for (let i = 0; i < 4; i++) {
-    const combo: {
-      genres?: number[];
-      yearRange?: number[];
-      keywordIds?: number[];
-      popularityLevel?: "HIGH" | "AVERAGE" | "LOW";
-    } = {
-      genres: genreGroups[i],
-    };
-
-    // Deterministically include mood (keyword) based on round and position
-    // Pattern: include mood for positions 0, 1, 3 (75% coverage)
-    if (i !== 2) {
-      const moodId = selectedMoods[i];
-      const moodKeywords = MOOD_TO_KEYWORDS[moodId];
-      if (moodKeywords && moodKeywords.length > 0) {
-        // Use first keyword from mood
-        combo.keywordIds = [moodKeywords[0]];
-      }
-    }
-
-    // Deterministically include era (year range) based on round and position
-    // Pattern: include era for positions 0, 2, 3 (75% coverage)
-    if (i !== 1) {
-      const eraId = selectedEras[i];
-      const yearRange = getEraYearRange(eraId);
-      if (yearRange) {
-        combo.yearRange = yearRange;
-      }
-    }
-
-    // Deterministically include popularity level based on round and position
-    // Pattern: include popularity for positions 1, 3 (50% coverage)
-    if (i === 1 || i === 3) {
-      combo.popularityLevel = popularityLevels[(roundSeed + i) % popularityLevels.length];
-    }
-
-    combinations.push(combo);
-  }
-
-  return combinations;
+  return { discoverParams, options };
 }
 
 export const movieResolvers = {
@@ -313,7 +218,7 @@ export const movieResolvers = {
       context: Context
     ): Promise<Movie> => {
       try {
-        const options = convertGraphQLOptionsToTMDBOptions(args.options);
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
         // Always include credits for detail page
         const tmdbMovie = await context.tmdb.getMovie(args.id, options, true);
         return transformTMDBMovie(tmdbMovie as TMDBMovieResponse);
@@ -333,7 +238,7 @@ export const movieResolvers = {
           ? Math.min(Math.max(1, args.limit), 100)
           : 20;
 
-        const options = convertGraphQLOptionsToTMDBOptions(args.options);
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
         let tmdbMovies = await context.tmdb.searchMovies(
           args.query,
           limit * 2, // Fetch more to account for filtering
@@ -404,6 +309,70 @@ export const movieResolvers = {
       }
     },
 
+    similarMovies: async (
+      _parent: unknown,
+      args: SimilarMoviesArgs,
+      context: Context
+    ) => {
+      const limit = Math.min(
+        Math.max(1, args.limit || SIMILAR_MOVIES_DEFAULT_LIMIT),
+        SIMILAR_MOVIES_MAX_LIMIT
+      );
+
+      try {
+        const source = (await context.tmdb.getMovie(args.tmdbId)) as {
+          id: number;
+          genres?: Array<{ id: number }>;
+        };
+
+        const { candidates, inBothSources } = await fetchSimilarCandidates(
+          args.tmdbId,
+          context,
+          convertGraphQLOptionsToTMDBOptions(args.options, context.preferences)
+        );
+
+        // Filter before ranking so lookups are only spent on movies that can be returned
+        const watchedIds = await getExcludedWatchedIds(context, args.excludeWatched);
+        const filtered = filterOutWatched(
+          await applyCollectionFilters(candidates, context, args),
+          watchedIds
+        );
+
+        const ranked = await rankSimilarMovies(
+          source,
+          filtered,
+          inBothSources,
+          context,
+          limit
+        );
+
+        return ranked.map(({ movie, score }) => ({
+          movie: transformTMDBMovie(movie as unknown as TMDBMovieResponse),
+          score,
+        }));
+      } catch (error) {
+        throw handleError(error, "Failed to get similar movies");
+      }
+    },
+
+    watchProviderCatalog: async (
+      _parent: unknown,
+      args: WatchProviderCatalogArgs,
+      context: Context
+    ) => {
+      const region = validateRegion(args.region || context.preferences?.region);
+
+      try {
+        const providers = await context.tmdb.getWatchProviderCatalog(region);
+        return providers
+          .slice()
+          .sort((a, b) => (a.display_priority ?? 0) - (b.display_priority ?? 0))
+          .map(transformTMDBWatchProvider);
+      } catch (error) {
+        throw handleError(error, "Failed to get watch provider catalog");
+      }
+    },
+
     searchKeywords: async (
       _parent: unknown,
       args: SearchKeywordsArgs,
@@ -431,68 +400,8 @@ export const movieResolvers = {
       context: Context
     ): Promise<Movie[]> => {
       try {
-        // Get collection analysis if requested
-        let collectionAnalysis: {
-          genres?: number[];
-          keywords?: number[];
-          actors?: number[];
-          crew?: number[];
-          yearRange?: number[];
-        } = {};
+        const { discoverParams, options } = await buildDiscoverRequest(args, context);
 
-        if (args.filterByCollectionAnalysis && context.user) {
-          collectionAnalysis = await getCollectionAnalysisForFiltering(
-            args.filterByCollectionAnalysis,
-            context,
-            10
-          );
-        }
-
-        // Filter cast to only actors (merge with collection analysis)
-        const allActorIds = [
-          ...(args.cast || []),
-          ...(collectionAnalysis.actors || []),
-        ];
-        const actorIds = allActorIds.length > 0
-          ? await context.tmdb.filterToActorsOnly(allActorIds)
-          : undefined;
-
-        // Filter crew to only directors/writers (merge with collection analysis)
-        const allCrewIds = [
-          ...(args.crew || []),
-          ...(collectionAnalysis.crew || []),
-        ];
-        const crewIds = allCrewIds.length > 0
-          ? await context.tmdb.filterToCrewOnly(allCrewIds)
-          : undefined;
-
-        // Merge collection analysis with explicit filters (explicit filters take precedence)
-        const discoverParams = buildDiscoverParams({
-          genres: args.genres || collectionAnalysis.genres,
-          yearRange: args.yearRange || collectionAnalysis.yearRange,
-          cast: actorIds,
-          actors: actorIds,
-          crew: crewIds,
-          runtimeRange: args.runtimeRange,
-          watchProviders: args.watchProviders,
-          excludeGenres: args.excludeGenres,
-          excludeCast: args.excludeCast,
-          excludeCrew: args.excludeCrew,
-          popularityRange: args.popularityRange,
-          popularityLevel: args.popularityLevel,
-          originCountries: args.originCountries,
-          keywords: args.keywordIds || collectionAnalysis.keywords,
-        });
-        
-        // Build options with popularity range if provided (from range or level)
-        const popularityRange = args.popularityRange || 
-          (args.popularityLevel ? getPopularityRange(args.popularityLevel) : undefined);
-        const options = convertGraphQLOptionsToTMDBOptions({
-          ...args.options,
-          popularityGte: popularityRange?.[0],
-          popularityLte: popularityRange?.[1],
-        });
-        
         let tmdbMovies = await context.tmdb.discoverMovies(
           discoverParams,
           options
@@ -543,6 +452,10 @@ export const movieResolvers = {
           );
         }
 
+        // Exclude movies the user has already watched
+        const watchedIds = await getExcludedWatchedIds(context, args.excludeWatched);
+        tmdbMovies = filterOutWatched(tmdbMovies as Array<{ id: number }>, watchedIds);
+
         return tmdbMovies.map((m) =>
           transformTMDBMovie(m as TMDBMovieResponse)
         );
@@ -557,424 +470,222 @@ export const movieResolvers = {
       context: Context
     ): Promise<Movie> => {
       try {
-        // Validate that movie IDs are provided
-        if (!args.selectedMovieIds || args.selectedMovieIds.length === 0) {
-          throw new Error("At least one movie ID must be provided");
-        }
-
-        // Get suggest history to exclude from results
-        const historyIds = context.user
-          ? await getSuggestHistory(context.prisma, context.user.id)
-          : [];
-        const historySet = new Set(historyIds);
-        
-        // Exclude selected movies from results
-        const selectedMovieIdsSet = new Set(args.selectedMovieIds);
-
-        // Extract categories from selected movies
-        const prefs = await extractCategoriesFromMovies(
+        const suggestion = await suggestMovieFromSelections(
           args.selectedMovieIds,
-          context
+          context,
+          args.excludeWatched,
+          await getMyServicesOptions(context, args.onlyMyServices)
         );
+        return suggestion.movie;
+      } catch (error) {
+        throw handleError(error, "Failed to suggest movie");
+      }
+    },
 
-        const options = convertGraphQLOptionsToTMDBOptions(prefs.options);
-
-        // Build a simpler, less restrictive query
-        // Strategy: Use fewer filters at once, prioritize genres and year range
-        // We don't use actors/crew filters to keep queries less restrictive
-        let tmdbMovies: unknown[] = [];
-        let attempts = 0;
-
-        // Try different combinations, starting with simpler queries
-        const queryStrategies: Array<() => Partial<{ genres?: number[]; keywords?: number[]; yearRange?: number[] }>> = [
-          // Strategy 1: Genres + Year Range (most common, least restrictive)
-          () => ({
-            genres: prefs.genres && prefs.genres.length > 0 ? prefs.genres.slice(0, 2) : undefined,
-            yearRange: prefs.yearRange,
-          }),
-          // Strategy 2: Genres + Keywords (thematic match)
-          () => ({
-            genres: prefs.genres && prefs.genres.length > 0 ? prefs.genres.slice(0, 2) : undefined,
-            keywords: prefs.keywordIds && prefs.keywordIds.length > 0 ? prefs.keywordIds.slice(0, 3) : undefined,
-          }),
-          // Strategy 3: Just top genre + year range
-          () => ({
-            genres: prefs.genres && prefs.genres.length > 0 ? [prefs.genres[0]] : undefined,
-            yearRange: prefs.yearRange,
-          }),
-          // Strategy 4: Genres only
-          () => ({
-            genres: prefs.genres && prefs.genres.length > 0 ? prefs.genres.slice(0, 2) : undefined,
-          }),
-          // Strategy 5: Keywords + Year Range
-          () => ({
-            keywords: prefs.keywordIds && prefs.keywordIds.length > 0 ? prefs.keywordIds.slice(0, 3) : undefined,
-            yearRange: prefs.yearRange,
-          }),
-          // Strategy 6: Just top genre
-          () => ({
-            genres: prefs.genres && prefs.genres.length > 0 ? [prefs.genres[0]] : undefined,
-          }),
-          // Strategy 7: Year range only
-          () => ({
-            yearRange: prefs.yearRange,
-          }),
-        ];
-
-        // Try each strategy until we get results
-        while (tmdbMovies.length === 0 && attempts < queryStrategies.length) {
-          const strategy = queryStrategies[attempts];
-          const filters = strategy();
-          
-          // Only include non-empty filters
-          const discoverFilters: DiscoverFilters = {};
-          if (filters.genres) discoverFilters.genres = filters.genres;
-          if (filters.keywords) discoverFilters.keywordIds = filters.keywords;
-          if (filters.yearRange) discoverFilters.yearRange = filters.yearRange;
-
-          // Skip if no filters to use
-          if (Object.keys(discoverFilters).length === 0) {
-            attempts++;
-            continue;
-          }
-
-          const discoverParams = buildDiscoverParams(discoverFilters, false);
-          const discoveredMovies = await context.tmdb.discoverMovies(discoverParams, options);
-          
-          // Filter out movies from suggest history and selected movies
-          tmdbMovies = (discoveredMovies as Array<{ id: number }>).filter(
-            (movie) => !historySet.has(movie.id) && !selectedMovieIdsSet.has(movie.id)
-          );
-          
-          attempts++;
-        }
-
-        // If still no results, try with just year range or random popular movies
-        if (tmdbMovies.length === 0) {
-          // Last resort: try with just year range if available
-          if (prefs.yearRange) {
-            const discoverParams = buildDiscoverParams({ yearRange: prefs.yearRange }, false);
-            const discoveredMovies = await context.tmdb.discoverMovies(discoverParams, options);
-            // Filter out movies from suggest history and selected movies
-            tmdbMovies = (discoveredMovies as Array<{ id: number }>).filter(
-              (movie) => !historySet.has(movie.id) && !selectedMovieIdsSet.has(movie.id)
-            );
-          }
-          
-          // If still no results, get a random popular movie (excluding history)
-          if (tmdbMovies.length === 0) {
-            let randomMovie: { id: number } | null = null;
-            let retries = 0;
-            const maxRetries = 20; // Try up to 20 times to find a movie not in history
-            
-            while (!randomMovie && retries < maxRetries) {
-              const candidate = await context.tmdb.getRandomMovieFromSource(
-                "popular",
-                undefined,
-                options
-              );
-              const movieId = (candidate as { id: number }).id;
-              
-              if (!historySet.has(movieId) && !selectedMovieIdsSet.has(movieId)) {
-                randomMovie = candidate as { id: number };
-              }
-              retries++;
-            }
-            
-            if (!randomMovie) {
-              // If we can't find a movie not in history/selected, try a few more times with any movie
-              // but still exclude selected movies
-              let fallbackRetries = 0;
-              const maxFallbackRetries = 10;
-              while (!randomMovie && fallbackRetries < maxFallbackRetries) {
-                const candidate = await context.tmdb.getRandomMovieFromSource(
-                  "popular",
-                  undefined,
-                  options
-                ) as { id: number };
-                
-                // Still exclude selected movies even in fallback
-                if (!selectedMovieIdsSet.has(candidate.id)) {
-                  randomMovie = candidate;
-                }
-                fallbackRetries++;
-              }
-              
-              // Last resort: if we still can't find one, return any movie (should be very rare)
-              if (!randomMovie) {
-                randomMovie = await context.tmdb.getRandomMovieFromSource(
-                  "popular",
-                  undefined,
-                  options
-                ) as { id: number };
-              }
-            }
-            
-            const movieId = randomMovie.id;
-            const fullMovie = await context.tmdb.getMovie(movieId, options);
-            const result = transformTMDBMovie(fullMovie as TMDBMovieResponse);
-            
-            // Save to history if user is authenticated
-            if (context.user) {
-              await addToSuggestHistory(context.prisma, context.user.id, result.id);
-            }
-            
-            return result;
-          }
-        }
-
-        // Randomize page selection for more variety
-        // If we have results, pick a random one
-        const selectedMovie = pickRandomItem(tmdbMovies) as { id: number };
-        
-        // Fetch full movie details including videos/trailer
-        const fullMovie = await context.tmdb.getMovie(selectedMovie.id, options);
-        const result = transformTMDBMovie(fullMovie as TMDBMovieResponse);
-        
-        // Save to suggest history if user is authenticated
-        if (context.user) {
-          await addToSuggestHistory(context.prisma, context.user.id, result.id);
-        }
-        
-        return result;
+    suggestMovieExplained: async (
+      _parent: unknown,
+      args: SuggestMovieArgs,
+      context: Context
+    ): Promise<SuggestionResultData> => {
+      try {
+        const suggestion = await suggestMovieFromSelections(
+          args.selectedMovieIds,
+          context,
+          args.excludeWatched,
+          await getMyServicesOptions(context, args.onlyMyServices)
+        );
+        return await explainSuggestion(suggestion, args.selectedMovieIds, context);
       } catch (error) {
         throw handleError(error, "Failed to suggest movie");
       }
     },
 
-    suggestMovieRound: async (
+    groupSuggestMovies: async (
       _parent: unknown,
-      args: SuggestMovieRoundArgs,
+      args: GroupSuggestMoviesArgs,
       context: Context
-    ): Promise<Movie[]> => {
+    ) => {
       try {
-        const { round } = args;
-        
-        // Validate round number
-        if (round < 1 || round > SUGGEST_MOVIE_ROUNDS) {
-          throw new Error(`Round must be between 1 and ${SUGGEST_MOVIE_ROUNDS}`);
+        if (!args.participants || args.participants.length < 2) {
+          throw new UserInputError(ERROR_MESSAGES.GROUP_SUGGEST_TOO_FEW_PARTICIPANTS);
+        }
+        if (args.participants.length > GROUP_SUGGEST_MAX_PARTICIPANTS) {
+          throw new UserInputError(ERROR_MESSAGES.GROUP_SUGGEST_TOO_MANY_PARTICIPANTS);
+        }
+        if (args.participants.some((p) => p.selectedMovieIds.length === 0)) {
+          throw new UserInputError(ERROR_MESSAGES.GROUP_SUGGEST_EMPTY_SELECTION);
+        }
+        if (
+          args.participants.some((p) => p.selectedMovieIds.length > SUGGEST_MAX_SELECTED_MOVIES)
+        ) {
+          throw new UserInputError(ERROR_MESSAGES.SUGGEST_TOO_MANY_SELECTED_MOVIES);
         }
 
-        // Get suggest history to exclude from results
-        const historyIds = context.user
-          ? await getSuggestHistory(context.prisma, context.user.id)
-          : [];
-        const historySet = new Set(historyIds);
-
-        // Get available genres
-        const allGenres = await context.tmdb.getGenres();
-        const genreIds = allGenres.map((g) => g.id);
-
-        // Generate 4 diverse category combinations for this round
-        // Each combination represents different genres, moods, eras, and popularity levels
-        const combinations = generateRoundCombinations(round, genreIds);
-
-        // Fetch movies for each combination in parallel
-        const moviePromises = combinations.map(async (combo) => {
-          try {
-            // Build discover params for this combination
-            const discoverFilters = {
-              genres: combo.genres,
-              yearRange: combo.yearRange,
-              keywords: combo.keywordIds,
-              popularityLevel: combo.popularityLevel,
-            };
+        const limit = Math.min(
+          Math.max(1, args.limit || GROUP_SUGGEST_DEFAULT_LIMIT),
+          GROUP_SUGGEST_MAX_LIMIT
+        );
+
+        // Build each participant's taste profile
+        const profiles = await Promise.all(
+          args.participants.map(async (participant) =>
+            buildParticipantProfile(
+              participant.name,
+              await collectCategoryCounts(participant.selectedMovieIds, context)
+            )
+          )
+        );
+        const prefs = mergeGroupPreferences(profiles, args.strategy || "FAIRNESS");
 
-            const discoverParams = buildDiscoverParams(discoverFilters, false);
-            const options = convertGraphQLOptionsToTMDBOptions({
-              voteAverageGte: 5.0, // Minimum quality threshold
-              voteCountGte: 50, // Minimum votes for reliability
-            });
-
-            // Discover movies with this combination
-            let discoveredMovies = await context.tmdb.discoverMovies(discoverParams, options);
-            // Filter out movies from suggest history
-            let tmdbMovies = (discoveredMovies as Array<{ id: number }>).filter(
-              (movie) => !historySet.has(movie.id)
+        // Exclude everyone's selections (and watched movies if requested)
+        const excludedIds = new Set(
+          args.participants.flatMap((p) => p.selectedMovieIds)
+        );
+        const watchedIds = await getExcludedWatchedIds(context, args.excludeWatched);
+        watchedIds?.forEach((movieId) => excludedIds.add(movieId));
+
+        // OVERLAP searches shared genres together; FAIRNESS searches each genre on its own
+        const genreQueries =
+          prefs.strategy === "OVERLAP" && prefs.genres.length > 1
+            ? [prefs.genres.slice(0, 2), [prefs.genres[0]]]
+            : prefs.genres.map((genreId) => [genreId]);
+        const results = await Promise.all(
+          genreQueries.map((genres) =>
+            context.tmdb
+              .discoverMovies(buildDiscoverParams({ genres, yearRange: prefs.yearRange }))
+              .catch(() => [])
+          )
+        );
+
+        const candidates = new Map<number, ScorableMovie>();
+        results.flat().forEach((movie) => {
+          const candidate = movie as ScorableMovie;
+          if (!excludedIds.has(candidate.id) && !candidates.has(candidate.id)) {
+            candidates.set(candidate.id, candidate);
+          }
+        });
+
+        // Rank by genre/era first, then fetch keywords only for the top of the list
+        const preliminary = Array.from(candidates.values())
+          .map((movie) => ({
+            movie,
+            groupScore: calculateGroupScore(
+              profiles.map((profile) => scoreMovieForProfile(movie, profile)),
+              prefs.strategy
+            ),
+          }))
+          .sort((a, b) => b.groupScore - a.groupScore)
+          .slice(0, limit * 2);
+
+        const suggestions = await Promise.all(
+          preliminary.map(async ({ movie }) => {
+            const keywordData = await context.tmdb
+              .getMovieKeywords(movie.id)
+              .catch(() => ({ keywords: [] }));
+            const keywordIds = (keywordData.keywords || []).map(
+              (keyword: { id: number }) => keyword.id
+            );
+            const scores = profiles.map((profile) =>
+              scoreMovieForProfile(movie, profile, keywordIds)
             );
 
-            // If no results, try with fewer constraints
-            if (tmdbMovies.length === 0 && combo.genres && combo.genres.length > 1) {
-              // Try with just the first genre
-              const fallbackParams = buildDiscoverParams(
-                { ...discoverFilters, genres: [combo.genres[0]] },
-                false
-              );
-              const fallbackDiscovered = await context.tmdb.discoverMovies(fallbackParams, options);
-              // Filter out movies from suggest history
-              tmdbMovies = (fallbackDiscovered as Array<{ id: number }>).filter(
-                (movie) => !historySet.has(movie.id)
-              );
-            }
+            return {
+              movie: transformTMDBMovie(movie as TMDBMovieResponse),
+              groupScore: calculateGroupScore(scores, prefs.strategy),
+              participantScores: profiles.map((profile, i) => ({
+                name: profile.name,
+                score: scores[i],
+              })),
+            };
+          })
+        );
 
-            // If still no results, try with just genres (no other filters)
-            if (tmdbMovies.length === 0 && combo.genres && combo.genres.length > 0) {
-              const genreOnlyParams = buildDiscoverParams({ genres: combo.genres }, false);
-              const genreDiscovered = await context.tmdb.discoverMovies(genreOnlyParams, options);
-              // Filter out movies from suggest history
-              tmdbMovies = (genreDiscovered as Array<{ id: number }>).filter(
-                (movie) => !historySet.has(movie.id)
-              );
-            }
+        const genreNames = new Map(
+          (await context.tmdb.getGenres().catch(() => [])).map((genre) => [
+            genre.id,
+            genre.name,
+          ])
+        );
 
-            // Pick a random movie from results
-            if (tmdbMovies.length > 0) {
-              const selectedMovie = pickRandomItem(tmdbMovies) as { id: number };
-              // Fetch full movie details
-              const fullMovie = await context.tmdb.getMovie(selectedMovie.id, options);
-              return transformTMDBMovie(fullMovie as TMDBMovieResponse);
-            }
+        return {
+          strategy: prefs.strategy,
+          genres: prefs.genres.map((id) => ({
+            id,
+            name: genreNames.get(id) || "",
+            icon: GENRE_ICONS[id] || null,
+          })),
+          yearRange: prefs.yearRange
+            ? { min: prefs.yearRange[0], max: prefs.yearRange[1] }
+            : null,
+          suggestions: suggestions
+            .sort((a, b) => b.groupScore - a.groupScore)
+            .slice(0, limit),
+        };
+      } catch (error) {
+        throw handleError(error, "Failed to suggest movies for group");
+      }
+    },
 
-            return null;
-          } catch (error) {
-            // If one combination fails, return null (will be filtered out)
-            return null;
-          }
-        });
+    recommendedForMe: async (
+      _parent: unknown,
+      args: RecommendedForMeArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
 
-        // Wait for all movies to be fetched
-        const movies = await Promise.all(moviePromises);
-        
-        // Filter out null results and ensure we have at least some movies
-        const validMovies = movies.filter((m): m is Movie => m !== null);
-
-        if (validMovies.length === 0) {
-          // Fallback: return 4 random movies from popular sources (excluding history)
-          const fallbackOptions = convertGraphQLOptionsToTMDBOptions({
-            voteAverageGte: 5.0,
-            voteCountGte: 50,
-          });
-          
-          const fallbackResults: Movie[] = [];
-          const sources = ["popular", "top_rated", "trending", "now_playing"] as const;
-          let retries = 0;
-          const maxRetries = 40; // Try up to 40 times to find 4 movies not in history
-          
-          while (fallbackResults.length < 4 && retries < maxRetries) {
-            const sourceIndex = retries % sources.length;
-            const source = sources[sourceIndex];
-            const timeWindow = source === "trending" ? "day" : undefined;
-            
-            try {
-              const randomMovie = await context.tmdb.getRandomMovieFromSource(
-                source,
-                timeWindow,
-                fallbackOptions
-              );
-              const movieId = (randomMovie as { id: number }).id;
-              
-              // Skip if in history
-              if (historySet.has(movieId)) {
-                retries++;
-                continue;
-              }
-              
-              // Check if already added
-              if (fallbackResults.some((m) => m.id === movieId)) {
-                retries++;
-                continue;
-              }
-              
-              const fullMovie = await context.tmdb.getMovie(movieId, fallbackOptions);
-              const transformed = transformTMDBMovie(fullMovie as TMDBMovieResponse);
-              fallbackResults.push(transformed);
-            } catch (error) {
-              // If one source fails, continue with others
-            }
-            
-            retries++;
-          }
-          
-          // If we still don't have 4 movies, fill with any movies (even if in history)
-          if (fallbackResults.length < 4) {
-            const remaining = 4 - fallbackResults.length;
-            for (let i = 0; i < remaining; i++) {
-              try {
-                const source = sources[i % sources.length];
-                const timeWindow = source === "trending" ? "day" : undefined;
-                const randomMovie = await context.tmdb.getRandomMovieFromSource(
-                  source,
-                  timeWindow,
-                  fallbackOptions
-                );
-                const movieId = (randomMovie as { id: number }).id;
-                
-                // Check if already added
-                if (fallbackResults.some((m) => m.id === movieId)) {
-                  continue;
-                }
-                
-                const fullMovie = await context.tmdb.getMovie(movieId, fallbackOptions);
-                const transformed = transformTMDBMovie(fullMovie as TMDBMovieResponse);
-                fallbackResults.push(transformed);
-              } catch (error) {
-                // Continue if one fails
-              }
-            }
-          }
+      const limit = Math.min(
+        Math.max(1, args.limit || RECOMMENDATION_DEFAULT_LIMIT),
+        RECOMMENDATION_MAX_LIMIT
+      );
 
-          return fallbackResults.slice(0, 4);
+      try {
+        const profile = await buildTasteProfile(context, user.id);
+        if (!hasPositiveTaste(profile)) {
+          throw new UserInputError(ERROR_MESSAGES.RECOMMENDATION_NO_TASTE);
         }
 
-        // If we have fewer than 4 movies, fill with random popular movies (excluding history)
-        const fillOptions = convertGraphQLOptionsToTMDBOptions({
-          voteAverageGte: 5.0,
-          voteCountGte: 50,
-        });
-        
-        let fillRetries = 0;
-        const maxFillRetries = 20; // Try up to 20 times to find movies not in history
-        
-        while (validMovies.length < 4 && fillRetries < maxFillRetries) {
-          try {
-            const randomMovie = await context.tmdb.getRandomMovieFromSource(
-              "popular",
-              undefined,
-              fillOptions
-            );
-            const movieId = (randomMovie as { id: number }).id;
-            
-            // Skip if in history or already added
-            if (historySet.has(movieId) || validMovies.some((m) => m.id === movieId)) {
-              fillRetries++;
-              continue;
-            }
-            
-            const fullMovie = await context.tmdb.getMovie(movieId, fillOptions);
-            const transformed = transformTMDBMovie(fullMovie as TMDBMovieResponse);
-            validMovies.push(transformed);
-          } catch (error) {
-            // If we can't get more movies, break
-            break;
-          }
-          fillRetries++;
-        }
-        
-        // If we still need more movies, allow history movies (but avoid duplicates)
-        while (validMovies.length < 4) {
-          try {
-            const randomMovie = await context.tmdb.getRandomMovieFromSource(
-              "popular",
-              undefined,
-              fillOptions
-            );
-            const movieId = (randomMovie as { id: number }).id;
-            
-            // Only check for duplicates now
-            if (validMovies.some((m) => m.id === movieId)) {
-              continue;
-            }
-            
-            const fullMovie = await context.tmdb.getMovie(movieId, fillOptions);
-            const transformed = transformTMDBMovie(fullMovie as TMDBMovieResponse);
-            validMovies.push(transformed);
-          } catch (error) {
-            // If we can't get more movies, break
-            break;
-          }
-        }
+        const candidates = await discoverRecommendationCandidates(
+          profile,
+          context,
+          convertGraphQLOptionsToTMDBOptions(args.options, context.preferences)
+        );
+        const recommendations = await rankRecommendations(
+          candidates,
+          profile,
+          context,
+          limit
+        );
+
+        return recommendations.map((recommendation) => ({
+          ...recommendation,
+          movie: transformTMDBMovie(recommendation.movie as unknown as TMDBMovieResponse),
+        }));
+      } catch (error) {
+        throw handleError(error, "Failed to get recommendations");
+      }
+    },
 
-        return validMovies.slice(0, 4);
+    suggestMovieRound: async (
+      _parent: unknown,
+      args: SuggestMovieRoundArgs,
+      context: Context
+    ): Promise<Movie[]> => {
+      try {
+        const explorationWeight = validateExplorationWeight(args.explorationWeight);
+        const selectedMovieIds = args.selectedMovieIds || [];
+        if (selectedMovieIds.length > SUGGEST_MAX_SELECTED_MOVIES) {
+          throw new UserInputError(ERROR_MESSAGES.SUGGEST_TOO_MANY_SELECTED_MOVIES);
+        }
+        const profile = await buildRoundPickProfile(selectedMovieIds, context);
+
+        return await generateSuggestRound(
+          args.round,
+          context,
+          profile,
+          selectedMovieIds,
+          explorationWeight,
+          await getMyServicesOptions(context, args.onlyMyServices)
+        );
       } catch (error) {
         throw handleError(error, "Failed to get suggest movie round");
       }
@@ -995,7 +706,7 @@ export const movieResolvers = {
     ): Promise<Movie[]> => {
       try {
         if (!context.user) {
-          throw new Error("Authentication required");
+          throw new AuthenticationError(ERROR_MESSAGES.AUTH_REQUIRED);
         }
 
         // Get suggest history movie IDs
@@ -1006,7 +717,7 @@ export const movieResolvers = {
         }
 
         // Fetch full movie details for each history entry
-        const options = convertGraphQLOptionsToTMDBOptions({});
+        const options = convertGraphQLOptionsToTMDBOptions({}, context.preferences);
         const moviePromises = historyIds.map((tmdbId) =>
           context.tmdb.getMovie(tmdbId, options).catch(() => null)
         );
@@ -1047,6 +758,16 @@ export const movieResolvers = {
           );
         }
 
+        // Movies to exclude from results if excludeWatched is requested
+        const watchedIds = await getExcludedWatchedIds(context, args.excludeWatched);
+
+        // Streaming filter applies to every attempt, including randomly generated ones
+        const myServicesOptions = await getMyServicesOptions(
+          context,
+          args.onlyMyServices,
+          args.watchProviders
+        );
+
         // Check if any parameters are provided
         const hasAnyParams = !!(
           args.genres ||
@@ -1136,13 +857,16 @@ export const movieResolvers = {
           // Build TMDB options with new parameters
           const popularityRange = randomArgs.popularityRange || 
             (randomArgs.popularityLevel ? getPopularityRange(randomArgs.popularityLevel) : undefined);
-          options = convertGraphQLOptionsToTMDBOptions({
-            voteAverageGte: randomArgs.minVoteAverage,
-            voteCountGte: randomArgs.minVoteCount,
-            withOriginalLanguage: randomArgs.originalLanguage,
-            popularityGte: popularityRange?.[0],
-            popularityLte: popularityRange?.[1],
-          });
+          options = mergeTMDBOptions(
+            convertGraphQLOptionsToTMDBOptions({
+              voteAverageGte: randomArgs.minVoteAverage,
+              voteCountGte: randomArgs.minVoteCount,
+              withOriginalLanguage: randomArgs.originalLanguage,
+              popularityGte: popularityRange?.[0],
+              popularityLte: popularityRange?.[1],
+            }, context.preferences),
+            myServicesOptions
+          );
 
           // Get user for collection filtering (if needed)
           const user = context.user;
@@ -1234,6 +958,7 @@ export const movieResolvers = {
               allCollectionMovieIds
             );
           }
+          tmdbMovies = filterOutWatched(tmdbMovies as Array<{ id: number }>, watchedIds);
 
           // Only try fallback if:
           // 1. No results found
@@ -1279,6 +1004,7 @@ export const movieResolvers = {
                 allCollectionMovieIds
               );
             }
+            tmdbMovies = filterOutWatched(tmdbMovies as Array<{ id: number }>, watchedIds);
           }
 
           // If we found results, break out of retry loop
@@ -1322,7 +1048,7 @@ export const movieResolvers = {
       context: Context
     ): Promise<Movie> => {
       try {
-        const options = convertGraphQLOptionsToTMDBOptions(args.options);
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
         const tmdbMovie = await context.tmdb.getRandomMovie(options);
         
         // Get the selected movie ID
@@ -1346,7 +1072,7 @@ export const movieResolvers = {
         const timeWindow = args.timeWindow
           ? args.timeWindow.toLowerCase()
           : "day";
-        const options = convertGraphQLOptionsToTMDBOptions(args.options);
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
         const tmdbMovies = await context.tmdb.getTrendingMovies(
           timeWindow as "day" | "week",
           options
@@ -1365,7 +1091,7 @@ export const movieResolvers = {
       context: Context
     ): Promise<Movie[]> => {
       try {
-        const options = convertGraphQLOptionsToTMDBOptions(args.options);
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
         const tmdbMovies = await context.tmdb.getNowPlayingMovies(options);
         return tmdbMovies.map((m) =>
           transformTMDBMovie(m as TMDBMovieResponse)
@@ -1381,7 +1107,7 @@ export const movieResolvers = {
       context: Context
     ): Promise<Movie[]> => {
       try {
-        const options = convertGraphQLOptionsToTMDBOptions(args.options);
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
         const tmdbMovies = await context.tmdb.getPopularMovies(options);
         return tmdbMovies.map((m) =>
           transformTMDBMovie(m as TMDBMovieResponse)
@@ -1397,7 +1123,7 @@ export const movieResolvers = {
       context: Context
     ): Promise<Movie[]> => {
       try {
-        const options = convertGraphQLOptionsToTMDBOptions(args.options);
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
         const tmdbMovies = await context.tmdb.getTopRatedMovies(options);
         return tmdbMovies.map((m) =>
           transformTMDBMovie(m as TMDBMovieResponse)
@@ -1413,7 +1139,7 @@ export const movieResolvers = {
       context: Context
     ): Promise<Movie[]> => {
       try {
-        const options = convertGraphQLOptionsToTMDBOptions(args.options);
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
         const tmdbMovies = await context.tmdb.getUpcomingMovies(options);
         return tmdbMovies.map((m) =>
           transformTMDBMovie(m as TMDBMovieResponse)
@@ -1423,6 +1149,127 @@ export const movieResolvers = {
       }
     },
 
+    searchMoviesConnection: async (
+      _parent: unknown,
+      args: SearchMoviesConnectionArgs,
+      context: Context
+    ): Promise<Connection<Movie>> => {
+      const window = getConnectionWindow(args);
+
+      try {
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
+        return await getMovieConnection(
+          window,
+          { list: "search", query: args.query },
+          options,
+          context
+        );
+      } catch (error) {
+        throw handleError(error, "Failed to search movies");
+      }
+    },
+
+    discoverMoviesConnection: async (
+      _parent: unknown,
+      args: DiscoverMoviesConnectionArgs,
+      context: Context
+    ): Promise<Connection<Movie>> => {
+      const window = getConnectionWindow(args);
+
+      try {
+        const { discoverParams, options } = await buildDiscoverRequest(args, context);
+        return await getMovieConnection(
+          window,
+          { list: "discover", params: discoverParams },
+          options,
+          context
+        );
+      } catch (error) {
+        throw handleError(error, "Failed to discover movies");
+      }
+    },
+
+    trendingMoviesConnection: async (
+      _parent: unknown,
+      args: TrendingMoviesConnectionArgs,
+      context: Context
+    ): Promise<Connection<Movie>> => {
+      const window = getConnectionWindow(args);
+
+      try {
+        const timeWindow = args.timeWindow === "WEEK" ? "week" : "day";
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
+        return await getMovieConnection(
+          window,
+          { list: "trending", timeWindow },
+          options,
+          context
+        );
+      } catch (error) {
+        throw handleError(error, "Failed to get trending movies");
+      }
+    },
+
+    nowPlayingMoviesConnection: async (
+      _parent: unknown,
+      args: MovieListConnectionArgs,
+      context: Context
+    ): Promise<Connection<Movie>> => {
+      const window = getConnectionWindow(args);
+
+      try {
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
+        return await getMovieConnection(window, { list: "now_playing" }, options, context);
+      } catch (error) {
+        throw handleError(error, "Failed to get now playing movies");
+      }
+    },
+
+    popularMoviesConnection: async (
+      _parent: unknown,
+      args: MovieListConnectionArgs,
+      context: Context
+    ): Promise<Connection<Movie>> => {
+      const window = getConnectionWindow(args);
+
+      try {
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
+        return await getMovieConnection(window, { list: "popular" }, options, context);
+      } catch (error) {
+        throw handleError(error, "Failed to get popular movies");
+      }
+    },
+
+    topRatedMoviesConnection: async (
+      _parent: unknown,
+      args: MovieListConnectionArgs,
+      context: Context
+    ): Promise<Connection<Movie>> => {
+      const window = getConnectionWindow(args);
+
+      try {
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
+        return await getMovieConnection(window, { list: "top_rated" }, options, context);
+      } catch (error) {
+        throw handleError(error, "Failed to get top rated movies");
+      }
+    },
+
+    upcomingMoviesConnection: async (
+      _parent: unknown,
+      args: MovieListConnectionArgs,
+      context: Context
+    ): Promise<Connection<Movie>> => {
+      const window = getConnectionWindow(args);
+
+      try {
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
+        return await getMovieConnection(window, { list: "upcoming" }, options, context);
+      } catch (error) {
+        throw handleError(error, "Failed to get upcoming movies");
+      }
+    },
+
     randomMovieFromSource: async (
       _parent: unknown,
       args: RandomMovieFromSourceArgs,
@@ -1453,7 +1300,7 @@ export const movieResolvers = {
 
         const tmdbSource = sourceMap[selectedSource];
         if (!tmdbSource) {
-          throw new Error(`Invalid source: ${selectedSource}`);
+          throw new UserInputError(`Invalid source: ${selectedSource}`);
         }
 
         // For trending, randomly select timeWindow if not provided
@@ -1470,7 +1317,7 @@ export const movieResolvers = {
           timeWindow = args.timeWindow.toLowerCase() as "day" | "week";
         }
 
-        const options = convertGraphQLOptionsToTMDBOptions(args.options);
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
 
         const tmdbMovie = await context.tmdb.getRandomMovieFromSource(
           tmdbSource,
@@ -1513,7 +1360,7 @@ export const movieResolvers = {
       context: Context
     ) => {
       try {
-        const options = convertGraphQLOptionsToTMDBOptions(args.options);
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
 
         // Get movies from all three lists
         const [nowPlaying, popular, topRated] = await Promise.all([
@@ -1556,7 +1403,7 @@ export const movieResolvers = {
       context: Context
     ) => {
       try {
-        const options = convertGraphQLOptionsToTMDBOptions(args.options);
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
 
         // Get movies from all three lists
         const [nowPlaying, popular, topRated] = await Promise.all([
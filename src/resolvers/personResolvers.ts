@@ -12,6 +12,7 @@ import {
   TMDBPersonResponse,
 } from "../utils/transformers";
 import { handleError } from "../utils/errorHandler";
+import { UserInputError } from "../utils/errors";
 import { convertGraphQLOptionsToTMDBOptions } from "../utils/tmdbOptionsConverter";
 import { pickRandomItem } from "../utils/discoverHelpers";
 
@@ -42,7 +43,7 @@ export const personResolvers = {
           ? Math.min(Math.max(1, args.limit), 100)
           : 20;
 
-        const options = convertGraphQLOptionsToTMDBOptions(args.options);
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
         const tmdbPeople = await context.tmdb.searchPeople(
           args.query,
           limit,
@@ -96,7 +97,7 @@ export const personResolvers = {
         const timeWindow = args.timeWindow
           ? args.timeWindow.toLowerCase()
           : "day";
-        const options = convertGraphQLOptionsToTMDBOptions(args.options);
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
         const tmdbPeople = await context.tmdb.getTrendingPeople(
           timeWindow as "day" | "week",
           options
@@ -150,7 +151,7 @@ export const personResolvers = {
 
         const tmdbSource = sourceMap[selectedSource];
         if (!tmdbSource) {
-          throw new Error(`Invalid source: ${selectedSource}`);
+          throw new UserInputError(`Invalid source: ${selectedSource}`);
         }
 
         // For trending, randomly select timeWindow if not provided
@@ -167,7 +168,7 @@ export const personResolvers = {
           timeWindow = args.timeWindow.toLowerCase() as "day" | "week";
         }
 
-        const options = convertGraphQLOptionsToTMDBOptions(args.options);
+        const options = convertGraphQLOptionsToTMDBOptions(args.options, context.preferences);
 
         const actor = await context.tmdb.getRandomActorFromSource(
           tmdbSource,
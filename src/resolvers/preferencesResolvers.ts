@@ -0,0 +1,121 @@
+import { UserPreferences } from "@prisma/client";
+import { Context } from "../context";
+import { requireAuth } from "../utils/authHelpers";
+import { handleError } from "../utils/errorHandler";
+import { validateRegion, validateLanguage } from "../utils/validationHelpers";
+import { getUserPreferences } from "../utils/preferencesHelpers";
+import {
+  UpdatePreferencesArgs,
+  UpdateStreamingServicesArgs,
+} from "../types/resolvers";
+import { ERROR_MESSAGES } from "../constants";
+import { UserInputError } from "../utils/errors";
+
+type PreferencesData = Partial<
+  Omit<UserPreferences, "id" | "userId" | "createdAt" | "updatedAt">
+>;
+
+export const preferencesResolvers = {
+  Query: {
+    myPreferences: async (
+      _parent: unknown,
+      _args: unknown,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      try {
+        return await getUserPreferences(context.prisma, user.id);
+      } catch (error) {
+        throw handleError(error, "Failed to fetch preferences");
+      }
+    },
+  },
+
+  Mutation: {
+    updatePreferences: async (
+      _parent: unknown,
+      args: UpdatePreferencesArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+      const { input } = args;
+
+      // Only fields present in the input are changed; null clears them
+      const data: PreferencesData = {};
+      if (input.region !== undefined) {
+        data.region = input.region ? validateRegion(input.region) : null;
+      }
+      if (input.language !== undefined) {
+        data.language = input.language ? validateLanguage(input.language) : null;
+      }
+      if (input.withOriginalLanguage !== undefined) {
+        data.withOriginalLanguage = input.withOriginalLanguage
+          ? validateLanguage(input.withOriginalLanguage, false)
+          : null;
+      }
+      if (input.includeAdult !== undefined) {
+        data.includeAdult = input.includeAdult;
+      }
+      if (input.voteAverageGte !== undefined) {
+        if (
+          input.voteAverageGte !== null &&
+          (input.voteAverageGte < 0 || input.voteAverageGte > 10)
+        ) {
+          throw new UserInputError(ERROR_MESSAGES.INVALID_VOTE_AVERAGE);
+        }
+        data.voteAverageGte = input.voteAverageGte;
+      }
+      if (input.voteCountGte !== undefined) {
+        if (input.voteCountGte !== null && input.voteCountGte < 0) {
+          throw new UserInputError(ERROR_MESSAGES.INVALID_VOTE_COUNT);
+        }
+        data.voteCountGte = input.voteCountGte;
+      }
+      if (input.watchProviderIds !== undefined) {
+        data.watchProviderIds = Array.from(new Set(input.watchProviderIds || []));
+      }
+
+      try {
+        return await context.prisma.userPreferences.upsert({
+          where: { userId: user.id },
+          update: data,
+          create: { userId: user.id, ...data },
+        });
+      } catch (error) {
+        throw handleError(error, "Failed to update preferences");
+      }
+    },
+
+    updateStreamingServices: async (
+      _parent: unknown,
+      args: UpdateStreamingServicesArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      const watchProviderIds = Array.from(new Set(args.watchProviderIds));
+      const region =
+        args.region !== undefined && args.region !== null
+          ? validateRegion(args.region)
+          : undefined;
+
+      try {
+        return await context.prisma.userPreferences.upsert({
+          where: { userId: user.id },
+          update: {
+            watchProviderIds,
+            ...(region && { region }),
+          },
+          create: {
+            userId: user.id,
+            watchProviderIds,
+            region: region ?? null,
+          },
+        });
+      } catch (error) {
+        throw handleError(error, "Failed to update streaming services");
+      }
+    },
+  },
+};
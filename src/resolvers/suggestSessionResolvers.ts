@@ -0,0 +1,204 @@
+import { Context } from "../context";
+import { requireAuth } from "../utils/authHelpers";
+import { handleError } from "../utils/errorHandler";
+import { suggestMovieFromSelections } from "../utils/suggestHelpers";
+import { validateExplorationWeight } from "../utils/validationHelpers";
+import {
+  verifySuggestSessionOwnership,
+  assertSuggestSessionActive,
+  generateSessionRoundMovieIds,
+} from "../utils/suggestSessionHelpers";
+import {
+  SuggestSessionArgs,
+  SuggestSessionsArgs,
+  StartSuggestSessionArgs,
+  SubmitRoundChoiceArgs,
+  FinishSuggestSessionArgs,
+} from "../types/resolvers";
+import { ERROR_MESSAGES, SUGGEST_MOVIE_ROUNDS } from "../constants";
+import { UserInputError } from "../utils/errors";
+
+export const suggestSessionResolvers = {
+  Query: {
+    suggestSession: async (
+      _parent: unknown,
+      args: SuggestSessionArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      try {
+        return await verifySuggestSessionOwnership(context.prisma, args.id, user.id);
+      } catch (error) {
+        throw handleError(error, "Failed to fetch suggest session");
+      }
+    },
+
+    suggestSessions: async (
+      _parent: unknown,
+      args: SuggestSessionsArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      // Validate and set limit (default: 20, max: 100)
+      const limit = args.limit ? Math.min(Math.max(1, args.limit), 100) : 20;
+
+      try {
+        return await context.prisma.suggestSession.findMany({
+          where: {
+            userId: user.id,
+            ...(args.status && { status: args.status }),
+          },
+          orderBy: { updatedAt: "desc" },
+          take: limit,
+        });
+      } catch (error) {
+        throw handleError(error, "Failed to fetch suggest sessions");
+      }
+    },
+  },
+
+  Mutation: {
+    startSuggestSession: async (
+      _parent: unknown,
+      args: StartSuggestSessionArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      const explorationWeight = validateExplorationWeight(args.explorationWeight);
+
+      try {
+        const roundMovieIds = await generateSessionRoundMovieIds(
+          1,
+          [],
+          context,
+          explorationWeight
+        );
+
+        return await context.prisma.suggestSession.create({
+          data: {
+            userId: user.id,
+            explorationWeight,
+            roundMovieIds,
+          },
+        });
+      } catch (error) {
+        throw handleError(error, "Failed to start suggest session");
+      }
+    },
+
+    submitRoundChoice: async (
+      _parent: unknown,
+      args: SubmitRoundChoiceArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      try {
+        const session = await verifySuggestSessionOwnership(
+          context.prisma,
+          args.sessionId,
+          user.id
+        );
+        assertSuggestSessionActive(session);
+
+        if (session.currentRound > SUGGEST_MOVIE_ROUNDS) {
+          throw new UserInputError(ERROR_MESSAGES.SUGGEST_SESSION_ROUNDS_COMPLETE);
+        }
+        if (!session.roundMovieIds.includes(args.movieId)) {
+          throw new UserInputError(ERROR_MESSAGES.SUGGEST_SESSION_INVALID_CHOICE);
+        }
+
+        const previousChoices = await context.prisma.suggestSessionChoice.findMany({
+          where: { sessionId: session.id },
+          select: { tmdbId: true },
+        });
+        const chosenMovieIds = [
+          ...previousChoices.map((choice) => choice.tmdbId),
+          args.movieId,
+        ];
+
+        // Generate the next round from all choices including this one
+        const nextRound = session.currentRound + 1;
+        const roundMovieIds =
+          nextRound <= SUGGEST_MOVIE_ROUNDS
+            ? await generateSessionRoundMovieIds(
+                nextRound,
+                chosenMovieIds,
+                context,
+                session.explorationWeight,
+                session.roundMovieIds
+              )
+            : [];
+
+        const [, updatedSession] = await context.prisma.$transaction([
+          context.prisma.suggestSessionChoice.create({
+            data: {
+              sessionId: session.id,
+              round: session.currentRound,
+              tmdbId: args.movieId,
+            },
+          }),
+          context.prisma.suggestSession.update({
+            where: { id: session.id },
+            data: {
+              currentRound: nextRound,
+              roundMovieIds,
+            },
+          }),
+        ]);
+
+        return updatedSession;
+      } catch (error) {
+        throw handleError(error, "Failed to submit round choice");
+      }
+    },
+
+    finishSuggestSession: async (
+      _parent: unknown,
+      args: FinishSuggestSessionArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      try {
+        const session = await verifySuggestSessionOwnership(
+          context.prisma,
+          args.sessionId,
+          user.id
+        );
+        assertSuggestSessionActive(session);
+
+        const choices = await context.prisma.suggestSessionChoice.findMany({
+          where: { sessionId: session.id },
+          orderBy: { round: "asc" },
+          select: { tmdbId: true },
+        });
+
+        if (choices.length === 0) {
+          throw new UserInputError(ERROR_MESSAGES.SUGGEST_SESSION_NO_CHOICES);
+        }
+
+        const suggestion = await suggestMovieFromSelections(
+          choices.map((choice) => choice.tmdbId),
+          context,
+          args.excludeWatched
+        );
+
+        return await context.prisma.suggestSession.update({
+          where: { id: session.id },
+          data: {
+            status: "FINISHED",
+            resultTmdbId: suggestion.movie.id,
+            roundMovieIds: [],
+            finishedAt: new Date(),
+          },
+        });
+      } catch (error) {
+        throw handleError(error, "Failed to finish suggest session");
+      }
+    },
+  },
+};
@@ -2,14 +2,21 @@ import { Context } from "../context";
 import { requireAuth } from "../utils/authHelpers";
 import { handleError } from "../utils/errorHandler";
 import { excludePassword } from "../utils/userHelpers";
+import { verifyPassword } from "../utils/auth";
+import { buildPersonalDataExport, deleteUserAccount } from "../utils/accountHelpers";
+import { getCollectionMovieGenres } from "../utils/publicCollectionHelpers";
+import { getConnectionWindow, paginateQuery } from "../utils/connectionHelpers";
 import { validateUserName } from "../utils/validationHelpers";
 import {
   SaveMovieArgs,
   RateMovieArgs,
   ReviewMovieArgs,
   UpdateNameArgs,
+  DeleteAccountArgs,
+  ConnectionArgs,
 } from "../types/resolvers";
 import { ERROR_MESSAGES, MIN_RATING, MAX_RATING } from "../constants";
+import { UserInputError } from "../utils/errors";
 import { getOrCreateSavedMoviesCollection } from "../utils/dbHelpers";
 
 /**
@@ -77,6 +84,70 @@ export const userResolvers = {
       const user = requireAuth(context);
       return getUserReviews(user.id, context.prisma);
     },
+
+    ratingsConnection: async (
+      _parent: unknown,
+      args: ConnectionArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+      const window = getConnectionWindow(args);
+
+      try {
+        return await paginateQuery(
+          window,
+          () => context.prisma.rating.count({ where: { userId: user.id } }),
+          (skip, take) =>
+            context.prisma.rating.findMany({
+              where: { userId: user.id },
+              orderBy: [{ updatedAt: "desc" }, { id: "desc" }],
+              skip,
+              take,
+            })
+        );
+      } catch (error) {
+        throw handleError(error, "Failed to fetch ratings");
+      }
+    },
+
+    reviewsConnection: async (
+      _parent: unknown,
+      args: ConnectionArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+      const window = getConnectionWindow(args);
+
+      try {
+        return await paginateQuery(
+          window,
+          () => context.prisma.review.count({ where: { userId: user.id } }),
+          (skip, take) =>
+            context.prisma.review.findMany({
+              where: { userId: user.id },
+              orderBy: [{ updatedAt: "desc" }, { id: "desc" }],
+              skip,
+              take,
+            })
+        );
+      } catch (error) {
+        throw handleError(error, "Failed to fetch reviews");
+      }
+    },
+
+    exportMyData: async (
+      _parent: unknown,
+      _args: unknown,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      try {
+        return await buildPersonalDataExport(context.prisma, user.id);
+      } catch (error) {
+        throw handleError(error, "Failed to export data");
+      }
+    },
   },
 
   Mutation: {
@@ -113,6 +184,7 @@ export const userResolvers = {
           data: {
             collectionId: collection.id,
             tmdbId: args.tmdbId,
+            ...(await getCollectionMovieGenres(context.tmdb, args.tmdbId)),
           },
         });
       } catch (error) {
@@ -157,7 +229,7 @@ export const userResolvers = {
 
       // Validate rating
       if (args.rating < MIN_RATING || args.rating > MAX_RATING) {
-        throw new Error(ERROR_MESSAGES.RATING_INVALID);
+        throw new UserInputError(ERROR_MESSAGES.RATING_INVALID);
       }
 
       try {
@@ -191,7 +263,7 @@ export const userResolvers = {
       const user = requireAuth(context);
 
       if (!args.content.trim()) {
-        throw new Error(ERROR_MESSAGES.REVIEW_EMPTY);
+        throw new UserInputError(ERROR_MESSAGES.REVIEW_EMPTY);
       }
 
       try {
@@ -259,6 +331,27 @@ export const userResolvers = {
         throw handleError(error, "Failed to update name");
       }
     },
+
+    deleteAccount: async (
+      _parent: unknown,
+      args: DeleteAccountArgs,
+      context: Context
+    ) => {
+      const user = requireAuth(context);
+
+      try {
+        // Ask for the password again so a stolen access token can't delete the account
+        const isValid = await verifyPassword(args.password, user.password);
+        if (!isValid) {
+          throw new UserInputError(ERROR_MESSAGES.PASSWORD_INCORRECT);
+        }
+
+        await deleteUserAccount(context.prisma, user.id);
+        return true;
+      } catch (error) {
+        throw handleError(error, "Failed to delete account");
+      }
+    },
   },
 };
 
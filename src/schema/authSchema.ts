@@ -2,14 +2,55 @@ import { gql } from "graphql-tag";
 
 export const authSchema = gql`
   type AuthPayload {
+    # Short-lived access token for the Authorization header
     token: String!
+    # Exchange for a new token pair with refreshToken before the access token expires
+    refreshToken: String!
+    accessTokenExpiresAt: String!
     user: User!
   }
 
+  # A signed-in device
+  type Session {
+    id: Int!
+    userAgent: String
+    ipAddress: String
+    createdAt: String!
+    lastUsedAt: String!
+    expiresAt: String!
+    # Whether this is the session making the request
+    isCurrent: Boolean!
+  }
+
+  extend type Query {
+    # Active sessions, most recently refreshed first (requires authentication)
+    mySessions: [Session!]!
+  }
+
   extend type Mutation {
     # Authentication
     register(email: String!, password: String!): AuthPayload!
     login(email: String!, password: String!): AuthPayload!
+
+    # Rotate a refresh token; the old one stops working
+    refreshToken(refreshToken: String!): AuthPayload!
+
+    # Password reset: emails a single-use token (always returns true, even for unknown emails)
+    requestPasswordReset(email: String!): Boolean!
+    # Set a new password with an emailed token; signs out every session
+    resetPassword(token: String!, newPassword: String!): Boolean!
+
+    # Email verification: sendVerificationEmail requires authentication, verifyEmail takes the emailed token
+    sendVerificationEmail: Boolean!
+    verifyEmail(token: String!): Boolean!
+
+    # Change password (requires authentication); signs out every other session
+    changePassword(currentPassword: String!, newPassword: String!): Boolean!
+
+    # Session revocation (requires authentication)
+    # logoutAllDevices returns the number of sessions revoked
+    logout: Boolean!
+    logoutAllDevices: Int!
+    revokeSession(id: Int!): Boolean!
   }
 `;
-
@@ -6,13 +6,22 @@ export const collectionSchema = gql`
     name: String!
     description: String
     isPublic: Boolean!
+    # Stable slug for the collection's share link (publicCollection); kept when the collection is renamed
+    shareSlug: String!
     createdAt: String!
     updatedAt: String!
     user: User!
     movies: [CollectionMovie!]!
+    # Cursor-paginated movies, most recently added first
+    # first: Number of movies to return (default: 20, max: 100)
+    # after: Cursor of the last movie already fetched (pageInfo.endCursor)
+    moviesConnection(first: Int, after: String): CollectionMovieConnection!
     movieCount: Int!
     # Analytics and insights about the collection
     insights: CollectionInsights!
+    followerCount: Int!
+    # Whether the authenticated user follows the collection (false when not authenticated)
+    isFollowing: Boolean!
   }
 
   type CollectionInsights {
@@ -69,10 +78,37 @@ export const collectionSchema = gql`
     movie: Movie # Fetched from TMDB
   }
 
+  type CollectionMovieEdge {
+    cursor: String!
+    node: CollectionMovie!
+  }
+
+  type CollectionMovieConnection {
+    edges: [CollectionMovieEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type CollectionEdge {
+    cursor: String!
+    node: Collection!
+  }
+
+  type CollectionConnection {
+    edges: [CollectionEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
   extend type Query {
     # Get all collections for the authenticated user
     collections: [Collection!]!
 
+    # Cursor-paginated collections for the authenticated user, most recently updated first
+    # first: Number of collections to return (default: 20, max: 100)
+    # after: Cursor of the last collection already fetched (pageInfo.endCursor)
+    collectionsConnection(first: Int, after: String): CollectionConnection!
+
     # Get a single collection by ID (must be owner or public)
     getCollection(id: Int!): Collection
 
@@ -82,6 +118,41 @@ export const collectionSchema = gql`
     # Get collection analysis (top genres, keywords, actors) for filtering
     # Returns top items that can be used to filter search/shuffle/suggest/discover
     collectionAnalysis(collectionId: Int!, limit: Int): CollectionAnalysis!
+
+    # Export a collection's movies with the owner's ratings and reviews
+    # Owners can export any of their collections; public collections can be exported without authentication
+    exportCollection(id: Int!, format: CollectionExportFormat!): ExportFile!
+
+    # Get a public collection by its share slug (no authentication required)
+    publicCollection(slug: String!): Collection
+
+    # Cursor-paginated feed of public collections (no authentication required)
+    # sort: RECENT (most recently updated first, default) or MOST_FOLLOWED
+    # search: Case-insensitive match on name or description
+    # genre: Only collections with at least one movie in this TMDB genre ID
+    browsePublicCollections(
+      sort: PublicCollectionSort
+      search: String
+      genre: Int
+      first: Int
+      after: String
+    ): CollectionConnection!
+
+    # Public collections the authenticated user follows, most recently updated first
+    followedCollections: [Collection!]!
+  }
+
+  enum PublicCollectionSort {
+    RECENT
+    MOST_FOLLOWED
+  }
+
+  enum CollectionExportFormat {
+    # tmdbId, title, year, imdbId, addedAt, rating, review
+    CSV
+    JSON
+    # CSV for Letterboxd's list importer (tmdbID, imdbID, Title, Year, Rating10, Review)
+    LETTERBOXD
   }
 
   type CollectionAnalysis {
@@ -117,6 +188,16 @@ export const collectionSchema = gql`
 
     # Remove a movie from a collection (requires authentication, must be owner)
     removeMovieFromCollection(collectionId: Int!, tmdbId: Int!): Boolean!
+
+    # Copy a collection into your account as a new private collection (requires authentication)
+    # The collection must be public or your own
+    copyCollection(id: Int!): Collection!
+
+    # Follow a public collection (requires authentication, can't be your own)
+    followCollection(id: Int!): Collection!
+
+    # Unfollow a collection (requires authentication)
+    unfollowCollection(id: Int!): Boolean!
   }
 `;
 
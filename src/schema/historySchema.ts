@@ -0,0 +1,36 @@
+import { gql } from "graphql-tag";
+
+export const historySchema = gql`
+  type WatchHistoryEntry {
+    id: Int!
+    tmdbId: Int!
+    title: String!
+    posterUrl: String
+    watchedAt: String!
+    movie: Movie # Fetched from TMDB
+  }
+
+  type WatchHistoryPage {
+    entries: [WatchHistoryEntry!]!
+    # Total number of entries matching the date filter
+    totalCount: Int!
+    hasMore: Boolean!
+  }
+
+  extend type Query {
+    # Get watch history, most recently watched first (requires authentication)
+    # limit: Maximum number of entries to return (default: 20, max: 100)
+    # from/to: ISO date strings to filter by watch date (inclusive)
+    watchHistory(limit: Int, offset: Int, from: String, to: String): WatchHistoryPage!
+  }
+
+  extend type Mutation {
+    # Mark a movie as watched (requires authentication)
+    # watchedAt: ISO date string (default: now). Watching again adds another entry.
+    markWatched(tmdbId: Int!, watchedAt: String): WatchHistoryEntry!
+
+    # Remove watch history for a movie (requires authentication)
+    # entryId: Remove only this entry instead of every entry for the movie
+    unmarkWatched(tmdbId: Int!, entryId: Int): Boolean!
+  }
+`;
@@ -0,0 +1,40 @@
+import { gql } from "graphql-tag";
+
+export const importSchema = gql`
+  enum ImportFormat {
+    # Letterboxd export ratings.csv: 0.5-5 stars, mapped onto 1-10
+    LETTERBOXD_RATINGS
+    # Letterboxd export watchlist.csv: added to "Saved Movies"
+    LETTERBOXD_WATCHLIST
+    # Letterboxd export diary.csv: one watch history entry per row, plus the rating if given
+    LETTERBOXD_DIARY
+    # IMDb "Your Ratings" export: matched by IMDb ID
+    IMDB_RATINGS
+  }
+
+  type UnmatchedImportRow {
+    # 1-based position among the file's data rows (the header isn't counted)
+    row: Int!
+    title: String
+    year: Int
+    imdbId: String
+    reason: String!
+  }
+
+  type ImportReport {
+    format: ImportFormat!
+    totalRows: Int!
+    matchedRows: Int!
+    ratingsImported: Int!
+    savedMoviesImported: Int!
+    watchesImported: Int!
+    unmatched: [UnmatchedImportRow!]!
+  }
+
+  extend type Mutation {
+    # Import a Letterboxd or IMDb CSV export (requires authentication)
+    # fileContent: The CSV file's text (up to 2000 rows)
+    # Imported ratings replace existing ones; saved movies and watches already present are skipped
+    importLibrary(format: ImportFormat!, fileContent: String!): ImportReport!
+  }
+`;
@@ -4,9 +4,15 @@ import { personSchema } from "./personSchema";
 import { authSchema } from "./authSchema";
 import { userSchema } from "./userSchema";
 import { collectionSchema } from "./collectionSchema";
+import { historySchema } from "./historySchema";
+import { movieNightSchema } from "./movieNightSchema";
+import { suggestSessionSchema } from "./suggestSessionSchema";
+import { preferencesSchema } from "./preferencesSchema";
+import { importSchema } from "./importSchema";
 
 /**
  * Base schema with Query and Mutation types
+ * PageInfo is shared by every Relay-style connection type, ExportFile by every export
  */
 const baseSchema = gql`
   type Query {
@@ -16,6 +22,20 @@ const baseSchema = gql`
   type Mutation {
     _empty: String
   }
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  # A file returned inline; content is the full document as text
+  type ExportFile {
+    filename: String!
+    contentType: String!
+    content: String!
+  }
 `;
 
 /**
@@ -29,4 +49,9 @@ export const typeDefs = [
   authSchema,
   userSchema,
   collectionSchema,
+  historySchema,
+  movieNightSchema,
+  suggestSessionSchema,
+  preferencesSchema,
+  importSchema,
 ];
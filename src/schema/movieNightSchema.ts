@@ -0,0 +1,93 @@
+import { gql } from "graphql-tag";
+
+export const movieNightSchema = gql`
+  enum MovieNightStatus {
+    OPEN
+    CLOSED
+  }
+
+  # Where a nominated movie was picked from
+  enum NominationSource {
+    SEARCH
+    SHUFFLE
+    COLLECTION
+  }
+
+  type MovieNight {
+    id: Int!
+    name: String!
+    # Share this code so others can join with joinMovieNight
+    joinCode: String!
+    status: MovieNightStatus!
+    scheduledFor: String
+    createdAt: String!
+    closedAt: String
+    host: User!
+    participants: [MovieNightParticipant!]!
+    # Nominated movies, most votes first
+    candidates: [MovieNightCandidate!]!
+    # Winning candidate (null until the movie night is closed)
+    winner: MovieNightCandidate
+  }
+
+  type MovieNightParticipant {
+    id: Int!
+    user: User!
+    isHost: Boolean!
+    joinedAt: String!
+  }
+
+  type MovieNightCandidate {
+    id: Int!
+    tmdbId: Int!
+    title: String!
+    posterUrl: String
+    source: NominationSource!
+    # Null if the nominating user deleted their account
+    nominatedBy: User
+    createdAt: String!
+    voteCount: Int!
+    # Whether the authenticated user voted for this candidate
+    hasVoted: Boolean!
+    movie: Movie # Fetched from TMDB
+  }
+
+  extend type Query {
+    # Get a movie night by ID (requires authentication, must be a participant)
+    movieNight(id: Int!): MovieNight
+
+    # Get movie nights the authenticated user participates in, newest first
+    myMovieNights(status: MovieNightStatus): [MovieNight!]!
+  }
+
+  extend type Mutation {
+    # Create a movie night hosted by the authenticated user
+    # scheduledFor: ISO date string for when the movie night takes place
+    createMovieNight(name: String!, scheduledFor: String): MovieNight!
+
+    # Add a registered user to a movie night by email (requires authentication, must be a participant)
+    # Returns true whether or not the email belongs to an account, so emails can't be probed
+    inviteToMovieNight(movieNightId: Int!, email: String!): Boolean!
+
+    # Join a movie night with its join code (requires authentication)
+    joinMovieNight(joinCode: String!): MovieNight!
+
+    # Nominate a movie found with searchMovies or shuffleMovie (requires authentication, must be a participant)
+    # Nominating an already nominated movie returns the existing candidate
+    nominateMovie(movieNightId: Int!, tmdbId: Int!, source: NominationSource!): MovieNightCandidate!
+
+    # Nominate movies from a collection (requires authentication, must be a participant with access to the collection)
+    # tmdbIds: Only nominate these movies from the collection (default: all movies in the collection)
+    nominateFromCollection(movieNightId: Int!, collectionId: Int!, tmdbIds: [Int!]): [MovieNightCandidate!]!
+
+    # Vote for a nominated movie; participants can vote for any number of candidates
+    voteForCandidate(candidateId: Int!): MovieNightCandidate!
+
+    # Remove the authenticated user's vote from a nominated movie
+    removeVote(candidateId: Int!): MovieNightCandidate!
+
+    # Close the movie night with a winner and add it to every participant's watch history (host only)
+    # winnerTmdbId: Pick this nominated movie instead of the one with the most votes
+    closeMovieNight(movieNightId: Int!, winnerTmdbId: Int): MovieNight!
+  }
+`;
@@ -30,6 +30,12 @@ export const movieSchema = gql`
     reviews: [Review!]!
     ratings: [Rating!]!
     averageUserRating: Float
+    # Watch history for the authenticated user (null/0 if not authenticated or never watched)
+    watchedAt: String
+    timesWatched: Int!
+    # Where to stream, rent or buy the movie in a region (default: your preferred region, or US)
+    # Null if the movie isn't available in the region
+    watchProviders(region: String): WatchProviderAvailability
   }
 
   input MoviePreferencesInput {
@@ -105,6 +111,23 @@ export const movieSchema = gql`
       options: TMDBOptionsInput
     ): [Movie!]!
 
+    # Movies similar to a given movie ("more like this")
+    # Combines TMDB's similar and recommendations lists and re-ranks them by keyword, genre, director and cast overlap
+    # limit: Maximum number of movies (default: 10, max: 40)
+    similarMovies(
+      tmdbId: Int!
+      limit: Int
+      inCollections: [Int!]
+      excludeCollections: [Int!]
+      notInAnyCollection: Boolean
+      # Exclude movies in the authenticated user's watch history
+      excludeWatched: Boolean
+      options: TMDBOptionsInput
+    ): [SimilarMovie!]!
+
+    # List watch providers available in a region (default: your preferred region, or US), by display priority
+    watchProviderCatalog(region: String): [WatchProvider!]!
+
     # Search keywords by query string (for autocomplete in filter UI)
     # TMDB automatically performs case-insensitive partial matching
     # Returns keywords that can be used to filter movies
@@ -142,19 +165,64 @@ export const movieSchema = gql`
       inCollections: [Int!]
       excludeCollections: [Int!]
       notInAnyCollection: Boolean
+      # Exclude movies in the authenticated user's watch history
+      excludeWatched: Boolean
+      # Only movies available on the authenticated user's streaming services (see updateStreamingServices)
+      # Can't be combined with watchProviders
+      onlyMyServices: Boolean
       options: TMDBOptionsInput
     ): [Movie!]!
 
     # Suggest a movie based on user selections
     # Backend extracts categories (genres, keywords, year ranges, actors, directors) from selected movies
     # Returns a single random movie matching the aggregated criteria
-    suggestMovie(selectedMovieIds: [Int!]!): Movie
+    # excludeWatched: Exclude movies in the authenticated user's watch history
+    # onlyMyServices: Only movies available on the authenticated user's streaming services
+    suggestMovie(
+      selectedMovieIds: [Int!]!
+      excludeWatched: Boolean
+      onlyMyServices: Boolean
+    ): Movie
+
+    # Same as suggestMovie, but explains why the movie was picked
+    suggestMovieExplained(
+      selectedMovieIds: [Int!]!
+      excludeWatched: Boolean
+      onlyMyServices: Boolean
+    ): SuggestionResult!
+
+    # Suggest movies for a group based on each participant's round selections
+    # Builds a genre/keyword/era profile per participant and merges them with the given strategy
+    # Returns a shortlist ranked by group score, with a match score per participant
+    # participants: 2 to 8 participants, each with 1 to 20 selected movies
+    # strategy: OVERLAP (only shared tastes) or FAIRNESS (blend that covers everyone, default)
+    # limit: Maximum number of suggestions (default: 10, max: 20)
+    groupSuggestMovies(
+      participants: [ParticipantSelectionInput!]!
+      strategy: GroupSuggestStrategy
+      limit: Int
+      excludeWatched: Boolean
+    ): GroupSuggestResult!
+
+    # Personalized recommendations for the authenticated user
+    # Builds a taste profile (genres, keywords, cast, crew, eras) from rated, reviewed and collected movies
+    # Low ratings count against a feature; rated, collected and watched movies are never recommended
+    # limit: Maximum number of recommendations (default: 20, max: 50)
+    recommendedForMe(limit: Int, options: TMDBOptionsInput): [Recommendation!]!
 
     # Get 4 movies for a suggest round
     # Each movie represents different category combinations (genres, moods, eras, keywords, etc.)
     # The user selects movies across rounds, and their selections are aggregated for suggestMovie
     # round: Round number (1 to maxRounds, see suggestMovieRounds query)
-    suggestMovieRound(round: Int!): [Movie!]!
+    # selectedMovieIds: Movies picked in earlier rounds (at most 20); later rounds increasingly follow these picks
+    # explorationWeight: 0 to 1, higher keeps more of each round exploratory (default: 0.3)
+    # onlyMyServices: Only movies available on the authenticated user's streaming services
+    suggestMovieRound(
+      round: Int!
+      selectedMovieIds: [Int!]
+      explorationWeight: Float
+      onlyMyServices: Boolean
+    ): [Movie!]!
 
     # Get the number of available rounds for the suggest movie flow
     suggestMovieRounds: Int!
@@ -203,6 +271,10 @@ export const movieSchema = gql`
       excludeCollections: [Int!]
       # Only include movies not in any collection
       notInAnyCollection: Boolean
+      # Exclude movies in the authenticated user's watch history
+      excludeWatched: Boolean
+      # Only movies available on the authenticated user's streaming services
+      onlyMyServices: Boolean
     ): Movie
 
     # Get a completely random movie
@@ -227,6 +299,55 @@ export const movieSchema = gql`
     # Get upcoming movies
     upcomingMovies(options: TMDBOptionsInput): [Movie!]!
 
+    # Cursor-paginated versions of the movie lists above
+    # first: Number of movies to return (default: 20, max: 100)
+    # after: Cursor of the last movie already fetched (pageInfo.endCursor)
+    # options.page is ignored, the cursor decides which TMDB pages are fetched
+    searchMoviesConnection(
+      query: String!
+      first: Int
+      after: String
+      options: TMDBOptionsInput
+    ): MovieConnection!
+
+    # Takes the same filters as discoverMovies, except the ones applied after fetching
+    # (inCollections, excludeCollections, notInAnyCollection, excludeWatched)
+    discoverMoviesConnection(
+      genres: [Int!]
+      yearRange: [Int!]
+      cast: [Int!]
+      crew: [Int!]
+      runtimeRange: [Int!]
+      watchProviders: String
+      excludeGenres: [Int!]
+      excludeCast: [Int!]
+      excludeCrew: [Int!]
+      popularityRange: [Float!]
+      popularityLevel: PopularityLevel
+      originCountries: [String!]
+      keywordIds: [Int!]
+      filterByCollectionAnalysis: Int
+      onlyMyServices: Boolean
+      first: Int
+      after: String
+      options: TMDBOptionsInput
+    ): MovieConnection!
+
+    trendingMoviesConnection(
+      timeWindow: TrendingTimeWindow
+      first: Int
+      after: String
+      options: TMDBOptionsInput
+    ): MovieConnection!
+
+    nowPlayingMoviesConnection(first: Int, after: String, options: TMDBOptionsInput): MovieConnection!
+
+    popularMoviesConnection(first: Int, after: String, options: TMDBOptionsInput): MovieConnection!
+
+    topRatedMoviesConnection(first: Int, after: String, options: TMDBOptionsInput): MovieConnection!
+
+    upcomingMoviesConnection(first: Int, after: String, options: TMDBOptionsInput): MovieConnection!
+
     # Get a random movie from trending, now playing, popular, top rated, or upcoming
     # source: Which source to use (if not provided, a random source will be selected)
     # timeWindow: For trending only - "day" or "week" (if not provided, randomly selected for trending, ignored for other sources)
@@ -304,6 +425,137 @@ export const movieSchema = gql`
     LOW
   }
 
+  # Query strategy that found a suggestion, from most to least specific
+  enum SuggestionStrategy {
+    GENRES_AND_ERA
+    GENRES_AND_KEYWORDS
+    TOP_GENRE_AND_ERA
+    GENRES_ONLY
+    KEYWORDS_AND_ERA
+    TOP_GENRE_ONLY
+    KEYWORDS_ONLY
+    ERA_ONLY
+    # No query matched, so a random popular movie was picked
+    RANDOM_POPULAR
+  }
+
+  enum SuggestionCriterion {
+    GENRES
+    KEYWORDS
+    ERA
+  }
+
+  type SuggestionResult {
+    movie: Movie!
+    strategy: SuggestionStrategy!
+    # Preferred genres/keywords/era (from the selected movies) that the movie matches
+    matchedGenres: [Genre!]!
+    matchedKeywords: [Keyword!]!
+    matchedYearRange: YearRange
+    # Preferences that were dropped to find a result
+    relaxedCriteria: [SuggestionCriterion!]!
+    # How closely the movie matches the preferences (0 to 1)
+    confidence: Float!
+    # Selected movies that share a genre with the suggestion (up to 3)
+    becauseYouLiked: [Movie!]!
+  }
+
+  type SimilarMovie {
+    movie: Movie!
+    # Keyword, genre, director and cast overlap with the source movie (0 to 1)
+    score: Float!
+  }
+
+  enum RecommendationReasonType {
+    GENRE
+    KEYWORD
+    CAST
+    CREW
+    ERA
+  }
+
+  type RecommendationReason {
+    type: RecommendationReasonType!
+    # Genre, keyword or person ID (decade start year for ERA)
+    id: Int!
+    name: String!
+    # Contribution to the recommendation score
+    weight: Float!
+  }
+
+  type Recommendation {
+    movie: Movie!
+    # How well the movie matches the user's taste profile (higher is better, negative means a poor match)
+    score: Float!
+    # Strongest matching features, best first (up to 3)
+    reasons: [RecommendationReason!]!
+  }
+
+  enum GroupSuggestStrategy {
+    OVERLAP
+    FAIRNESS
+  }
+
+  input ParticipantSelectionInput {
+    # Display name used to label this participant's match score
+    name: String!
+    # Movies this participant selected across suggest rounds
+    selectedMovieIds: [Int!]!
+  }
+
+  type ParticipantMatchScore {
+    name: String!
+    # How well the movie matches this participant's selections (0 to 1)
+    score: Float!
+  }
+
+  type GroupSuggestion {
+    movie: Movie!
+    # Combined score used for ranking (0 to 1)
+    groupScore: Float!
+    participantScores: [ParticipantMatchScore!]!
+  }
+
+  type GroupSuggestResult {
+    # Strategy actually used (OVERLAP falls back to FAIRNESS when participants share no genres)
+    strategy: GroupSuggestStrategy!
+    genres: [Genre!]!
+    yearRange: YearRange
+    suggestions: [GroupSuggestion!]!
+  }
+
+  type MovieEdge {
+    cursor: String!
+    node: Movie!
+  }
+
+  # Cursor-paginated list of movies
+  # totalCount is capped at the 10,000 results TMDB can page through
+  type MovieConnection {
+    edges: [MovieEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type WatchProvider {
+    # Provider ID, usable in the watchProviders filter of discoverMovies and shuffleMovie
+    id: Int!
+    name: String!
+    logoUrl: String
+    # Lower values are shown first
+    displayPriority: Int
+  }
+
+  type WatchProviderAvailability {
+    region: String!
+    # TMDB page with links to every provider for this movie in the region
+    link: String
+    # Included with a subscription
+    flatrate: [WatchProvider!]!
+    rent: [WatchProvider!]!
+    buy: [WatchProvider!]!
+  }
+
   type MovieTrailer {
     # Video key/ID from the video platform (e.g., YouTube video ID)
     key: String!
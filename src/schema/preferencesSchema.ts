@@ -0,0 +1,52 @@
+import { gql } from "graphql-tag";
+
+export const preferencesSchema = gql`
+  type UserPreferences {
+    # Home region (ISO 3166-1 alpha-2) used for watch providers, null for the default (US)
+    region: String
+    # TMDB watch provider IDs of the user's streaming subscriptions
+    watchProviderIds: [Int!]!
+    # Subscribed services with names and logos, from the home region's provider catalog
+    watchProviders: [WatchProvider!]!
+    # Defaults applied to TMDB options on every query; explicit options take precedence
+    language: String
+    includeAdult: Boolean
+    voteCountGte: Int
+    voteAverageGte: Float
+    withOriginalLanguage: String
+    updatedAt: String!
+  }
+
+  # Omitted fields are left unchanged; null clears a saved default
+  input UpdatePreferencesInput {
+    # ISO 3166-1 alpha-2 country code (e.g., "US", "GB")
+    region: String
+    # ISO 639-1 language code with optional region (e.g., "en-US", "es-ES")
+    language: String
+    includeAdult: Boolean
+    # Minimum vote count
+    voteCountGte: Int
+    # Minimum vote average (0-10)
+    voteAverageGte: Float
+    # ISO 639-1 code
+    withOriginalLanguage: String
+    # Replaces the saved streaming services
+    watchProviderIds: [Int!]
+  }
+
+  extend type Query {
+    # Get the authenticated user's preferences (requires authentication)
+    myPreferences: UserPreferences!
+  }
+
+  extend type Mutation {
+    # Update the authenticated user's preferences (requires authentication)
+    updatePreferences(input: UpdatePreferencesInput!): UserPreferences!
+
+    # Set the streaming services the user subscribes to (requires authentication)
+    # Used by onlyMyServices on discoverMovies, shuffleMovie, suggestMovie and suggestMovieRound
+    # watchProviderIds: IDs from watchProviderCatalog (replaces the saved list)
+    # region: Home region; left unchanged if omitted
+    updateStreamingServices(watchProviderIds: [Int!]!, region: String): UserPreferences!
+  }
+`;
@@ -0,0 +1,57 @@
+import { gql } from "graphql-tag";
+
+export const suggestSessionSchema = gql`
+  enum SuggestSessionStatus {
+    ACTIVE
+    FINISHED
+  }
+
+  type SuggestSession {
+    id: Int!
+    status: SuggestSessionStatus!
+    # Share of each round kept exploratory instead of following earlier choices (0 to 1)
+    explorationWeight: Float!
+    # Round the user is currently choosing in (greater than totalRounds once every round is done)
+    currentRound: Int!
+    totalRounds: Int!
+    # Movies offered in the current round (empty once every round is done or the session is finished)
+    roundMovies: [Movie!]!
+    # Movies chosen so far, in round order
+    choices: [SuggestSessionChoice!]!
+    # Suggested movie (null until the session is finished)
+    result: Movie
+    createdAt: String!
+    updatedAt: String!
+    finishedAt: String
+  }
+
+  type SuggestSessionChoice {
+    round: Int!
+    tmdbId: Int!
+    createdAt: String!
+    movie: Movie # Fetched from TMDB
+  }
+
+  extend type Query {
+    # Get a suggest session by ID (requires authentication, must be owner)
+    suggestSession(id: Int!): SuggestSession
+
+    # Get suggest sessions for the authenticated user, most recently active first
+    # limit: Maximum number of sessions to return (default: 20, max: 100)
+    suggestSessions(status: SuggestSessionStatus, limit: Int): [SuggestSession!]!
+  }
+
+  extend type Mutation {
+    # Start a suggest session with the first round of movies (requires authentication)
+    # explorationWeight: 0 to 1, higher keeps more of each round exploratory (default: 0.3)
+    startSuggestSession(explorationWeight: Float): SuggestSession!
+
+    # Choose a movie from the current round and move to the next one
+    # The next round adapts to the movies chosen so far
+    submitRoundChoice(sessionId: Int!, movieId: Int!): SuggestSession!
+
+    # Finish the session and suggest a movie based on the choices made
+    # excludeWatched: Exclude movies in the authenticated user's watch history
+    finishSuggestSession(sessionId: Int!, excludeWatched: Boolean): SuggestSession!
+  }
+`;
@@ -4,6 +4,7 @@ export const userSchema = gql`
   type User {
     id: Int!
     email: String!
+    emailVerified: Boolean!
     name: String!
     createdAt: String!
     savedMovies: [SavedMovie!]!
@@ -42,12 +43,43 @@ export const userSchema = gql`
     user: User! # User who wrote the review
   }
 
+  type RatingEdge {
+    cursor: String!
+    node: Rating!
+  }
+
+  type RatingConnection {
+    edges: [RatingEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type ReviewEdge {
+    cursor: String!
+    node: Review!
+  }
+
+  type ReviewConnection {
+    edges: [ReviewEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
   extend type Query {
     # User profile and saved movies (requires authentication)
     me: User
     savedMovies: [SavedMovie!]!
     ratings: [Rating!]!
     reviews: [Review!]!
+
+    # Cursor-paginated ratings and reviews, most recently updated first (requires authentication)
+    # first: Number of items to return (default: 20, max: 100)
+    # after: Cursor of the last item already fetched (pageInfo.endCursor)
+    ratingsConnection(first: Int, after: String): RatingConnection!
+    reviewsConnection(first: Int, after: String): ReviewConnection!
+
+    # Download everything stored about you as a JSON document (requires authentication)
+    exportMyData: ExportFile!
   }
 
   extend type Mutation {
@@ -68,5 +100,9 @@ export const userSchema = gql`
 
     # Update user name (requires authentication)
     updateName(name: String!): User!
+
+    # Permanently delete your account and all of its data (requires authentication and your password)
+    # Movie nights you host are deleted too, along with your nominations and votes in others
+    deleteAccount(password: String!): Boolean!
   }
 `;
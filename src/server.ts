@@ -1,11 +1,27 @@
 import express from "express";
 import { ApolloServer } from "@apollo/server";
+import { unwrapResolverError } from "@apollo/server/errors";
+import { GraphQLError } from "graphql";
 import { expressMiddleware } from "@as-integrations/express5";
 import cors from "cors";
 import dotenv from "dotenv";
 import { typeDefs } from "./schema";
 import { resolvers } from "./resolvers";
-import { createContext } from "./context";
+import { Context, createContext, getMailer, getPrisma, getTMDBDataSource } from "./context";
+import { createQueryComplexityPlugin } from "./plugins/queryComplexity";
+import { createExpensiveOperationRateLimitPlugin } from "./plugins/rateLimit";
+import { createRateLimitMiddleware } from "./middleware/rateLimit";
+import { createAdminAuthMiddleware } from "./middleware/adminAuth";
+import { RateLimiter } from "./utils/rateLimiter";
+import { getJwtSecret } from "./utils/auth";
+import { backfillPublicCollectionGenres } from "./utils/publicCollectionHelpers";
+import {
+  ERROR_CODES,
+  ERROR_MESSAGES,
+  RATE_LIMIT_WINDOW_MS,
+  RATE_LIMIT_MAX_REQUESTS,
+  RATE_LIMIT_EXPENSIVE_MAX_REQUESTS,
+} from "./constants";
 
 // Load environment variables
 dotenv.config();
@@ -13,16 +29,59 @@ dotenv.config();
 const PORT = process.env.PORT || 4000;
 
 async function startServer() {
+  // Fail fast instead of on the first login or email
+  getJwtSecret();
+  getMailer();
+
   const app = express();
 
+  // Needed for req.ip to be the client address behind a reverse proxy
+  if (process.env.TRUST_PROXY) {
+    app.set("trust proxy", process.env.TRUST_PROXY);
+  }
+
+  // Rate limit buckets per user (or IP): every request, and expensive operations
+  const requestLimiter = new RateLimiter(
+    "requests",
+    Number(process.env.RATE_LIMIT_MAX_REQUESTS) || RATE_LIMIT_MAX_REQUESTS,
+    RATE_LIMIT_WINDOW_MS
+  );
+  const expensiveLimiter = new RateLimiter(
+    "expensive",
+    Number(process.env.RATE_LIMIT_EXPENSIVE_MAX_REQUESTS) || RATE_LIMIT_EXPENSIVE_MAX_REQUESTS,
+    RATE_LIMIT_WINDOW_MS
+  );
+
   // Create Apollo Server
-  const server = new ApolloServer({
+  const server = new ApolloServer<Context>({
     typeDefs,
     resolvers,
-    introspection: true, // Enable GraphQL playground in development
-    formatError: (error) => {
-      console.error("GraphQL Error:", error.message);
-      return error;
+    introspection: process.env.NODE_ENV !== "production", // Enable GraphQL playground outside production
+    plugins: [
+      // Reject deeply nested or expensive queries before they fan out into TMDB requests
+      createQueryComplexityPlugin({
+        maxDepth: process.env.GRAPHQL_MAX_DEPTH ? Number(process.env.GRAPHQL_MAX_DEPTH) : undefined,
+        maxCost: process.env.GRAPHQL_MAX_COST ? Number(process.env.GRAPHQL_MAX_COST) : undefined,
+      }),
+      createExpensiveOperationRateLimitPlugin(expensiveLimiter),
+    ],
+    // Typed errors (see utils/errors.ts) keep their message and code; anything unexpected
+    // is logged and replaced with a generic INTERNAL_SERVER_ERROR so internals don't leak
+    formatError: (formattedError, error) => {
+      const originalError = unwrapResolverError(error);
+      if (
+        formattedError.extensions?.code === ERROR_CODES.INTERNAL_SERVER_ERROR &&
+        !(originalError instanceof GraphQLError)
+      ) {
+        console.error("GraphQL Error:", originalError);
+        return {
+          message: "Internal server error",
+          locations: formattedError.locations,
+          path: formattedError.path,
+          extensions: { code: ERROR_CODES.INTERNAL_SERVER_ERROR },
+        };
+      }
+      return formattedError;
     },
   });
 
@@ -35,7 +94,9 @@ async function startServer() {
       origin: process.env.FRONTEND_URL,
       credentials: true,
     }),
-    express.json(),
+    createRateLimitMiddleware(requestLimiter),
+    // Raised from the 100kb default so importLibrary can take a full CSV export
+    express.json({ limit: "2mb" }),
     expressMiddleware(server, {
       context: createContext,
     })
@@ -46,9 +107,62 @@ async function startServer() {
     res.json({ status: "ok" });
   });
 
+  // TMDB cache metrics (hit/miss rates and sizes per cache)
+  app.get("/health/cache", (req, res) => {
+    res.json({ caches: getTMDBDataSource().getCacheStats() });
+  });
+
+  // TMDB circuit breaker state and outbound request queue
+  app.get("/health/tmdb", (req, res) => {
+    res.json(getTMDBDataSource().getRequestStats());
+  });
+
+  // Explicit TMDB cache invalidation (e.g. after fixing data on TMDB), only when ADMIN_API_KEY is set
+  if (process.env.ADMIN_API_KEY) {
+    const admin = express.Router();
+    admin.use(createAdminAuthMiddleware(process.env.ADMIN_API_KEY));
+
+    admin.delete("/cache/movies/:id", async (req, res) => {
+      const movieId = Number(req.params.id);
+      if (!Number.isInteger(movieId) || movieId < 1) {
+        res.status(400).json({ error: ERROR_MESSAGES.ADMIN_INVALID_ID });
+        return;
+      }
+      await getTMDBDataSource().invalidateMovie(movieId);
+      res.json({ invalidated: { movieId } });
+    });
+
+    admin.delete("/cache/people/:id", async (req, res) => {
+      const personId = Number(req.params.id);
+      if (!Number.isInteger(personId) || personId < 1) {
+        res.status(400).json({ error: ERROR_MESSAGES.ADMIN_INVALID_ID });
+        return;
+      }
+      await getTMDBDataSource().invalidatePerson(personId);
+      res.json({ invalidated: { personId } });
+    });
+
+    admin.delete("/cache", async (req, res) => {
+      await getTMDBDataSource().clearCaches();
+      res.json({ cleared: true });
+    });
+
+    app.use("/admin", admin);
+  }
+
   app.listen(PORT, () => {
     console.log(`Movie Night Picker backend running on port ${PORT}`);
   });
+
+  // Store genres for public collection movies saved before genres were tracked, so the
+  // browsePublicCollections genre filter covers them (only unsynced movies are fetched)
+  backfillPublicCollectionGenres(getPrisma(), getTMDBDataSource())
+    .then((count) => {
+      if (count > 0) {
+        console.log(`Backfilled genres for ${count} public collection movies`);
+      }
+    })
+    .catch((error) => console.error("Failed to backfill collection genres:", error));
 }
 
 startServer().catch((error) => {
@@ -42,6 +42,48 @@ export interface Person {
   popularity?: number | null;
 }
 
+export interface WatchProvider {
+  id: number;
+  name: string;
+  logoUrl?: string | null;
+  displayPriority?: number | null;
+}
+
+export interface WatchProviderAvailability {
+  region: string;
+  link?: string | null;
+  flatrate: WatchProvider[];
+  rent: WatchProvider[];
+  buy: WatchProvider[];
+}
+
+export interface PageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+export interface Edge<T> {
+  cursor: string;
+  node: T;
+}
+
+export interface Connection<T> {
+  edges: Edge<T>[];
+  pageInfo: PageInfo;
+  totalCount: number;
+}
+
+/**
+ * Downloadable document returned inline (e.g. data exports)
+ */
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
 export interface DiscoverParams {
   genres?: number[];
   yearRange?: number[];
@@ -68,6 +110,8 @@ export interface TMDBOptions {
   voteCountGte?: number;
   withOriginalLanguage?: string;
   withWatchProviders?: string;
+  // Region withWatchProviders applies to (defaults to region)
+  watchRegion?: string;
   includeAdult?: boolean;
   popularityGte?: number;
   popularityLte?: number;
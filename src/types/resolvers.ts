@@ -1,4 +1,9 @@
-import { User } from "@prisma/client";
+import {
+  MovieNightStatus,
+  NominationSource,
+  SuggestSessionStatus,
+  User,
+} from "@prisma/client";
 import { Context } from "../context";
 import { GraphQLOptionsInput } from "./index";
 
@@ -24,6 +29,40 @@ export interface AuthArgs {
   password: string;
 }
 
+export interface RefreshTokenArgs {
+  refreshToken: string;
+}
+
+export interface RevokeSessionArgs {
+  id: number;
+}
+
+export interface RequestPasswordResetArgs {
+  email: string;
+}
+
+export interface ResetPasswordArgs {
+  token: string;
+  newPassword: string;
+}
+
+export interface ChangePasswordArgs {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface VerifyEmailArgs {
+  token: string;
+}
+
+/**
+ * Connection Arguments (cursor pagination)
+ */
+export interface ConnectionArgs {
+  first?: number | null;
+  after?: string | null;
+}
+
 /**
  * Movie-related arguments
  */
@@ -60,6 +99,20 @@ export interface SearchMoviesArgs {
   options?: GraphQLOptionsInput;
 }
 
+export interface SimilarMoviesArgs {
+  tmdbId: number;
+  limit?: number | null;
+  inCollections?: number[];
+  excludeCollections?: number[];
+  notInAnyCollection?: boolean;
+  excludeWatched?: boolean;
+  options?: GraphQLOptionsInput;
+}
+
+export interface WatchProviderCatalogArgs {
+  region?: string | null;
+}
+
 export interface SearchKeywordsArgs {
   query: string;
   limit?: number;
@@ -83,7 +136,9 @@ export interface DiscoverMoviesArgs {
   inCollections?: number[];
   excludeCollections?: number[];
   notInAnyCollection?: boolean;
+  excludeWatched?: boolean;
   options?: GraphQLOptionsInput;
+  onlyMyServices?: boolean;
 }
 
 export interface MoviePreferencesInput {
@@ -103,10 +158,32 @@ export interface MoviePreferencesInput {
 
 export interface SuggestMovieArgs {
   selectedMovieIds: number[];
+  excludeWatched?: boolean;
+  onlyMyServices?: boolean;
+}
+
+export interface ParticipantSelectionInput {
+  name: string;
+  selectedMovieIds: number[];
+}
+
+export interface GroupSuggestMoviesArgs {
+  participants: ParticipantSelectionInput[];
+  strategy?: "OVERLAP" | "FAIRNESS" | null;
+  limit?: number | null;
+  excludeWatched?: boolean;
+}
+
+export interface RecommendedForMeArgs {
+  limit?: number | null;
+  options?: GraphQLOptionsInput;
 }
 
 export interface SuggestMovieRoundArgs {
   round: number;
+  selectedMovieIds?: number[] | null;
+  explorationWeight?: number | null;
+  onlyMyServices?: boolean;
 }
 
 export interface ShuffleMovieArgs {
@@ -130,6 +207,8 @@ export interface ShuffleMovieArgs {
   inCollections?: number[];
   excludeCollections?: number[];
   notInAnyCollection?: boolean;
+  excludeWatched?: boolean;
+  onlyMyServices?: boolean;
 }
 
 export interface RandomMovieArgs {
@@ -177,6 +256,32 @@ export interface CrewFromFeaturedMoviesArgs {
   options?: GraphQLOptionsInput;
 }
 
+export interface SearchMoviesConnectionArgs extends ConnectionArgs {
+  query: string;
+  options?: GraphQLOptionsInput;
+}
+
+// Filters applied after fetching would break totalCount, so connections leave them out
+export interface DiscoverMoviesConnectionArgs
+  extends ConnectionArgs,
+    Omit<
+      DiscoverMoviesArgs,
+      "inCollections" | "excludeCollections" | "notInAnyCollection" | "excludeWatched"
+    > {}
+
+export interface TrendingMoviesConnectionArgs extends ConnectionArgs, TrendingMoviesArgs {}
+
+export interface MovieListConnectionArgs extends ConnectionArgs {
+  options?: GraphQLOptionsInput;
+}
+
+/**
+ * Movie Field Arguments
+ */
+export interface MovieWatchProvidersArgs {
+  region?: string | null;
+}
+
 /**
  * Person Query Arguments
  */
@@ -208,6 +313,160 @@ export interface UpdateNameArgs {
   name: string;
 }
 
+export interface DeleteAccountArgs {
+  password: string;
+}
+
+export type ImportFormat =
+  | "LETTERBOXD_RATINGS"
+  | "LETTERBOXD_WATCHLIST"
+  | "LETTERBOXD_DIARY"
+  | "IMDB_RATINGS";
+
+export interface PublicCollectionArgs {
+  slug: string;
+}
+
+export interface BrowsePublicCollectionsArgs extends ConnectionArgs {
+  sort?: "RECENT" | "MOST_FOLLOWED" | null;
+  search?: string | null;
+  genre?: number | null;
+}
+
+export interface CopyCollectionArgs {
+  id: number;
+}
+
+export interface FollowCollectionArgs {
+  id: number;
+}
+
+export type CollectionExportFormat = "CSV" | "JSON" | "LETTERBOXD";
+
+export interface ExportCollectionArgs {
+  id: number;
+  format: CollectionExportFormat;
+}
+
+export interface ImportLibraryArgs {
+  format: ImportFormat;
+  fileContent: string;
+}
+
+/**
+ * Preferences Mutation Arguments
+ */
+export interface UpdatePreferencesInput {
+  region?: string | null;
+  language?: string | null;
+  includeAdult?: boolean | null;
+  voteCountGte?: number | null;
+  voteAverageGte?: number | null;
+  withOriginalLanguage?: string | null;
+  watchProviderIds?: number[] | null;
+}
+
+export interface UpdatePreferencesArgs {
+  input: UpdatePreferencesInput;
+}
+
+export interface UpdateStreamingServicesArgs {
+  watchProviderIds: number[];
+  region?: string | null;
+}
+
+/**
+ * Watch History Arguments
+ */
+export interface WatchHistoryArgs {
+  limit?: number;
+  offset?: number;
+  from?: string | null;
+  to?: string | null;
+}
+
+export interface MarkWatchedArgs {
+  tmdbId: number;
+  watchedAt?: string | null;
+}
+
+export interface UnmarkWatchedArgs {
+  tmdbId: number;
+  entryId?: number | null;
+}
+
+/**
+ * Suggest Session Arguments
+ */
+export interface SuggestSessionArgs {
+  id: number;
+}
+
+export interface SuggestSessionsArgs {
+  status?: SuggestSessionStatus | null;
+  limit?: number | null;
+}
+
+export interface StartSuggestSessionArgs {
+  explorationWeight?: number | null;
+}
+
+export interface SubmitRoundChoiceArgs {
+  sessionId: number;
+  movieId: number;
+}
+
+export interface FinishSuggestSessionArgs {
+  sessionId: number;
+  excludeWatched?: boolean;
+}
+
+/**
+ * Movie Night Arguments
+ */
+export interface MovieNightArgs {
+  id: number;
+}
+
+export interface MyMovieNightsArgs {
+  status?: MovieNightStatus | null;
+}
+
+export interface CreateMovieNightArgs {
+  name: string;
+  scheduledFor?: string | null;
+}
+
+export interface InviteToMovieNightArgs {
+  movieNightId: number;
+  email: string;
+}
+
+export interface JoinMovieNightArgs {
+  joinCode: string;
+}
+
+export interface NominateMovieArgs {
+  movieNightId: number;
+  tmdbId: number;
+  source: NominationSource;
+}
+
+export interface NominateFromCollectionArgs {
+  movieNightId: number;
+  collectionId: number;
+  tmdbIds?: number[] | null;
+}
+
+export interface MovieNightVoteArgs {
+  candidateId: number;
+}
+
+export interface CloseMovieNightArgs {
+  movieNightId: number;
+  winnerTmdbId?: number | null;
+}
+
 /**
  * Collection Query Arguments
  */
@@ -254,11 +513,37 @@ export interface RemoveMovieFromCollectionArgs {
   tmdbId: number;
 }
 
+/**
+ * Row of an imported file that couldn't be imported
+ */
+export interface UnmatchedImportRow {
+  row: number;
+  title: string | null;
+  year: number | null;
+  imdbId: string | null;
+  reason: string;
+}
+
+/**
+ * Library import result
+ */
+export interface ImportReport {
+  format: ImportFormat;
+  totalRows: number;
+  matchedRows: number;
+  ratingsImported: number;
+  savedMoviesImported: number;
+  watchesImported: number;
+  unmatched: UnmatchedImportRow[];
+}
+
 /**
  * Auth payload response
  */
 export interface AuthPayload {
   token: string;
+  refreshToken: string;
+  accessTokenExpiresAt: Date;
   user: UserWithoutPassword;
 }
 
@@ -0,0 +1,49 @@
+import { PrismaClient } from "@prisma/client";
+import { deleteUserAccount } from "./accountHelpers";
+
+/**
+ * Prisma client whose interactive transaction runs against the same mocked delegates
+ */
+function createPrisma(hostedNights: Array<{ id: number; participants: Array<{ userId: number }> }>) {
+  const tx = {
+    movieNight: {
+      findMany: jest.fn().mockResolvedValue(hostedNights),
+      update: jest.fn().mockResolvedValue({}),
+    },
+    user: { delete: jest.fn().mockResolvedValue({}) },
+  };
+  const prisma = {
+    $transaction: jest.fn((fn: (client: typeof tx) => Promise<unknown>) => fn(tx)),
+  };
+  return { prisma: prisma as unknown as PrismaClient, tx };
+}
+
+describe("deleteUserAccount", () => {
+  it("hands hosted movie nights to the earliest other participant before deleting the user", async () => {
+    const { prisma, tx } = createPrisma([
+      { id: 10, participants: [{ userId: 2 }] },
+      { id: 11, participants: [] },
+    ]);
+
+    await deleteUserAccount(prisma, 1);
+
+    expect(tx.movieNight.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { hostId: 1 } })
+    );
+    expect(tx.movieNight.update).toHaveBeenCalledTimes(1);
+    expect(tx.movieNight.update).toHaveBeenCalledWith({ where: { id: 10 }, data: { hostId: 2 } });
+    expect(tx.user.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+    expect(tx.movieNight.update.mock.invocationCallOrder[0]).toBeLessThan(
+      tx.user.delete.mock.invocationCallOrder[0]
+    );
+  });
+
+  it("deletes the user directly when they host no movie nights", async () => {
+    const { prisma, tx } = createPrisma([]);
+
+    await deleteUserAccount(prisma, 1);
+
+    expect(tx.movieNight.update).not.toHaveBeenCalled();
+    expect(tx.user.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Helper functions for account-wide operations (personal data export, account deletion)
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { ExportFile } from "../types";
+import { ERROR_MESSAGES } from "../constants";
+import { NotFoundError } from "./errors";
+
+/**
+ * Build a JSON document of everything stored about a user
+ * Secrets (password and token hashes) and internal row IDs of child rows are left out
+ */
+export async function buildPersonalDataExport(
+  prisma: PrismaClient,
+  userId: number
+): Promise<ExportFile> {
+  const [
+    user,
+    ratings,
+    reviews,
+    collections,
+    savedMovies,
+    watchHistory,
+    suggestHistory,
+    suggestSessions,
+    movieNights,
+    nominations,
+    votes,
+    sessions,
+    followedCollections,
+  ] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      include: { preferences: true },
+    }),
+    prisma.rating.findMany({
+      where: { userId },
+      select: { tmdbId: true, rating: true, createdAt: true, updatedAt: true },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.review.findMany({
+      where: { userId },
+      select: { tmdbId: true, content: true, createdAt: true, updatedAt: true },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.collection.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        isPublic: true,
+        shareSlug: true,
+        createdAt: true,
+        updatedAt: true,
+        movies: {
+          select: { tmdbId: true, addedAt: true },
+          orderBy: { addedAt: "asc" },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.savedMovie.findMany({
+      where: { userId },
+      select: { tmdbId: true, createdAt: true },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.movieHistory.findMany({
+      where: { userId },
+      select: { movieId: true, title: true, watchedAt: true },
+      orderBy: { watchedAt: "asc" },
+    }),
+    prisma.suggestMovieHistory.findMany({
+      where: { userId },
+      select: { tmdbId: true, createdAt: true },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.suggestSession.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        status: true,
+        currentRound: true,
+        resultTmdbId: true,
+        createdAt: true,
+        finishedAt: true,
+        choices: {
+          select: { round: true, tmdbId: true, createdAt: true },
+          orderBy: { round: "asc" },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.movieNight.findMany({
+      where: { OR: [{ hostId: userId }, { participants: { some: { userId } } }] },
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        scheduledFor: true,
+        winnerTmdbId: true,
+        closedAt: true,
+        createdAt: true,
+        hostId: true,
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.movieNightCandidate.findMany({
+      where: { nominatedById: userId },
+      select: { movieNightId: true, tmdbId: true, title: true, source: true, createdAt: true },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.movieNightVote.findMany({
+      where: { userId },
+      select: {
+        createdAt: true,
+        candidate: { select: { movieNightId: true, tmdbId: true } },
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.session.findMany({
+      where: { userId },
+      select: {
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true,
+        revokedAt: true,
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.collectionFollow.findMany({
+      where: { userId },
+      select: { collectionId: true, createdAt: true },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  if (!user) {
+    throw new NotFoundError(ERROR_MESSAGES.USER_NOT_FOUND);
+  }
+
+  const { preferences } = user;
+  const exportedAt = new Date();
+  const document = {
+    exportedAt,
+    profile: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      emailVerifiedAt: user.emailVerifiedAt,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    },
+    preferences: preferences && {
+      region: preferences.region,
+      watchProviderIds: preferences.watchProviderIds,
+      language: preferences.language,
+      includeAdult: preferences.includeAdult,
+      voteCountGte: preferences.voteCountGte,
+      voteAverageGte: preferences.voteAverageGte,
+      withOriginalLanguage: preferences.withOriginalLanguage,
+      updatedAt: preferences.updatedAt,
+    },
+    ratings,
+    reviews,
+    collections,
+    savedMovies,
+    watchHistory,
+    suggestHistory,
+    suggestSessions,
+    movieNights: movieNights.map(({ hostId, ...movieNight }) => ({
+      ...movieNight,
+      isHost: hostId === userId,
+    })),
+    movieNightNominations: nominations,
+    movieNightVotes: votes.map((vote) => ({
+      movieNightId: vote.candidate.movieNightId,
+      tmdbId: vote.candidate.tmdbId,
+      createdAt: vote.createdAt,
+    })),
+    sessions,
+    followedCollections,
+  };
+
+  return {
+    filename: `movie-night-picker-data-${exportedAt.toISOString().slice(0, 10)}.json`,
+    contentType: "application/json",
+    content: JSON.stringify(document, null, 2),
+  };
+}
+
+/**
+ * Delete a user and everything they own
+ * Movie nights they host with other participants are handed to the participant who joined
+ * earliest instead of being deleted; their nominations stay (without a nominator) so other
+ * participants keep their votes, and only their own votes and participations are removed
+ */
+export async function deleteUserAccount(prisma: PrismaClient, userId: number): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const hostedNights = await tx.movieNight.findMany({
+      where: { hostId: userId },
+      select: {
+        id: true,
+        participants: {
+          where: { userId: { not: userId } },
+          select: { userId: true },
+          orderBy: [{ joinedAt: "asc" }, { id: "asc" }],
+          take: 1,
+        },
+      },
+    });
+
+    for (const movieNight of hostedNights) {
+      const [nextHost] = movieNight.participants;
+      if (nextHost) {
+        await tx.movieNight.update({
+          where: { id: movieNight.id },
+          data: { hostId: nextHost.userId },
+        });
+      }
+    }
+
+    // Everything else (sessions included) is removed by ON DELETE CASCADE,
+    // including movie nights nobody else joined
+    await tx.user.delete({ where: { id: userId } });
+  });
+}
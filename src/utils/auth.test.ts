@@ -0,0 +1,64 @@
+import {
+  generateSecureToken,
+  generateToken,
+  getTokenExpiry,
+  hashSecureToken,
+  verifyToken,
+} from "./auth";
+import { AuthenticationError } from "./errors";
+
+describe("secure tokens", () => {
+  it("generates a different URL-safe token every time", () => {
+    const first = generateSecureToken();
+    const second = generateSecureToken();
+
+    expect(first).not.toBe(second);
+    expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/);
+  });
+
+  it("hashes a token the same way every time, without exposing it", () => {
+    const token = generateSecureToken();
+    const hash = hashSecureToken(token);
+
+    expect(hash).toBe(hashSecureToken(token));
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(hash).not.toContain(token);
+    expect(hashSecureToken(generateSecureToken())).not.toBe(hash);
+  });
+});
+
+describe("access tokens", () => {
+  const env = process.env;
+  const payload = { userId: 1, email: "user@example.com", sessionId: 2 };
+
+  beforeEach(() => {
+    process.env = { ...env, JWT_SECRET: "test-secret" };
+    delete process.env.JWT_EXPIRES_IN;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it("round-trips the session payload", () => {
+    const token = generateToken(payload);
+
+    expect(verifyToken(token)).toMatchObject(payload);
+  });
+
+  it("expires after 15 minutes by default", () => {
+    const before = Date.now();
+    const expiry = getTokenExpiry(generateToken(payload)).getTime();
+
+    // JWT expiry has second precision
+    expect(expiry).toBeGreaterThanOrEqual(Math.floor(before / 1000) * 1000 + 15 * 60 * 1000);
+    expect(expiry).toBeLessThanOrEqual(Date.now() + 15 * 60 * 1000);
+  });
+
+  it("rejects tokens signed with another secret", () => {
+    const token = generateToken(payload);
+    process.env.JWT_SECRET = "other-secret";
+
+    expect(() => verifyToken(token)).toThrow(AuthenticationError);
+  });
+});
@@ -1,13 +1,31 @@
+import { createHash, randomBytes } from "crypto";
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
+import { AuthenticationError } from "./errors";
 
-const JWT_SECRET: string = process.env.JWT_SECRET || "your-secret-key-change-in-production";
-const JWT_EXPIRES_IN: string = process.env.JWT_EXPIRES_IN || "7d";
+const DEFAULT_ACCESS_TOKEN_EXPIRES_IN = "15m";
+const SECURE_TOKEN_BYTES = 32;
 const BCRYPT_SALT_ROUNDS = 10;
 
+// Sessions expire after this long without a refresh
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
 export interface JWTPayload {
   userId: number;
   email: string;
+  sessionId: number;
+}
+
+/**
+ * Get the JWT signing secret
+ * Read on use (not at import) so values loaded by dotenv are picked up
+ */
+export function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("JWT_SECRET environment variable is required");
+  }
+  return secret;
 }
 
 /**
@@ -28,12 +46,12 @@ export async function verifyPassword(
 }
 
 /**
- * Generate a JWT token for a user
+ * Generate a short-lived JWT access token for a session
  */
 export function generateToken(payload: JWTPayload): string {
   try {
-    const token = jwt.sign(payload, JWT_SECRET, {
-      expiresIn: JWT_EXPIRES_IN,
+    const token = jwt.sign(payload, getJwtSecret(), {
+      expiresIn: process.env.JWT_EXPIRES_IN || DEFAULT_ACCESS_TOKEN_EXPIRES_IN,
     } as jwt.SignOptions);
     return token;
   } catch (error) {
@@ -47,13 +65,36 @@ export function generateToken(payload: JWTPayload): string {
  */
 export function verifyToken(token: string): JWTPayload {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
+    const decoded = jwt.verify(token, getJwtSecret()) as JWTPayload;
     return decoded;
   } catch (error) {
-    throw new Error("Invalid or expired token");
+    throw new AuthenticationError("Invalid or expired token");
   }
 }
 
+/**
+ * Get the expiry time of a token we signed
+ */
+export function getTokenExpiry(token: string): Date {
+  const { exp } = jwt.decode(token) as { exp: number };
+  return new Date(exp * 1000);
+}
+
+/**
+ * Generate an opaque random token (refresh tokens and emailed tokens)
+ */
+export function generateSecureToken(): string {
+  return randomBytes(SECURE_TOKEN_BYTES).toString("base64url");
+}
+
+/**
+ * Hash a token from generateSecureToken for storage
+ * SHA-256 is enough here since the token is random, not a user-chosen password
+ */
+export function hashSecureToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
 /**
  * Extract token from Authorization header
  */
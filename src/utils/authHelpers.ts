@@ -1,24 +1,17 @@
 import { User } from "@prisma/client";
 import { Context } from "../context";
+import { ERROR_MESSAGES } from "../constants";
+import { AuthenticationError } from "./errors";
 
-/**
- * Authentication error class
- */
-export class AuthenticationError extends Error {
-  constructor(message: string = "Authentication required") {
-    super(message);
-    this.name = "AuthenticationError";
-  }
-}
+export { AuthenticationError } from "./errors";
 
 /**
  * Require authentication and return the authenticated user
- * Throws AuthenticationError if user is not authenticated
+ * Throws AuthenticationError (UNAUTHENTICATED) if user is not authenticated
  */
 export function requireAuth(context: Context): User {
   if (!context.user) {
-    throw new AuthenticationError("Authentication required");
+    throw new AuthenticationError(ERROR_MESSAGES.AUTH_REQUIRED);
   }
   return context.user;
 }
-
@@ -0,0 +1,164 @@
+/**
+ * Helper functions for exporting a collection as CSV, JSON or a Letterboxd list import
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { TMDBDataSource } from "../datasources/tmdb";
+import { ExportFile } from "../types";
+import { CollectionExportFormat } from "../types/resolvers";
+import {
+  COLLECTION_EXPORT_MAX_MOVIES,
+  ERROR_MESSAGES,
+  MAX_RATING,
+  MIN_RATING,
+} from "../constants";
+import { formatCsv } from "./csvHelpers";
+import { scaleRating } from "./importHelpers";
+import { TMDBMovieResponse } from "./transformers";
+import { slugify } from "./publicCollectionHelpers";
+import { NotFoundError, UserInputError } from "./errors";
+
+const RATING_SCALE = { min: MIN_RATING, max: MAX_RATING };
+// Letterboxd's importer reads ratings out of 10 from its Rating10 column
+const LETTERBOXD_RATING10_SCALE = { min: 1, max: 10 };
+
+/**
+ * One exported movie, with the collection owner's rating and review
+ */
+interface CollectionExportRow {
+  tmdbId: number;
+  title: string | null;
+  year: number | null;
+  imdbId: string | null;
+  addedAt: Date;
+  rating: number | null;
+  review: string | null;
+}
+
+/**
+ * Fetch TMDB details (without credits) for a movie, or null if TMDB no longer has it
+ */
+async function fetchMovieDetails(
+  tmdb: TMDBDataSource,
+  tmdbId: number
+): Promise<TMDBMovieResponse | null> {
+  try {
+    return (await tmdb.getMovie(tmdbId, undefined, false)) as TMDBMovieResponse;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Load a collection's movies with TMDB details and the owner's ratings and reviews
+ */
+async function getCollectionExportRows(
+  prisma: PrismaClient,
+  tmdb: TMDBDataSource,
+  collectionId: number,
+  ownerId: number
+): Promise<CollectionExportRow[]> {
+  const collectionMovies = await prisma.collectionMovie.findMany({
+    where: { collectionId },
+    orderBy: { addedAt: "asc" },
+  });
+  const tmdbIds = collectionMovies.map((cm) => cm.tmdbId);
+
+  const [ratings, reviews, movies] = await Promise.all([
+    prisma.rating.findMany({ where: { userId: ownerId, tmdbId: { in: tmdbIds } } }),
+    prisma.review.findMany({ where: { userId: ownerId, tmdbId: { in: tmdbIds } } }),
+    Promise.all(tmdbIds.map((tmdbId) => fetchMovieDetails(tmdb, tmdbId))),
+  ]);
+  const ratingsById = new Map(ratings.map((rating) => [rating.tmdbId, rating.rating]));
+  const reviewsById = new Map(reviews.map((review) => [review.tmdbId, review.content]));
+
+  return collectionMovies.map((cm, index) => {
+    const movie = movies[index];
+    const year = movie?.release_date ? Number(movie.release_date.slice(0, 4)) : NaN;
+    return {
+      tmdbId: cm.tmdbId,
+      title: movie?.title ?? null,
+      year: Number.isNaN(year) ? null : year,
+      imdbId: movie?.imdb_id || null,
+      addedAt: cm.addedAt,
+      rating: ratingsById.get(cm.tmdbId) ?? null,
+      review: reviewsById.get(cm.tmdbId) ?? null,
+    };
+  });
+}
+
+/**
+ * Build an export of a collection
+ * Access must already be checked (see verifyCollectionAccess)
+ */
+export async function buildCollectionExport(
+  prisma: PrismaClient,
+  tmdb: TMDBDataSource,
+  collectionId: number,
+  format: CollectionExportFormat
+): Promise<ExportFile> {
+  const collection = await prisma.collection.findUnique({
+    where: { id: collectionId },
+    include: { user: { select: { name: true } }, _count: { select: { movies: true } } },
+  });
+  if (!collection) {
+    throw new NotFoundError(ERROR_MESSAGES.COLLECTION_NOT_FOUND);
+  }
+  if (collection._count.movies > COLLECTION_EXPORT_MAX_MOVIES) {
+    throw new UserInputError(ERROR_MESSAGES.COLLECTION_EXPORT_TOO_LARGE);
+  }
+
+  const rows = await getCollectionExportRows(prisma, tmdb, collection.id, collection.userId);
+  const filename = slugify(collection.name) || "collection";
+
+  if (format === "JSON") {
+    const document = {
+      exportedAt: new Date(),
+      collection: {
+        id: collection.id,
+        name: collection.name,
+        description: collection.description,
+        isPublic: collection.isPublic,
+        owner: collection.user.name,
+        createdAt: collection.createdAt,
+        updatedAt: collection.updatedAt,
+      },
+      movies: rows,
+    };
+    return {
+      filename: `${filename}.json`,
+      contentType: "application/json",
+      content: JSON.stringify(document, null, 2),
+    };
+  }
+
+  if (format === "LETTERBOXD") {
+    // Column names Letterboxd's list importer recognizes; it matches on tmdbID first
+    const content = formatCsv([
+      ["tmdbID", "imdbID", "Title", "Year", "Rating10", "Review"],
+      ...rows.map((row) => [
+        row.tmdbId,
+        row.imdbId,
+        row.title,
+        row.year,
+        row.rating !== null ? scaleRating(row.rating, RATING_SCALE, LETTERBOXD_RATING10_SCALE) : null,
+        row.review,
+      ]),
+    ]);
+    return { filename: `${filename}-letterboxd.csv`, contentType: "text/csv", content };
+  }
+
+  const content = formatCsv([
+    ["tmdbId", "title", "year", "imdbId", "addedAt", "rating", "review"],
+    ...rows.map((row) => [
+      row.tmdbId,
+      row.title,
+      row.year,
+      row.imdbId,
+      row.addedAt.toISOString(),
+      row.rating,
+      row.review,
+    ]),
+  ]);
+  return { filename: `${filename}.csv`, contentType: "text/csv", content };
+}
@@ -6,15 +6,17 @@ import { PrismaClient } from "@prisma/client";
 import { Context } from "../context";
 import { calculateCollectionInsights, CollectionInsightsData } from "./collectionInsights";
 import { ERROR_MESSAGES } from "../constants";
+import { ForbiddenError, NotFoundError } from "./errors";
 
 /**
  * Verify collection exists and user has access (owner or public)
+ * Pass a null userId for unauthenticated requests, which can only access public collections
  * Throws error if access denied
  */
 export async function verifyCollectionAccess(
   prisma: PrismaClient,
   collectionId: number,
-  userId: number
+  userId: number | null
 ): Promise<{ id: number; userId: number; isPublic: boolean }> {
   const collection = await prisma.collection.findUnique({
     where: { id: collectionId },
@@ -22,11 +24,11 @@ export async function verifyCollectionAccess(
   });
 
   if (!collection) {
-    throw new Error(ERROR_MESSAGES.COLLECTION_NOT_FOUND);
+    throw new NotFoundError(ERROR_MESSAGES.COLLECTION_NOT_FOUND);
   }
 
   if (collection.userId !== userId && !collection.isPublic) {
-    throw new Error(ERROR_MESSAGES.COLLECTION_NO_ACCESS);
+    throw new ForbiddenError(ERROR_MESSAGES.COLLECTION_NO_ACCESS);
   }
 
   return collection;
@@ -54,7 +56,7 @@ export async function getMovieIdsFromCollections(
   });
 
   if (collections.length !== collectionIds.length) {
-    throw new Error("One or more collections not found or access denied");
+    throw new NotFoundError("One or more collections not found or access denied");
   }
 
   // Get all movie IDs from these collections
@@ -89,6 +91,52 @@ export async function getAllMovieIdsInCollections(
   return collectionMovies.map((cm) => cm.tmdbId);
 }
 
+/**
+ * Filter movies by the inCollections/excludeCollections/notInAnyCollection arguments
+ * Filters are ignored for anonymous users
+ */
+export async function applyCollectionFilters<T extends { id: number }>(
+  movies: T[],
+  context: Context,
+  filters: {
+    inCollections?: number[];
+    excludeCollections?: number[];
+    notInAnyCollection?: boolean;
+  }
+): Promise<T[]> {
+  const user = context.user;
+  if (!user) {
+    return movies;
+  }
+
+  const inCollectionIds =
+    filters.inCollections && filters.inCollections.length > 0
+      ? new Set(
+          await getMovieIdsFromCollections(context.prisma, user.id, filters.inCollections)
+        )
+      : null;
+  const excludeCollectionIds =
+    filters.excludeCollections && filters.excludeCollections.length > 0
+      ? new Set(
+          await getMovieIdsFromCollections(context.prisma, user.id, filters.excludeCollections)
+        )
+      : null;
+  const allCollectionMovieIds = filters.notInAnyCollection
+    ? new Set(await getAllMovieIdsInCollections(context.prisma, user.id))
+    : null;
+
+  if (!inCollectionIds && !excludeCollectionIds && !allCollectionMovieIds) {
+    return movies;
+  }
+
+  return filterMoviesByCollections(
+    movies,
+    inCollectionIds,
+    excludeCollectionIds,
+    filters.notInAnyCollection || false,
+    allCollectionMovieIds
+  ) as T[];
+}
 
 /**
  * Filter movies based on collection criteria
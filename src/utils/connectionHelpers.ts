@@ -0,0 +1,132 @@
+/**
+ * Helper functions for Relay-style cursor connections
+ * Cursors are opaque base64 strings wrapping the item's offset in the list
+ */
+
+import { Connection } from "../types";
+import { ConnectionArgs } from "../types/resolvers";
+import {
+  CONNECTION_DEFAULT_FIRST,
+  CONNECTION_MAX_FIRST,
+  ERROR_MESSAGES,
+} from "../constants";
+import { UserInputError } from "./errors";
+import { MAX_PAGES, TMDB_PAGE_SIZE, TMDBPagedResults } from "../datasources/tmdb/types";
+
+const CURSOR_PREFIX = "offset:";
+
+/**
+ * Slice of a list requested by connection arguments
+ */
+export interface ConnectionWindow {
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Encode a list offset as an opaque cursor
+ */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(`${CURSOR_PREFIX}${offset}`).toString("base64");
+}
+
+/**
+ * Decode a cursor back to its list offset
+ */
+export function decodeCursor(cursor: string): number {
+  const decoded = Buffer.from(cursor, "base64").toString("utf8");
+  const offset = Number(decoded.slice(CURSOR_PREFIX.length));
+
+  if (!decoded.startsWith(CURSOR_PREFIX) || !Number.isInteger(offset) || offset < 0) {
+    throw new UserInputError(ERROR_MESSAGES.INVALID_CURSOR);
+  }
+  return offset;
+}
+
+/**
+ * Validate connection arguments and resolve the slice they request
+ * Items start right after the `after` cursor (default first: 20, max: 100)
+ */
+export function getConnectionWindow(args: ConnectionArgs): ConnectionWindow {
+  const limit = args.first ?? CONNECTION_DEFAULT_FIRST;
+  if (!Number.isInteger(limit) || limit < 1 || limit > CONNECTION_MAX_FIRST) {
+    throw new UserInputError(ERROR_MESSAGES.INVALID_CONNECTION_FIRST);
+  }
+
+  const offset = args.after ? decodeCursor(args.after) + 1 : 0;
+  return { offset, limit };
+}
+
+/**
+ * Build a connection from one slice of nodes and the size of the whole list
+ */
+export function buildConnection<T>(
+  nodes: T[],
+  offset: number,
+  totalCount: number
+): Connection<T> {
+  const edges = nodes.map((node, index) => ({
+    cursor: encodeCursor(offset + index),
+    node,
+  }));
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: offset + nodes.length < totalCount,
+      hasPreviousPage: offset > 0,
+      startCursor: edges.length > 0 ? edges[0].cursor : null,
+      endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null,
+    },
+    totalCount,
+  };
+}
+
+/**
+ * Build a connection over a database list using a count and an offset query
+ */
+export async function paginateQuery<T>(
+  window: ConnectionWindow,
+  count: () => Promise<number>,
+  findPage: (skip: number, take: number) => Promise<T[]>
+): Promise<Connection<T>> {
+  const [totalCount, nodes] = await Promise.all([
+    count(),
+    findPage(window.offset, window.limit),
+  ]);
+  return buildConnection(nodes, window.offset, totalCount);
+}
+
+/**
+ * Fetch the TMDB pages covering a window and build a connection over them
+ * TMDB serves at most MAX_PAGES pages, so totalCount is capped accordingly
+ */
+export async function paginateTMDBList(
+  window: ConnectionWindow,
+  fetchPage: (page: number) => Promise<TMDBPagedResults>
+): Promise<Connection<unknown>> {
+  const firstPage = Math.floor(window.offset / TMDB_PAGE_SIZE) + 1;
+  const lastPage = Math.floor((window.offset + window.limit - 1) / TMDB_PAGE_SIZE) + 1;
+
+  // The first page also tells us how many pages exist
+  const first = await fetchPage(Math.min(firstPage, MAX_PAGES));
+  const totalCount = Math.min(first.totalResults, first.totalPages * TMDB_PAGE_SIZE);
+
+  if (firstPage > first.totalPages) {
+    return buildConnection([], window.offset, totalCount);
+  }
+
+  const remainingPages: number[] = [];
+  for (let page = firstPage + 1; page <= Math.min(lastPage, first.totalPages); page++) {
+    remainingPages.push(page);
+  }
+  const rest = await Promise.all(remainingPages.map((page) => fetchPage(page)));
+
+  const results = [first, ...rest].flatMap((page) => page.results);
+  const start = window.offset - (firstPage - 1) * TMDB_PAGE_SIZE;
+  return buildConnection(
+    results.slice(start, start + window.limit),
+    window.offset,
+    totalCount
+  );
+}
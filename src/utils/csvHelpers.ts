@@ -0,0 +1,91 @@
+/**
+ * Helper functions for CSV files (RFC 4180: quoted fields may contain commas, quotes and newlines)
+ */
+
+/**
+ * Parse CSV content into rows of fields
+ * Handles a leading byte order mark, CRLF line endings and blank lines
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+  const endRow = () => {
+    row.push(field);
+    // Skip blank lines
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+/**
+ * Parse CSV content with a header row into records keyed by column name
+ * Returns the header too, so callers can check for required columns
+ */
+export function parseCsvRecords(content: string): {
+  header: string[];
+  records: Array<Record<string, string>>;
+} {
+  const [header = [], ...rows] = parseCsv(content);
+  const columns = header.map((column) => column.trim());
+
+  const records = rows.map((fields) =>
+    Object.fromEntries(columns.map((column, index) => [column, (fields[index] ?? "").trim()]))
+  );
+  return { header: columns, records };
+}
+
+/**
+ * Quote a field when it contains a delimiter, quote or line break
+ * Text starting with a formula character gets a leading ' so spreadsheets don't run it (CSV injection)
+ */
+function formatCsvField(value: string | number | null): string {
+  if (value === null) {
+    return "";
+  }
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format rows of fields as CSV content (null fields are left empty)
+ */
+export function formatCsv(rows: Array<Array<string | number | null>>): string {
+  return rows.map((row) => row.map(formatCsvField).join(",")).join("\r\n") + "\r\n";
+}
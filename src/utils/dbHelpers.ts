@@ -1,6 +1,8 @@
 import { PrismaClient } from "@prisma/client";
 import { UserWithoutPassword } from "../types/resolvers";
 import { ERROR_MESSAGES } from "../constants";
+import { ForbiddenError, NotFoundError } from "./errors";
+import { generateShareSlug } from "./publicCollectionHelpers";
 
 /**
  * Fetch user by ID and exclude password
@@ -14,7 +16,7 @@ export async function getUserWithoutPassword(
   });
 
   if (!user) {
-    throw new Error(ERROR_MESSAGES.USER_NOT_FOUND);
+    throw new NotFoundError(ERROR_MESSAGES.USER_NOT_FOUND);
   }
 
   const { password: _, ...userWithoutPassword } = user;
@@ -79,6 +81,7 @@ export async function getOrCreateSavedMoviesCollection(
         name: "Saved Movies",
         description: "Movies you've saved",
         isPublic: false,
+        shareSlug: generateShareSlug("Saved Movies"),
         userId,
       },
     });
@@ -121,11 +124,11 @@ export async function verifyCollectionOwnership(
   });
 
   if (!collection) {
-    throw new Error(ERROR_MESSAGES.COLLECTION_NOT_FOUND);
+    throw new NotFoundError(ERROR_MESSAGES.COLLECTION_NOT_FOUND);
   }
 
   if (collection.userId !== userId) {
-    throw new Error(ERROR_MESSAGES.COLLECTION_NO_PERMISSION);
+    throw new ForbiddenError(ERROR_MESSAGES.COLLECTION_NO_PERMISSION);
   }
 
   return collection;
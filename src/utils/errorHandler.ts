@@ -1,7 +1,18 @@
+import { GraphQLError } from "graphql";
+import { ERROR_CODES } from "../constants";
+
+/**
+ * Normalize an error caught in a resolver
+ * Typed errors (with extensions.code) pass through unchanged; anything else is logged
+ * and replaced with an INTERNAL_SERVER_ERROR that doesn't leak internal details
+ */
 export function handleError(error: unknown, defaultMessage: string): Error {
-  if (error instanceof Error) {
-    return new Error(`${defaultMessage}: ${error.message}`);
+  if (error instanceof GraphQLError && error.extensions.code) {
+    return error;
   }
-  
-  return new Error(`${defaultMessage}: Unknown error`);
+
+  console.error(`${defaultMessage}:`, error);
+  return new GraphQLError(defaultMessage, {
+    extensions: { code: ERROR_CODES.INTERNAL_SERVER_ERROR },
+  });
 }
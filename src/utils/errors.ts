@@ -0,0 +1,63 @@
+/**
+ * Typed GraphQL errors
+ * Each class sets extensions.code so clients can branch on the code instead of the message
+ */
+
+import { GraphQLError } from "graphql";
+import { ERROR_CODES, ErrorCode } from "../constants";
+
+/**
+ * Base class for errors that are safe to show to clients
+ */
+export class AppError extends GraphQLError {
+  constructor(
+    message: string,
+    code: ErrorCode,
+    extensions: Record<string, unknown> = {}
+  ) {
+    super(message, { extensions: { ...extensions, code } });
+    this.name = "AppError";
+  }
+}
+
+export class AuthenticationError extends AppError {
+  constructor(message: string) {
+    super(message, ERROR_CODES.UNAUTHENTICATED, { http: { status: 401 } });
+    this.name = "AuthenticationError";
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string) {
+    super(message, ERROR_CODES.FORBIDDEN);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string) {
+    super(message, ERROR_CODES.NOT_FOUND);
+    this.name = "NotFoundError";
+  }
+}
+
+export class UserInputError extends AppError {
+  constructor(message: string) {
+    super(message, ERROR_CODES.BAD_USER_INPUT);
+    this.name = "UserInputError";
+  }
+}
+
+export class UpstreamTMDBError extends AppError {
+  constructor(message: string, status?: number) {
+    super(message, ERROR_CODES.UPSTREAM_TMDB_ERROR, status ? { upstreamStatus: status } : {});
+    this.name = "UpstreamTMDBError";
+  }
+}
+
+export class RateLimitError extends AppError {
+  constructor(message: string, extensions: Record<string, unknown> = {}) {
+    super(message, ERROR_CODES.RATE_LIMITED, extensions);
+    this.name = "RateLimitError";
+  }
+}
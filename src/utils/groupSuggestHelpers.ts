@@ -0,0 +1,216 @@
+/**
+ * Helper functions for the multi-user (group) suggest flow
+ */
+
+import { CategoryCounts, expandYearRange, topCounted } from "./suggestHelpers";
+
+export type GroupSuggestStrategy = "OVERLAP" | "FAIRNESS";
+
+/**
+ * One participant's normalized taste, built from their round selections
+ */
+export interface ParticipantProfile {
+  name: string;
+  // Weights sum to 1 so every participant counts equally regardless of how many movies they picked
+  genreWeights: Map<number, number>;
+  keywordWeights: Map<number, number>;
+  yearRange?: number[];
+}
+
+/**
+ * Merged group preferences used to discover candidates
+ */
+export interface GroupPreferences {
+  // Strategy actually used (OVERLAP falls back to FAIRNESS when nothing is shared)
+  strategy: GroupSuggestStrategy;
+  genres: number[];
+  yearRange?: number[];
+}
+
+/**
+ * Minimal TMDB discover result shape needed for scoring
+ */
+export interface ScorableMovie {
+  id: number;
+  genre_ids?: number[];
+  genres?: Array<{ id: number }>;
+  release_date?: string;
+}
+
+// Relative weight of each category in a participant's match score
+const GENRE_WEIGHT = 0.6;
+const ERA_WEIGHT = 0.25;
+const KEYWORD_WEIGHT = 0.15;
+
+// Years outside a participant's era after which the era score drops to 0
+const ERA_FALLOFF_YEARS = 20;
+
+function normalizeCounts(counts: Map<number, number>): Map<number, number> {
+  const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+  const weights = new Map<number, number>();
+  if (total === 0) {
+    return weights;
+  }
+  counts.forEach((count, id) => weights.set(id, count / total));
+  return weights;
+}
+
+function sumWeights(weightMaps: Map<number, number>[]): Map<number, number> {
+  const summed = new Map<number, number>();
+  weightMaps.forEach((weights) => {
+    weights.forEach((weight, id) => summed.set(id, (summed.get(id) || 0) + weight));
+  });
+  return summed;
+}
+
+/**
+ * Build a participant profile from their category counts
+ */
+export function buildParticipantProfile(
+  name: string,
+  counts: CategoryCounts
+): ParticipantProfile {
+  return {
+    name,
+    genreWeights: normalizeCounts(counts.genreCounts),
+    keywordWeights: normalizeCounts(counts.keywordCounts),
+    yearRange: expandYearRange(counts.years),
+  };
+}
+
+/**
+ * Merge participant profiles into the genres and era used to discover candidates
+ * (keywords only feed into scoring, see scoreMovieForProfile)
+ * OVERLAP keeps only genres every participant shares
+ * FAIRNESS guarantees each participant's favourite genre and blends the rest by equal-weighted preference
+ */
+export function mergeGroupPreferences(
+  profiles: ParticipantProfile[],
+  strategy: GroupSuggestStrategy
+): GroupPreferences {
+  const blendedGenres = sumWeights(profiles.map((p) => p.genreWeights));
+
+  if (strategy === "OVERLAP") {
+    const sharedGenres = topCounted(blendedGenres, blendedGenres.size).filter((id) =>
+      profiles.every((p) => p.genreWeights.has(id))
+    );
+
+    if (sharedGenres.length > 0) {
+      // Intersect era ranges; drop the era filter if they don't overlap
+      const ranges = profiles
+        .map((p) => p.yearRange)
+        .filter((range): range is number[] => !!range);
+      const start = Math.max(...ranges.map((range) => range[0]));
+      const end = Math.min(...ranges.map((range) => range[1]));
+
+      return {
+        strategy: "OVERLAP",
+        genres: sharedGenres.slice(0, 3),
+        yearRange: ranges.length > 0 && start <= end ? [start, end] : undefined,
+      };
+    }
+  }
+
+  // Every participant's favourite genre is represented, then fill with the blend
+  const genres: number[] = [];
+  profiles.forEach((p) => {
+    const [favourite] = topCounted(p.genreWeights, 1);
+    if (favourite !== undefined && !genres.includes(favourite)) {
+      genres.push(favourite);
+    }
+  });
+  topCounted(blendedGenres, blendedGenres.size).forEach((id) => {
+    if (genres.length < Math.max(3, profiles.length) && !genres.includes(id)) {
+      genres.push(id);
+    }
+  });
+
+  // Span every participant's era
+  const ranges = profiles
+    .map((p) => p.yearRange)
+    .filter((range): range is number[] => !!range);
+
+  return {
+    strategy: "FAIRNESS",
+    genres: genres.slice(0, 5),
+    yearRange:
+      ranges.length > 0
+        ? [
+            Math.min(...ranges.map((range) => range[0])),
+            Math.max(...ranges.map((range) => range[1])),
+          ]
+        : undefined,
+  };
+}
+
+/**
+ * Score how well a movie matches one participant's taste (0 to 1)
+ * Keyword matching is skipped when keywordIds is undefined (not fetched yet)
+ */
+export function scoreMovieForProfile(
+  movie: ScorableMovie,
+  profile: ParticipantProfile,
+  keywordIds?: number[]
+): number {
+  const movieGenres = movie.genre_ids || movie.genres?.map((g) => g.id) || [];
+
+  // Compare against the best possible score for a movie with this many genres
+  let genreScore = 0;
+  if (movieGenres.length > 0 && profile.genreWeights.size > 0) {
+    const matched = movieGenres.reduce(
+      (sum, id) => sum + (profile.genreWeights.get(id) || 0),
+      0
+    );
+    const best = Array.from(profile.genreWeights.values())
+      .sort((a, b) => b - a)
+      .slice(0, movieGenres.length)
+      .reduce((sum, weight) => sum + weight, 0);
+    genreScore = best > 0 ? matched / best : 0;
+  }
+
+  let eraScore = 0.5; // Neutral when either year is unknown
+  const year = movie.release_date ? parseInt(movie.release_date.substring(0, 4), 10) : NaN;
+  if (profile.yearRange && !isNaN(year)) {
+    const [start, end] = profile.yearRange;
+    const distance = year < start ? start - year : year > end ? year - end : 0;
+    eraScore = Math.max(0, 1 - distance / ERA_FALLOFF_YEARS);
+  }
+
+  if (keywordIds === undefined) {
+    return (GENRE_WEIGHT * genreScore + ERA_WEIGHT * eraScore) / (GENRE_WEIGHT + ERA_WEIGHT);
+  }
+
+  let keywordScore = 0;
+  if (profile.keywordWeights.size > 0) {
+    const matched = keywordIds.reduce(
+      (sum, id) => sum + (profile.keywordWeights.get(id) || 0),
+      0
+    );
+    const best = Array.from(profile.keywordWeights.values())
+      .sort((a, b) => b - a)
+      .slice(0, 5)
+      .reduce((sum, weight) => sum + weight, 0);
+    keywordScore = best > 0 ? Math.min(1, matched / best) : 0;
+  }
+
+  return GENRE_WEIGHT * genreScore + ERA_WEIGHT * eraScore + KEYWORD_WEIGHT * keywordScore;
+}
+
+/**
+ * Combine participant scores into a group score
+ * FAIRNESS blends the average with the lowest score so nobody is left out
+ */
+export function calculateGroupScore(
+  scores: number[],
+  strategy: GroupSuggestStrategy
+): number {
+  if (scores.length === 0) {
+    return 0;
+  }
+
+  const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  if (strategy === "OVERLAP") {
+    return average;
+  }
+  return 0.5 * average + 0.5 * Math.min(...scores);
+}
@@ -0,0 +1,360 @@
+/**
+ * Helper functions for importing Letterboxd and IMDb CSV exports
+ * Rows are matched to TMDB movies by IMDb ID when the file has one, otherwise by title and year
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { TMDBDataSource } from "../datasources/tmdb";
+import { Movie } from "../types";
+import {
+  ImportFormat,
+  ImportReport,
+  UnmatchedImportRow,
+} from "../types/resolvers";
+import {
+  ERROR_MESSAGES,
+  IMPORT_MAX_ROWS,
+  MAX_RATING,
+  MIN_RATING,
+} from "../constants";
+import { parseCsvRecords } from "./csvHelpers";
+import { transformTMDBMovie, TMDBMovieResponse } from "./transformers";
+import { getOrCreateSavedMoviesCollection } from "./dbHelpers";
+import { UserInputError } from "./errors";
+
+/**
+ * One parsed row, before matching
+ */
+interface ImportRow {
+  row: number; // 1-based position among the file's data rows
+  title: string | null;
+  year: number | null;
+  imdbId: string | null;
+  rating: number | null; // Already on our MIN_RATING-MAX_RATING scale
+  watchedAt: Date | null;
+}
+
+interface MatchedImportRow extends ImportRow {
+  movie: Movie;
+}
+
+interface FormatSpec {
+  requiredColumns: string[];
+  // Source rating scale, for formats with ratings
+  ratingScale?: { min: number; max: number };
+  // Returns an unmatched reason instead of a row when the row can't be used
+  parseRow: (record: Record<string, string>, row: number) => ImportRow | UnmatchedImportRow;
+}
+
+const UNMATCHED_REASONS = {
+  MISSING_TITLE: "Missing title",
+  INVALID_RATING: "Invalid rating",
+  INVALID_DATE: "Invalid watched date",
+  NO_MATCH: "No matching TMDB movie",
+  LOOKUP_FAILED: "TMDB lookup failed",
+};
+
+const LETTERBOXD_RATING_SCALE = { min: 0.5, max: 5 };
+const IMDB_RATING_SCALE = { min: 1, max: 10 };
+
+/**
+ * Map a rating between scales, by default from a source scale onto MIN_RATING-MAX_RATING
+ * (e.g. 0.5-5 stars onto 1-10)
+ */
+export function scaleRating(
+  value: number,
+  from: { min: number; max: number },
+  to: { min: number; max: number } = { min: MIN_RATING, max: MAX_RATING }
+): number {
+  const fraction = (value - from.min) / (from.max - from.min);
+  return Math.round(to.min + fraction * (to.max - to.min));
+}
+
+function parseYear(value: string | undefined): number | null {
+  const year = Number(value);
+  return value && Number.isInteger(year) ? year : null;
+}
+
+function toUnmatched(row: ImportRow, reason: string): UnmatchedImportRow {
+  return { row: row.row, title: row.title, year: row.year, imdbId: row.imdbId, reason };
+}
+
+/**
+ * Parse the row fields shared by every format, then the optional rating and watch date
+ */
+function parseRowWith(
+  base: Omit<ImportRow, "rating" | "watchedAt">,
+  ratingValue: string | undefined,
+  ratingScale: { min: number; max: number } | undefined,
+  watchedAtValue?: string
+): ImportRow | UnmatchedImportRow {
+  const row: ImportRow = { ...base, rating: null, watchedAt: null };
+  if (!row.title && !row.imdbId) {
+    return toUnmatched(row, UNMATCHED_REASONS.MISSING_TITLE);
+  }
+
+  if (ratingScale && ratingValue) {
+    const value = Number(ratingValue);
+    if (Number.isNaN(value) || value < ratingScale.min || value > ratingScale.max) {
+      return toUnmatched(row, UNMATCHED_REASONS.INVALID_RATING);
+    }
+    row.rating = scaleRating(value, ratingScale);
+  }
+
+  if (watchedAtValue !== undefined) {
+    const watchedAt = new Date(watchedAtValue);
+    if (!watchedAtValue || isNaN(watchedAt.getTime())) {
+      return toUnmatched(row, UNMATCHED_REASONS.INVALID_DATE);
+    }
+    row.watchedAt = watchedAt;
+  }
+
+  return row;
+}
+
+function parseLetterboxdBase(record: Record<string, string>, row: number) {
+  return {
+    row,
+    title: record["Name"] || null,
+    year: parseYear(record["Year"]),
+    imdbId: null,
+  };
+}
+
+const FORMATS: Record<ImportFormat, FormatSpec> = {
+  // ratings.csv: Date, Name, Year, Letterboxd URI, Rating
+  LETTERBOXD_RATINGS: {
+    requiredColumns: ["Name", "Year", "Rating"],
+    ratingScale: LETTERBOXD_RATING_SCALE,
+    parseRow: (record, row) =>
+      parseRowWith(parseLetterboxdBase(record, row), record["Rating"], LETTERBOXD_RATING_SCALE),
+  },
+  // watchlist.csv: Date, Name, Year, Letterboxd URI
+  LETTERBOXD_WATCHLIST: {
+    requiredColumns: ["Name", "Year"],
+    parseRow: (record, row) => parseRowWith(parseLetterboxdBase(record, row), undefined, undefined),
+  },
+  // diary.csv: Date, Name, Year, Letterboxd URI, Rating, Rewatch, Tags, Watched Date
+  // Each row is one watch; the rating is optional
+  LETTERBOXD_DIARY: {
+    requiredColumns: ["Name", "Year", "Watched Date"],
+    ratingScale: LETTERBOXD_RATING_SCALE,
+    parseRow: (record, row) =>
+      parseRowWith(
+        parseLetterboxdBase(record, row),
+        record["Rating"],
+        LETTERBOXD_RATING_SCALE,
+        record["Watched Date"]
+      ),
+  },
+  // IMDb ratings export: Const, Your Rating, Date Rated, Title, URL, Title Type, ..., Year, ...
+  IMDB_RATINGS: {
+    requiredColumns: ["Const", "Your Rating"],
+    ratingScale: IMDB_RATING_SCALE,
+    parseRow: (record, row) =>
+      parseRowWith(
+        {
+          row,
+          title: record["Title"] || null,
+          year: parseYear(record["Year"]),
+          imdbId: record["Const"] || null,
+        },
+        record["Your Rating"],
+        IMDB_RATING_SCALE
+      ),
+  },
+};
+
+/**
+ * Parse a file into rows, validating its columns and size
+ */
+function parseImportFile(
+  format: ImportFormat,
+  fileContent: string
+): Array<ImportRow | UnmatchedImportRow> {
+  const spec = FORMATS[format];
+  const { header, records } = parseCsvRecords(fileContent);
+
+  if (records.length === 0) {
+    throw new UserInputError(ERROR_MESSAGES.IMPORT_EMPTY_FILE);
+  }
+  if (records.length > IMPORT_MAX_ROWS) {
+    throw new UserInputError(ERROR_MESSAGES.IMPORT_TOO_MANY_ROWS);
+  }
+  const missing = spec.requiredColumns.filter((column) => !header.includes(column));
+  if (missing.length > 0) {
+    throw new UserInputError(`${ERROR_MESSAGES.IMPORT_MISSING_COLUMNS}: ${missing.join(", ")}`);
+  }
+
+  return records.map((record, index) => spec.parseRow(record, index + 1));
+}
+
+/**
+ * Find the TMDB movie for a row, by IMDb ID or by title and release year
+ */
+async function findTmdbMovie(tmdb: TMDBDataSource, row: ImportRow): Promise<Movie | null> {
+  if (row.imdbId) {
+    const result = await tmdb.findMovieByImdbId(row.imdbId);
+    return result ? transformTMDBMovie(result as TMDBMovieResponse) : null;
+  }
+
+  const results = await tmdb.searchMovies(
+    row.title as string,
+    1,
+    row.year ? { primaryReleaseYear: row.year } : undefined
+  );
+  return results.length > 0 ? transformTMDBMovie(results[0] as TMDBMovieResponse) : null;
+}
+
+/**
+ * Match rows to TMDB movies, looking each distinct movie up once
+ */
+async function matchRows(
+  tmdb: TMDBDataSource,
+  rows: ImportRow[]
+): Promise<{ matched: MatchedImportRow[]; unmatched: UnmatchedImportRow[] }> {
+  const lookups = new Map<string, Promise<Movie | null>>();
+  const matched: MatchedImportRow[] = [];
+  const unmatched: UnmatchedImportRow[] = [];
+
+  await Promise.all(
+    rows.map(async (row) => {
+      const key = row.imdbId ?? `${row.title?.toLowerCase()}|${row.year ?? ""}`;
+      let lookup = lookups.get(key);
+      if (!lookup) {
+        lookup = findTmdbMovie(tmdb, row);
+        lookups.set(key, lookup);
+      }
+
+      try {
+        const movie = await lookup;
+        if (movie) {
+          matched.push({ ...row, movie });
+        } else {
+          unmatched.push(toUnmatched(row, UNMATCHED_REASONS.NO_MATCH));
+        }
+      } catch (error) {
+        unmatched.push(toUnmatched(row, UNMATCHED_REASONS.LOOKUP_FAILED));
+      }
+    })
+  );
+
+  // Lookups finish in any order; report in file order
+  matched.sort((a, b) => a.row - b.row);
+  return { matched, unmatched };
+}
+
+/**
+ * Save ratings, keeping the last row in the file for each movie
+ * Imported ratings replace existing ones
+ */
+async function importRatings(
+  prisma: PrismaClient,
+  userId: number,
+  rows: MatchedImportRow[]
+): Promise<number> {
+  const ratings = new Map<number, number>();
+  for (const row of rows) {
+    if (row.rating !== null) {
+      ratings.set(row.movie.id, row.rating);
+    }
+  }
+
+  await prisma.$transaction(
+    [...ratings].map(([tmdbId, rating]) =>
+      prisma.rating.upsert({
+        where: { userId_tmdbId: { userId, tmdbId } },
+        update: { rating },
+        create: { userId, tmdbId, rating },
+      })
+    )
+  );
+  return ratings.size;
+}
+
+/**
+ * Add movies to the "Saved Movies" collection, skipping ones already saved
+ */
+async function importSavedMovies(
+  prisma: PrismaClient,
+  userId: number,
+  rows: MatchedImportRow[]
+): Promise<number> {
+  const collection = await getOrCreateSavedMoviesCollection(prisma, userId);
+  const { count } = await prisma.collectionMovie.createMany({
+    data: rows.map((row) => ({ collectionId: collection.id, tmdbId: row.movie.id })),
+    skipDuplicates: true,
+  });
+  return count;
+}
+
+/**
+ * Record diary watches, skipping ones already in the watch history
+ * so importing the same diary twice doesn't double count
+ */
+async function importWatches(
+  prisma: PrismaClient,
+  userId: number,
+  rows: MatchedImportRow[]
+): Promise<number> {
+  const existing = await prisma.movieHistory.findMany({
+    where: { userId, movieId: { in: rows.map((row) => row.movie.id) } },
+    select: { movieId: true, watchedAt: true },
+  });
+  const seen = new Set(existing.map((entry) => `${entry.movieId}|${entry.watchedAt.getTime()}`));
+
+  const data = [];
+  for (const row of rows) {
+    const watchedAt = row.watchedAt as Date;
+    const key = `${row.movie.id}|${watchedAt.getTime()}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      data.push({
+        userId,
+        movieId: row.movie.id,
+        title: row.movie.title,
+        posterUrl: row.movie.posterUrl ?? null,
+        watchedAt,
+      });
+    }
+  }
+
+  const { count } = await prisma.movieHistory.createMany({ data });
+  return count;
+}
+
+/**
+ * Import a Letterboxd or IMDb export into a user's library
+ * Ratings go to Rating, the watchlist to "Saved Movies", and diary entries to the watch history
+ */
+export async function importLibrary(
+  prisma: PrismaClient,
+  tmdb: TMDBDataSource,
+  userId: number,
+  format: ImportFormat,
+  fileContent: string
+): Promise<ImportReport> {
+  const parsed = parseImportFile(format, fileContent);
+  const rows = parsed.filter((row): row is ImportRow => !("reason" in row));
+  const invalid = parsed.filter((row): row is UnmatchedImportRow => "reason" in row);
+
+  const { matched, unmatched } = await matchRows(tmdb, rows);
+
+  const ratingsImported = FORMATS[format].ratingScale
+    ? await importRatings(prisma, userId, matched)
+    : 0;
+  const savedMoviesImported =
+    format === "LETTERBOXD_WATCHLIST" ? await importSavedMovies(prisma, userId, matched) : 0;
+  const watchesImported =
+    format === "LETTERBOXD_DIARY" ? await importWatches(prisma, userId, matched) : 0;
+
+  return {
+    format,
+    totalRows: parsed.length,
+    matchedRows: matched.length,
+    ratingsImported,
+    savedMoviesImported,
+    watchesImported,
+    unmatched: [...invalid, ...unmatched].sort((a, b) => a.row - b.row),
+  };
+}
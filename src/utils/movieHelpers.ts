@@ -10,7 +10,7 @@ import {
  */
 export async function fetchMovieFromTMDB(
   tmdbId: number,
-  context: Context
+  context: Pick<Context, "tmdb">
 ): Promise<Movie | null> {
   try {
     const tmdbMovie = await context.tmdb.getMovie(tmdbId);
@@ -0,0 +1,157 @@
+/**
+ * Helper functions for group movie night sessions
+ */
+
+import { randomInt } from "crypto";
+import { MovieNight, NominationSource, PrismaClient } from "@prisma/client";
+import { Movie } from "../types";
+import {
+  ERROR_MESSAGES,
+  MOVIE_NIGHT_JOIN_CODE_LENGTH,
+  MOVIE_NIGHT_MAX_CANDIDATES,
+} from "../constants";
+import { ForbiddenError, NotFoundError, UserInputError } from "./errors";
+
+// Excludes easily confused characters (0/O, 1/I/L)
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+/**
+ * Generate a join code that is not used by another movie night
+ */
+export async function generateJoinCode(prisma: PrismaClient): Promise<string> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    let code = "";
+    for (let i = 0; i < MOVIE_NIGHT_JOIN_CODE_LENGTH; i++) {
+      code += JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)];
+    }
+
+    const existing = await prisma.movieNight.findUnique({
+      where: { joinCode: code },
+      select: { id: true },
+    });
+    if (!existing) {
+      return code;
+    }
+  }
+
+  throw new Error("Failed to generate a unique join code");
+}
+
+/**
+ * Verify movie night exists and user is a participant
+ * Throws error if access denied
+ */
+export async function verifyMovieNightParticipant(
+  prisma: PrismaClient,
+  movieNightId: number,
+  userId: number
+): Promise<MovieNight> {
+  const movieNight = await prisma.movieNight.findUnique({
+    where: { id: movieNightId },
+  });
+
+  if (!movieNight) {
+    throw new NotFoundError(ERROR_MESSAGES.MOVIE_NIGHT_NOT_FOUND);
+  }
+
+  const participant = await prisma.movieNightParticipant.findUnique({
+    where: {
+      movieNightId_userId: {
+        movieNightId,
+        userId,
+      },
+    },
+  });
+
+  if (!participant) {
+    throw new ForbiddenError(ERROR_MESSAGES.MOVIE_NIGHT_NO_ACCESS);
+  }
+
+  return movieNight;
+}
+
+/**
+ * Throw if the movie night no longer accepts changes
+ */
+export function assertMovieNightOpen(movieNight: MovieNight): void {
+  if (movieNight.status !== "OPEN") {
+    throw new UserInputError(ERROR_MESSAGES.MOVIE_NIGHT_CLOSED);
+  }
+}
+
+/**
+ * Throw if the user is not the host of the movie night
+ */
+export function assertMovieNightHost(movieNight: MovieNight, userId: number): void {
+  if (movieNight.hostId !== userId) {
+    throw new ForbiddenError(ERROR_MESSAGES.MOVIE_NIGHT_HOST_ONLY);
+  }
+}
+
+/**
+ * Nominate movies for a movie night, skipping movies that are already nominated
+ * Returns the candidates for all given movies (new and existing)
+ */
+export async function nominateMovies(
+  prisma: PrismaClient,
+  movieNightId: number,
+  userId: number,
+  movies: Pick<Movie, "id" | "title" | "posterUrl">[],
+  source: NominationSource
+) {
+  const existing = await prisma.movieNightCandidate.findMany({
+    where: { movieNightId },
+    select: { tmdbId: true },
+  });
+  const existingIds = new Set(existing.map((candidate) => candidate.tmdbId));
+
+  const newMovies = movies.filter((movie) => !existingIds.has(movie.id));
+  if (existingIds.size + newMovies.length > MOVIE_NIGHT_MAX_CANDIDATES) {
+    throw new UserInputError(ERROR_MESSAGES.MOVIE_NIGHT_CANDIDATE_LIMIT);
+  }
+
+  if (newMovies.length > 0) {
+    await prisma.movieNightCandidate.createMany({
+      data: newMovies.map((movie) => ({
+        movieNightId,
+        tmdbId: movie.id,
+        title: movie.title,
+        posterUrl: movie.posterUrl ?? null,
+        source,
+        nominatedById: userId,
+      })),
+      skipDuplicates: true, // Another participant may nominate the same movie concurrently
+    });
+  }
+
+  return prisma.movieNightCandidate.findMany({
+    where: {
+      movieNightId,
+      tmdbId: { in: movies.map((movie) => movie.id) },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Pick the candidate with the most votes
+ * Ties go to the earliest nomination
+ */
+export async function pickWinningCandidate(
+  prisma: PrismaClient,
+  movieNightId: number
+) {
+  const candidates = await prisma.movieNightCandidate.findMany({
+    where: { movieNightId },
+    include: { _count: { select: { votes: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (candidates.length === 0) {
+    throw new UserInputError(ERROR_MESSAGES.MOVIE_NIGHT_NO_CANDIDATES);
+  }
+
+  return candidates.reduce((best, candidate) =>
+    candidate._count.votes > best._count.votes ? candidate : best
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * Helper functions for user preferences
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { Context } from "../context";
+import { TMDBOptions } from "../types";
+import { requireAuth } from "./authHelpers";
+import { ERROR_MESSAGES } from "../constants";
+import { UserInputError } from "./errors";
+
+/**
+ * Get a user's preferences, returning empty defaults if none are saved
+ */
+export async function getUserPreferences(prisma: PrismaClient, userId: number) {
+  const preferences = await prisma.userPreferences.findUnique({
+    where: { userId },
+  });
+
+  return (
+    preferences ?? {
+      id: 0,
+      region: null,
+      watchProviderIds: [],
+      language: null,
+      includeAdult: null,
+      voteCountGte: null,
+      voteAverageGte: null,
+      withOriginalLanguage: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      userId,
+    }
+  );
+}
+
+/**
+ * Get TMDB options restricting results to the user's streaming services
+ * Returns undefined unless onlyMyServices is set; requires authentication and saved services when it is
+ * watchProviders: An explicit provider filter from the same query, which can't be combined with onlyMyServices
+ */
+export async function getMyServicesOptions(
+  context: Context,
+  onlyMyServices?: boolean | null,
+  watchProviders?: string | null
+): Promise<TMDBOptions | undefined> {
+  if (!onlyMyServices) {
+    return undefined;
+  }
+
+  // Both end up in with_watch_providers, so one would silently replace the other
+  if (watchProviders) {
+    throw new UserInputError(ERROR_MESSAGES.MY_SERVICES_WITH_WATCH_PROVIDERS);
+  }
+
+  requireAuth(context);
+  const preferences = context.preferences;
+
+  if (!preferences || preferences.watchProviderIds.length === 0) {
+    throw new UserInputError(ERROR_MESSAGES.NO_STREAMING_SERVICES);
+  }
+
+  // Pipe means OR: available on any of the user's services
+  return {
+    withWatchProviders: preferences.watchProviderIds.join("|"),
+    ...(preferences.region && { watchRegion: preferences.region }),
+  };
+}
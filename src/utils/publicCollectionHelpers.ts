@@ -0,0 +1,190 @@
+/**
+ * Helper functions for sharing public collections: share slugs, the discovery feed and copies
+ */
+
+import { randomBytes } from "crypto";
+import { Collection, Prisma, PrismaClient } from "@prisma/client";
+import { TMDBDataSource } from "../datasources/tmdb";
+import { Connection } from "../types";
+import { BrowsePublicCollectionsArgs } from "../types/resolvers";
+import { getConnectionWindow, paginateQuery } from "./connectionHelpers";
+import { TMDBMovieResponse } from "./transformers";
+import { NotFoundError } from "./errors";
+
+const SHARE_SLUG_MAX_NAME_LENGTH = 50;
+const SHARE_SLUG_SUFFIX_BYTES = 4;
+const GENRE_BACKFILL_BATCH_SIZE = 100;
+
+/**
+ * Lowercase a name into dash-separated ASCII words (empty if nothing is left)
+ */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Generate a share slug for a new collection: its slugified name plus a random suffix
+ * The slug is never regenerated, so shared links survive renames
+ */
+export function generateShareSlug(name: string): string {
+  const base = slugify(name).slice(0, SHARE_SLUG_MAX_NAME_LENGTH).replace(/-+$/, "") || "collection";
+  return `${base}-${randomBytes(SHARE_SLUG_SUFFIX_BYTES).toString("hex")}`;
+}
+
+/**
+ * Genre fields to store on a new CollectionMovie
+ * genresSyncedAt stays null if TMDB can't be reached, so the movie is picked up by a later backfill
+ * (a movie TMDB no longer has counts as synced with no genres)
+ */
+export async function getCollectionMovieGenres(
+  tmdb: TMDBDataSource,
+  tmdbId: number
+): Promise<{ genreIds: number[]; genresSyncedAt: Date | null }> {
+  try {
+    const movie = (await tmdb.getMovie(tmdbId, undefined, false)) as TMDBMovieResponse;
+    return { genreIds: movie.genres?.map((genre) => genre.id) ?? [], genresSyncedAt: new Date() };
+  } catch (error) {
+    return { genreIds: [], genresSyncedAt: error instanceof NotFoundError ? new Date() : null };
+  }
+}
+
+/**
+ * Store genres for collection movies that haven't been synced yet
+ * Movies TMDB couldn't be reached for stay unsynced and are retried by the next backfill
+ */
+async function syncCollectionMovieGenres(
+  prisma: PrismaClient,
+  tmdb: TMDBDataSource,
+  movies: Array<{ id: number; tmdbId: number }>
+): Promise<number> {
+  const synced = await Promise.all(
+    movies.map(async (movie) => {
+      const data = await getCollectionMovieGenres(tmdb, movie.tmdbId);
+      if (!data.genresSyncedAt) {
+        return false;
+      }
+      await prisma.collectionMovie.update({ where: { id: movie.id }, data });
+      return true;
+    })
+  );
+  return synced.filter(Boolean).length;
+}
+
+/**
+ * Sync the unsynced collection movies matching a filter, in batches
+ * Returns the number of movies synced
+ */
+async function backfillGenres(
+  prisma: PrismaClient,
+  tmdb: TMDBDataSource,
+  where: Prisma.CollectionMovieWhereInput
+): Promise<number> {
+  let lastId = 0;
+  let synced = 0;
+
+  for (;;) {
+    const movies = await prisma.collectionMovie.findMany({
+      where: { ...where, id: { gt: lastId }, genresSyncedAt: null },
+      select: { id: true, tmdbId: true },
+      orderBy: { id: "asc" },
+      take: GENRE_BACKFILL_BATCH_SIZE,
+    });
+    if (movies.length === 0) {
+      return synced;
+    }
+
+    synced += await syncCollectionMovieGenres(prisma, tmdb, movies);
+    lastId = movies[movies.length - 1].id;
+  }
+}
+
+/**
+ * Fill in genres for a collection's movies added before genres were stored,
+ * by an import, or while TMDB was unavailable
+ * Returns the number of movies synced
+ */
+export async function backfillCollectionGenres(
+  prisma: PrismaClient,
+  tmdb: TMDBDataSource,
+  collectionId: number
+): Promise<number> {
+  return backfillGenres(prisma, tmdb, { collectionId });
+}
+
+/**
+ * Fill in genres for every public collection's unsynced movies
+ * Run in the background at startup so the feed's genre filter covers existing collections
+ * Returns the number of movies synced
+ */
+export async function backfillPublicCollectionGenres(
+  prisma: PrismaClient,
+  tmdb: TMDBDataSource
+): Promise<number> {
+  return backfillGenres(prisma, tmdb, { collection: { isPublic: true } });
+}
+
+/**
+ * Page through public collections, most recently updated or most followed first
+ * search matches the name or description; genre keeps collections with a movie in that TMDB genre
+ */
+export async function browsePublicCollections(
+  prisma: PrismaClient,
+  args: BrowsePublicCollectionsArgs
+): Promise<Connection<Collection>> {
+  const window = getConnectionWindow(args);
+  const search = args.search?.trim();
+
+  const where: Prisma.CollectionWhereInput = {
+    isPublic: true,
+    ...(search && {
+      OR: [
+        { name: { contains: search, mode: "insensitive" } },
+        { description: { contains: search, mode: "insensitive" } },
+      ],
+    }),
+    ...(args.genre !== undefined &&
+      args.genre !== null && {
+        movies: { some: { genreIds: { has: args.genre } } },
+      }),
+  };
+  const orderBy: Prisma.CollectionOrderByWithRelationInput[] =
+    args.sort === "MOST_FOLLOWED"
+      ? [{ followers: { _count: "desc" } }, { updatedAt: "desc" }, { id: "desc" }]
+      : [{ updatedAt: "desc" }, { id: "desc" }];
+
+  return paginateQuery(
+    window,
+    () => prisma.collection.count({ where }),
+    (skip, take) => prisma.collection.findMany({ where, orderBy, skip, take })
+  );
+}
+
+/**
+ * Copy a collection and its movies into a user's account as a new private collection
+ * The copy is always renamed so it can't take the place of the user's "Saved Movies"
+ */
+export async function copyCollection(
+  prisma: PrismaClient,
+  source: Pick<Collection, "id" | "name" | "description">,
+  userId: number
+): Promise<Collection> {
+  const movies = await prisma.collectionMovie.findMany({
+    where: { collectionId: source.id },
+    select: { tmdbId: true, genreIds: true, genresSyncedAt: true },
+  });
+  const name = `${source.name} (copy)`;
+
+  return prisma.collection.create({
+    data: {
+      name,
+      description: source.description,
+      isPublic: false,
+      shareSlug: generateShareSlug(name),
+      userId,
+      movies: { create: movies },
+    },
+  });
+}
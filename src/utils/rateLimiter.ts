@@ -0,0 +1,99 @@
+/**
+ * Fixed-window rate limiter keyed by user ID or client IP
+ * Counters are kept in memory, so limits apply per server instance
+ */
+
+import { Request } from "express";
+import { extractTokenFromHeader, verifyToken } from "./auth";
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the current window resets
+  resetSeconds: number;
+}
+
+interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+export class RateLimiter {
+  private windows = new Map<string, RateLimitWindow>();
+  private lastSweep = Date.now();
+
+  constructor(
+    readonly name: string,
+    private readonly maxRequests: number,
+    private readonly windowMs: number
+  ) {}
+
+  /**
+   * Count requests against a key (one unless a cost is given)
+   */
+  consume(key: string, cost: number = 1): RateLimitResult {
+    const now = Date.now();
+    this.sweep(now);
+
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+    window.count += cost;
+
+    return {
+      allowed: window.count <= this.maxRequests,
+      limit: this.maxRequests,
+      remaining: Math.max(0, this.maxRequests - window.count),
+      resetSeconds: Math.ceil((window.resetAt - now) / 1000),
+    };
+  }
+
+  /**
+   * Drop expired windows at most once per window length
+   */
+  private sweep(now: number): void {
+    if (now - this.lastSweep < this.windowMs) {
+      return;
+    }
+    this.lastSweep = now;
+    this.windows.forEach((window, key) => {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * Standard rate limit response headers (IETF RateLimit fields plus Retry-After when limited)
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(result.resetSeconds),
+    ...(!result.allowed && { "Retry-After": String(result.resetSeconds) }),
+  };
+}
+
+/**
+ * Rate limit key for a request: the user ID when a valid token is sent, otherwise the client IP
+ */
+export function getRateLimitKey(req: Request, userId?: number | null): string {
+  if (userId) {
+    return `user:${userId}`;
+  }
+
+  const token = extractTokenFromHeader(req.headers.authorization);
+  if (token) {
+    try {
+      return `user:${verifyToken(token).userId}`;
+    } catch (error) {
+      // Invalid token, fall back to the IP
+    }
+  }
+  return `ip:${req.ip || req.socket.remoteAddress || "unknown"}`;
+}
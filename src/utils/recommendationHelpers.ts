@@ -0,0 +1,393 @@
+/**
+ * Helper functions for personalized recommendations
+ */
+
+import { Context } from "../context";
+import { TMDBOptions } from "../types";
+import { buildDiscoverParams } from "./discoverHelpers";
+import { getExcludedWatchedIds } from "./watchHistoryHelpers";
+import { MIN_RATING, MAX_RATING, RECOMMENDATION_PROFILE_MAX_MOVIES } from "../constants";
+
+export type RecommendationReasonType = "GENRE" | "KEYWORD" | "CAST" | "CREW" | "ERA";
+
+/**
+ * Weighted taste features, keyed by ID (decade start year for eras)
+ * Weights are normalized to -1..1 per feature type
+ */
+export interface TasteProfile {
+  genres: Map<number, number>;
+  keywords: Map<number, number>;
+  cast: Map<number, number>;
+  crew: Map<number, number>;
+  eras: Map<number, number>;
+  // Display names for reasons, keyed by `${type}:${id}`
+  names: Map<string, string>;
+  // Movies the profile was built from (excluded from recommendations)
+  sourceMovieIds: Set<number>;
+}
+
+export interface RecommendationReason {
+  type: RecommendationReasonType;
+  id: number;
+  name: string;
+  weight: number;
+}
+
+export interface ScoredRecommendation {
+  movie: Record<string, unknown> & { id: number };
+  score: number;
+  reasons: RecommendationReason[];
+}
+
+// Signal weights for movies without a rating
+const COLLECTED_WEIGHT = 0.6;
+const REVIEWED_WEIGHT = 0.5;
+
+// Relative weight of each feature type in a candidate's score
+const FEATURE_WEIGHTS: Record<RecommendationReasonType, number> = {
+  GENRE: 0.35,
+  KEYWORD: 0.25,
+  CAST: 0.15,
+  CREW: 0.15,
+  ERA: 0.1,
+};
+
+// Only the top-billed cast and key crew jobs shape the profile
+const PROFILE_CAST_LIMIT = 5;
+const PROFILE_CREW_JOBS = ["Director", "Screenplay", "Writer"];
+
+const MAX_REASONS = 3;
+
+interface MovieFeatures {
+  genres: Array<{ id: number; name: string }>;
+  keywords: Array<{ id: number; name: string }>;
+  cast: Array<{ id: number; name: string }>;
+  crew: Array<{ id: number; name: string }>;
+  decade?: number;
+}
+
+/**
+ * Convert a rating to a signal weight (-1 to 1), negative below the midpoint of the scale
+ */
+function ratingToWeight(rating: number): number {
+  const midpoint = (MIN_RATING + MAX_RATING) / 2;
+  return (rating - midpoint) / (MAX_RATING - midpoint);
+}
+
+function getDecade(releaseDate?: string | null): number | undefined {
+  const year = releaseDate ? parseInt(releaseDate.substring(0, 4), 10) : NaN;
+  return isNaN(year) ? undefined : Math.floor(year / 10) * 10;
+}
+
+function addWeight(weights: Map<number, number>, id: number, weight: number) {
+  weights.set(id, (weights.get(id) || 0) + weight);
+}
+
+function normalizeWeights(weights: Map<number, number>) {
+  const max = Math.max(0, ...Array.from(weights.values()).map(Math.abs));
+  if (max > 0) {
+    weights.forEach((weight, id) => weights.set(id, weight / max));
+  }
+}
+
+/**
+ * Fetch the genres, keywords, credits and decade of a movie
+ * Returns null if the movie can't be fetched
+ */
+async function fetchMovieFeatures(
+  movieId: number,
+  context: Context
+): Promise<MovieFeatures | null> {
+  try {
+    const [movie, keywordData] = await Promise.all([
+      context.tmdb.getMovie(movieId, undefined, true),
+      context.tmdb.getMovieKeywords(movieId).catch(() => ({ keywords: [] })),
+    ]);
+    const details = movie as {
+      genres?: Array<{ id: number; name: string }>;
+      release_date?: string | null;
+      credits?: {
+        cast?: Array<{ id: number; name: string; order?: number | null }>;
+        crew?: Array<{ id: number; name: string; job?: string | null }>;
+      };
+    };
+
+    return {
+      genres: details.genres || [],
+      keywords: keywordData.keywords || [],
+      cast: (details.credits?.cast || []).slice(0, PROFILE_CAST_LIMIT),
+      crew: (details.credits?.crew || []).filter(
+        (member) => member.job && PROFILE_CREW_JOBS.includes(member.job)
+      ),
+      decade: getDecade(details.release_date),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a user's taste profile from their ratings, reviews and collections
+ * Ratings dominate; low ratings push features down, collected and reviewed movies push them up
+ */
+export async function buildTasteProfile(
+  context: Context,
+  userId: number
+): Promise<TasteProfile> {
+  const [ratings, reviews, collectionMovies] = await Promise.all([
+    context.prisma.rating.findMany({
+      where: { userId },
+      orderBy: { updatedAt: "desc" },
+      select: { tmdbId: true, rating: true },
+    }),
+    context.prisma.review.findMany({
+      where: { userId },
+      orderBy: { updatedAt: "desc" },
+      select: { tmdbId: true },
+    }),
+    context.prisma.collectionMovie.findMany({
+      where: { collection: { userId } },
+      orderBy: { addedAt: "desc" },
+      select: { tmdbId: true },
+    }),
+  ]);
+
+  // One signal per movie: an explicit rating wins over collecting or reviewing
+  const signals = new Map<number, number>();
+  collectionMovies.forEach((cm) => signals.set(cm.tmdbId, COLLECTED_WEIGHT));
+  reviews.forEach((review) => {
+    if (!signals.has(review.tmdbId)) {
+      signals.set(review.tmdbId, REVIEWED_WEIGHT);
+    }
+  });
+  ratings.forEach((rating) => signals.set(rating.tmdbId, ratingToWeight(rating.rating)));
+
+  const profile: TasteProfile = {
+    genres: new Map(),
+    keywords: new Map(),
+    cast: new Map(),
+    crew: new Map(),
+    eras: new Map(),
+    names: new Map(),
+    sourceMovieIds: new Set(signals.keys()),
+  };
+
+  // Strongest signals first so the TMDB lookups go to the most telling movies
+  const weightedMovies = Array.from(signals.entries())
+    .filter(([, weight]) => weight !== 0)
+    .sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]))
+    .slice(0, RECOMMENDATION_PROFILE_MAX_MOVIES);
+
+  const features = await Promise.all(
+    weightedMovies.map(([movieId]) => fetchMovieFeatures(movieId, context))
+  );
+
+  features.forEach((movieFeatures, i) => {
+    if (!movieFeatures) {
+      return;
+    }
+    const weight = weightedMovies[i][1];
+    const addFeatures = (
+      type: RecommendationReasonType,
+      weights: Map<number, number>,
+      items: Array<{ id: number; name: string }>
+    ) => {
+      items.forEach((item) => {
+        addWeight(weights, item.id, weight);
+        profile.names.set(`${type}:${item.id}`, item.name);
+      });
+    };
+
+    addFeatures("GENRE", profile.genres, movieFeatures.genres);
+    addFeatures("KEYWORD", profile.keywords, movieFeatures.keywords);
+    addFeatures("CAST", profile.cast, movieFeatures.cast);
+    addFeatures("CREW", profile.crew, movieFeatures.crew);
+    if (movieFeatures.decade !== undefined) {
+      addFeatures("ERA", profile.eras, [
+        { id: movieFeatures.decade, name: `${movieFeatures.decade}s` },
+      ]);
+    }
+  });
+
+  [profile.genres, profile.keywords, profile.cast, profile.crew, profile.eras].forEach(
+    normalizeWeights
+  );
+
+  return profile;
+}
+
+/**
+ * Check whether a profile has any positive taste to recommend from
+ */
+export function hasPositiveTaste(profile: TasteProfile): boolean {
+  return Array.from(profile.genres.values()).some((weight) => weight > 0);
+}
+
+function topPositive(weights: Map<number, number>, count: number): number[] {
+  return Array.from(weights.entries())
+    .filter(([, weight]) => weight > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([id]) => id);
+}
+
+/**
+ * Discover candidate movies for a profile
+ * Searches the favourite genres, favourite genre in the favourite era, and favourite director/actor
+ * Excludes movies the profile was built from and movies the user has watched
+ */
+export async function discoverRecommendationCandidates(
+  profile: TasteProfile,
+  context: Context,
+  options?: TMDBOptions
+): Promise<Array<Record<string, unknown> & { id: number }>> {
+  const topGenres = topPositive(profile.genres, 3);
+  const [topEra] = topPositive(profile.eras, 1);
+  const [topDirector] = topPositive(profile.crew, 1);
+  const [topActor] = topPositive(profile.cast, 1);
+
+  const queries = topGenres.map((genreId) => buildDiscoverParams({ genres: [genreId] }));
+  if (topGenres.length > 0 && topEra !== undefined) {
+    queries.push(
+      buildDiscoverParams({ genres: [topGenres[0]], yearRange: [topEra, topEra + 9] })
+    );
+  }
+  if (topDirector !== undefined) {
+    queries.push(buildDiscoverParams({ crew: [topDirector] }));
+  }
+  if (topActor !== undefined) {
+    queries.push(buildDiscoverParams({ cast: [topActor] }));
+  }
+
+  const results = await Promise.all(
+    queries.map((params) => context.tmdb.discoverMovies(params, options).catch(() => []))
+  );
+
+  const excludedIds = new Set(profile.sourceMovieIds);
+  const watchedIds = await getExcludedWatchedIds(context, true);
+  watchedIds?.forEach((movieId) => excludedIds.add(movieId));
+
+  const candidates = new Map<number, Record<string, unknown> & { id: number }>();
+  results.flat().forEach((movie) => {
+    const candidate = movie as Record<string, unknown> & { id: number };
+    if (!excludedIds.has(candidate.id) && !candidates.has(candidate.id)) {
+      candidates.set(candidate.id, candidate);
+    }
+  });
+
+  return Array.from(candidates.values());
+}
+
+/**
+ * Score a movie against a taste profile (roughly -1 to 1) with its top reasons
+ * Genres and era are read from discover results; pass features to include keywords and credits
+ */
+function scoreAgainstProfile(
+  movie: { genre_ids?: number[]; release_date?: string | null },
+  profile: TasteProfile,
+  features?: MovieFeatures | null
+): { score: number; reasons: RecommendationReason[] } {
+  const contributions: RecommendationReason[] = [];
+
+  // Each feature type contributes its average matched weight, scaled by the type's weight
+  const scoreType = (
+    type: RecommendationReasonType,
+    weights: Map<number, number>,
+    ids: number[]
+  ) => {
+    const matched = ids.filter((id) => weights.has(id));
+    if (matched.length === 0) {
+      return 0;
+    }
+    const scale = FEATURE_WEIGHTS[type] / Math.max(ids.length, 1);
+    return matched.reduce((sum, id) => {
+      const weight = (weights.get(id) || 0) * scale;
+      contributions.push({
+        type,
+        id,
+        name: profile.names.get(`${type}:${id}`) || "",
+        weight,
+      });
+      return sum + weight;
+    }, 0);
+  };
+
+  const genreIds = features?.genres.map((g) => g.id) || movie.genre_ids || [];
+  const decade = features?.decade ?? getDecade(movie.release_date);
+
+  let score =
+    scoreType("GENRE", profile.genres, genreIds) +
+    scoreType("ERA", profile.eras, decade !== undefined ? [decade] : []);
+
+  // Keywords and people count per match rather than averaged, since movies have many of them
+  if (features) {
+    const scoreMatches = (
+      type: RecommendationReasonType,
+      weights: Map<number, number>,
+      ids: number[]
+    ) => {
+      const sum = ids.reduce((total, id) => {
+        const weight = weights.get(id);
+        if (weight === undefined) {
+          return total;
+        }
+        const scaled = weight * FEATURE_WEIGHTS[type];
+        contributions.push({
+          type,
+          id,
+          name: profile.names.get(`${type}:${id}`) || "",
+          weight: scaled,
+        });
+        return total + scaled;
+      }, 0);
+      return Math.max(-FEATURE_WEIGHTS[type], Math.min(FEATURE_WEIGHTS[type], sum));
+    };
+
+    score +=
+      scoreMatches("KEYWORD", profile.keywords, features.keywords.map((k) => k.id)) +
+      scoreMatches("CAST", profile.cast, features.cast.map((c) => c.id)) +
+      scoreMatches("CREW", profile.crew, features.crew.map((c) => c.id));
+  }
+
+  const reasons = contributions
+    .filter((reason) => reason.weight > 0 && reason.name)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, MAX_REASONS);
+
+  return { score, reasons };
+}
+
+/**
+ * Rank candidates against a profile
+ * Genre/era scoring narrows the list before keywords and credits are fetched for the rest
+ */
+export async function rankRecommendations(
+  candidates: Array<Record<string, unknown> & { id: number }>,
+  profile: TasteProfile,
+  context: Context,
+  limit: number
+): Promise<ScoredRecommendation[]> {
+  const preliminary = candidates
+    .map((movie) => ({
+      movie,
+      score: scoreAgainstProfile(movie as { genre_ids?: number[] }, profile).score,
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit * 2);
+
+  const scored = await Promise.all(
+    preliminary.map(async ({ movie }) => {
+      const features = await fetchMovieFeatures(movie.id, context);
+      return {
+        movie,
+        ...scoreAgainstProfile(
+          movie as { genre_ids?: number[]; release_date?: string | null },
+          profile,
+          features
+        ),
+      };
+    })
+  );
+
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+}
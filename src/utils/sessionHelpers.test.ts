@@ -0,0 +1,102 @@
+import { PrismaClient, Session, User } from "@prisma/client";
+import { hashSecureToken, verifyToken } from "./auth";
+import { AuthenticationError } from "./errors";
+import { isSessionActive, rotateSession } from "./sessionHelpers";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const user = { id: 1, email: "user@example.com", password: "hashed" } as User;
+
+function buildSession(overrides: Partial<Session> = {}): Session {
+  return {
+    id: 7,
+    userId: user.id,
+    refreshTokenHash: hashSecureToken("refresh-token"),
+    revokedAt: null,
+    expiresAt: new Date(Date.now() + HOUR_MS),
+    ...overrides,
+  } as Session;
+}
+
+function createPrisma(session: (Session & { user: User }) | null, updatedCount = 1) {
+  const prisma = {
+    session: {
+      findUnique: jest.fn().mockResolvedValue(session),
+      updateMany: jest.fn().mockResolvedValue({ count: updatedCount }),
+    },
+  };
+  return { prisma: prisma as unknown as PrismaClient, session: prisma.session };
+}
+
+describe("isSessionActive", () => {
+  it("accepts unrevoked sessions that haven't expired", () => {
+    expect(isSessionActive(buildSession())).toBe(true);
+  });
+
+  it("rejects revoked sessions", () => {
+    expect(isSessionActive(buildSession({ revokedAt: new Date() }))).toBe(false);
+  });
+
+  it("rejects expired sessions", () => {
+    expect(isSessionActive(buildSession({ expiresAt: new Date(Date.now() - 1) }))).toBe(false);
+  });
+});
+
+describe("rotateSession", () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env, JWT_SECRET: "test-secret" };
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it("looks sessions up by the refresh token's hash and replaces it", async () => {
+    const { prisma, session } = createPrisma({ ...buildSession(), user });
+
+    const payload = await rotateSession(prisma, "refresh-token");
+
+    expect(session.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { refreshTokenHash: hashSecureToken("refresh-token") } })
+    );
+    expect(payload.refreshToken).not.toBe("refresh-token");
+    const [{ where, data }] = session.updateMany.mock.calls[0];
+    expect(where).toEqual({
+      id: 7,
+      refreshTokenHash: hashSecureToken("refresh-token"),
+      revokedAt: null,
+    });
+    expect(data.refreshTokenHash).toBe(hashSecureToken(payload.refreshToken));
+    expect(verifyToken(payload.token)).toMatchObject({ userId: 1, sessionId: 7 });
+    expect(payload.user).not.toHaveProperty("password");
+  });
+
+  it("rejects unknown refresh tokens", async () => {
+    const { prisma, session } = createPrisma(null);
+
+    await expect(rotateSession(prisma, "unknown")).rejects.toBeInstanceOf(AuthenticationError);
+    expect(session.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("rejects refresh tokens of revoked sessions", async () => {
+    const { prisma, session } = createPrisma({
+      ...buildSession({ revokedAt: new Date() }),
+      user,
+    });
+
+    await expect(rotateSession(prisma, "refresh-token")).rejects.toBeInstanceOf(
+      AuthenticationError
+    );
+    expect(session.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("rejects a refresh token that a concurrent refresh already rotated", async () => {
+    const { prisma } = createPrisma({ ...buildSession(), user }, 0);
+
+    await expect(rotateSession(prisma, "refresh-token")).rejects.toBeInstanceOf(
+      AuthenticationError
+    );
+  });
+});
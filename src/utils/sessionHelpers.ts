@@ -0,0 +1,140 @@
+/**
+ * Helper functions for sign-in sessions and their access/refresh tokens
+ */
+
+import { PrismaClient, Session, User } from "@prisma/client";
+import { Request } from "express";
+import { AuthPayload } from "../types/resolvers";
+import { ERROR_MESSAGES } from "../constants";
+import {
+  REFRESH_TOKEN_TTL_MS,
+  generateSecureToken,
+  generateToken,
+  getTokenExpiry,
+  hashSecureToken,
+} from "./auth";
+import { excludePassword } from "./userHelpers";
+import { AuthenticationError } from "./errors";
+
+/**
+ * Whether a session can still be used (not revoked or expired)
+ */
+export function isSessionActive(session: Session): boolean {
+  return session.revokedAt === null && session.expiresAt > new Date();
+}
+
+/**
+ * Build the auth payload for a session, signing a new access token
+ */
+function buildAuthPayload(
+  session: Session,
+  user: User,
+  refreshToken: string
+): AuthPayload {
+  const token = generateToken({
+    userId: user.id,
+    email: user.email,
+    sessionId: session.id,
+  });
+
+  return {
+    token,
+    refreshToken,
+    accessTokenExpiresAt: getTokenExpiry(token),
+    user: excludePassword(user),
+  };
+}
+
+/**
+ * Start a session for a user signing in from the given request
+ */
+export async function createSession(
+  prisma: PrismaClient,
+  user: User,
+  req: Request
+): Promise<AuthPayload> {
+  const refreshToken = generateSecureToken();
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      refreshTokenHash: hashSecureToken(refreshToken),
+      userAgent: req.headers["user-agent"] ?? null,
+      ipAddress: req.ip ?? null,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    },
+  });
+
+  return buildAuthPayload(session, user, refreshToken);
+}
+
+/**
+ * Exchange a refresh token for a new access/refresh token pair
+ * The old refresh token stops working, and the session's expiry is extended
+ */
+export async function rotateSession(
+  prisma: PrismaClient,
+  refreshToken: string
+): Promise<AuthPayload> {
+  const refreshTokenHash = hashSecureToken(refreshToken);
+  const session = await prisma.session.findUnique({
+    where: { refreshTokenHash },
+    include: { user: true },
+  });
+
+  if (!session || !isSessionActive(session)) {
+    throw new AuthenticationError(ERROR_MESSAGES.INVALID_REFRESH_TOKEN);
+  }
+
+  const newRefreshToken = generateSecureToken();
+  const now = new Date();
+
+  // Only rotate if the token is still current, so concurrent refreshes can't both succeed
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashSecureToken(newRefreshToken),
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+    },
+  });
+  if (count === 0) {
+    throw new AuthenticationError(ERROR_MESSAGES.INVALID_REFRESH_TOKEN);
+  }
+
+  return buildAuthPayload(session, session.user, newRefreshToken);
+}
+
+/**
+ * Revoke one of a user's sessions
+ * Returns false if the session doesn't exist, belongs to someone else, or is already revoked
+ */
+export async function revokeSession(
+  prisma: PrismaClient,
+  userId: number,
+  sessionId: number
+): Promise<boolean> {
+  const { count } = await prisma.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Revoke all of a user's sessions, optionally keeping one, returning how many were revoked
+ */
+export async function revokeAllSessions(
+  prisma: PrismaClient,
+  userId: number,
+  exceptSessionId?: number
+): Promise<number> {
+  const { count } = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId !== undefined && { id: { not: exceptSessionId } }),
+    },
+    data: { revokedAt: new Date() },
+  });
+  return count;
+}
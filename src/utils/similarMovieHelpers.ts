@@ -0,0 +1,163 @@
+/**
+ * Helper functions for "more like this" similar movie lookups
+ */
+
+import { Context } from "../context";
+import { TMDBOptions } from "../types";
+
+/**
+ * Features a movie is compared on
+ */
+interface SimilarityFeatures {
+  genreIds: Set<number>;
+  keywordIds: Set<number>;
+  directorIds: Set<number>;
+  castIds: Set<number>;
+}
+
+export type SimilarityCandidate = Record<string, unknown> & {
+  id: number;
+  genre_ids?: number[];
+};
+
+// Relative weight of each overlap in the similarity score
+const KEYWORD_WEIGHT = 0.35;
+const GENRE_WEIGHT = 0.25;
+const DIRECTOR_WEIGHT = 0.2;
+const CAST_WEIGHT = 0.15;
+// Bonus for movies returned by both TMDB endpoints
+const BOTH_SOURCES_BONUS = 0.05;
+
+// Only top-billed cast is compared
+const SIMILARITY_CAST_LIMIT = 10;
+
+/**
+ * Overlap between two sets relative to the smaller one (0 to 1)
+ */
+function overlap(a: Set<number>, b: Set<number>): number {
+  const smaller = Math.min(a.size, b.size);
+  if (smaller === 0) {
+    return 0;
+  }
+  let shared = 0;
+  a.forEach((id) => {
+    if (b.has(id)) {
+      shared++;
+    }
+  });
+  return shared / smaller;
+}
+
+/**
+ * Fetch keywords and credits of a movie for similarity scoring
+ */
+async function fetchSimilarityFeatures(
+  movieId: number,
+  genreIds: number[],
+  context: Context
+): Promise<SimilarityFeatures> {
+  const [keywordData, credits] = await Promise.all([
+    context.tmdb.getMovieKeywords(movieId).catch(() => ({ keywords: [] })),
+    context.tmdb.getMovieCredits(movieId).catch(() => ({ cast: [], crew: [] })),
+  ]);
+
+  return {
+    genreIds: new Set(genreIds),
+    keywordIds: new Set((keywordData.keywords || []).map((k) => k.id)),
+    directorIds: new Set(
+      (credits.crew || []).filter((c) => c.job === "Director").map((c) => c.id)
+    ),
+    castIds: new Set(
+      (credits.cast || []).slice(0, SIMILARITY_CAST_LIMIT).map((c) => c.id)
+    ),
+  };
+}
+
+/**
+ * Fetch candidates from TMDB's similar and recommendations endpoints
+ * Returns candidates (without the source movie) and the IDs returned by both endpoints
+ */
+export async function fetchSimilarCandidates(
+  tmdbId: number,
+  context: Context,
+  options?: TMDBOptions
+): Promise<{ candidates: SimilarityCandidate[]; inBothSources: Set<number> }> {
+  const [similar, recommended] = await Promise.all([
+    context.tmdb.getSimilarMovies(tmdbId, options).catch(() => []),
+    context.tmdb.getMovieRecommendations(tmdbId, options).catch(() => []),
+  ]);
+
+  const similarIds = new Set(
+    (similar as SimilarityCandidate[]).map((movie) => movie.id)
+  );
+  const inBothSources = new Set<number>();
+  const candidates = new Map<number, SimilarityCandidate>();
+
+  [...similar, ...recommended].forEach((movie) => {
+    const candidate = movie as SimilarityCandidate;
+    if (candidate.id === tmdbId) {
+      return;
+    }
+    if (candidates.has(candidate.id)) {
+      if (similarIds.has(candidate.id)) {
+        inBothSources.add(candidate.id);
+      }
+      return;
+    }
+    candidates.set(candidate.id, candidate);
+  });
+
+  return { candidates: Array.from(candidates.values()), inBothSources };
+}
+
+/**
+ * Re-rank candidates by keyword, genre, director and cast overlap with the source movie
+ * Candidates are narrowed by genre overlap before their keywords and credits are fetched
+ */
+export async function rankSimilarMovies(
+  source: { id: number; genres?: Array<{ id: number }> },
+  candidates: SimilarityCandidate[],
+  inBothSources: Set<number>,
+  context: Context,
+  limit: number
+): Promise<Array<{ movie: SimilarityCandidate; score: number }>> {
+  const sourceFeatures = await fetchSimilarityFeatures(
+    source.id,
+    (source.genres || []).map((g) => g.id),
+    context
+  );
+
+  const bonus = (movieId: number) =>
+    inBothSources.has(movieId) ? BOTH_SOURCES_BONUS : 0;
+
+  // Ties keep TMDB's order since the sort is stable
+  const preliminary = candidates
+    .map((movie) => ({
+      movie,
+      score:
+        GENRE_WEIGHT * overlap(sourceFeatures.genreIds, new Set(movie.genre_ids || [])) +
+        bonus(movie.id),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit * 2);
+
+  const scored = await Promise.all(
+    preliminary.map(async ({ movie }) => {
+      const features = await fetchSimilarityFeatures(
+        movie.id,
+        movie.genre_ids || [],
+        context
+      );
+      const score =
+        KEYWORD_WEIGHT * overlap(sourceFeatures.keywordIds, features.keywordIds) +
+        GENRE_WEIGHT * overlap(sourceFeatures.genreIds, features.genreIds) +
+        DIRECTOR_WEIGHT * overlap(sourceFeatures.directorIds, features.directorIds) +
+        CAST_WEIGHT * overlap(sourceFeatures.castIds, features.castIds) +
+        bonus(movie.id);
+
+      return { movie, score: Math.min(1, score) };
+    })
+  );
+
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+}
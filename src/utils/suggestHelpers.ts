@@ -0,0 +1,562 @@
+/**
+ * Helper functions for the suggest movie flow
+ */
+
+import { Context } from "../context";
+import { Movie, TMDBOptions } from "../types";
+import { MoviePreferencesInput } from "../types/resolvers";
+import { transformTMDBMovie, TMDBMovieResponse } from "./transformers";
+import { buildDiscoverParams, pickRandomItem, DiscoverFilters } from "./discoverHelpers";
+import { getSuggestHistory, addToSuggestHistory } from "./dbHelpers";
+import { getExcludedWatchedIds } from "./watchHistoryHelpers";
+import { convertGraphQLOptionsToTMDBOptions, mergeTMDBOptions } from "./tmdbOptionsConverter";
+import { ERROR_MESSAGES, GENRE_ICONS, SUGGEST_MAX_SELECTED_MOVIES } from "../constants";
+import { UserInputError } from "./errors";
+
+/**
+ * Query strategy that produced a suggestion, from most to least specific
+ */
+export type SuggestionStrategy =
+  | "GENRES_AND_ERA"
+  | "GENRES_AND_KEYWORDS"
+  | "TOP_GENRE_AND_ERA"
+  | "GENRES_ONLY"
+  | "KEYWORDS_AND_ERA"
+  | "TOP_GENRE_ONLY"
+  | "KEYWORDS_ONLY"
+  | "ERA_ONLY"
+  | "RANDOM_POPULAR";
+
+export type SuggestionCriterion = "GENRES" | "KEYWORDS" | "ERA";
+
+/**
+ * Filters a suggest query strategy searched with
+ */
+export interface SuggestionFilters {
+  genres?: number[];
+  keywords?: number[];
+  yearRange?: number[];
+}
+
+/**
+ * A suggested movie with the preferences and query that found it (see explainSuggestion)
+ */
+export interface Suggestion {
+  movie: Movie;
+  prefs: MoviePreferencesInput;
+  strategy: SuggestionStrategy;
+  usedFilters: SuggestionFilters;
+}
+
+/**
+ * A suggested movie with the reasons it was picked
+ */
+export interface SuggestionResultData {
+  movie: Movie;
+  strategy: SuggestionStrategy;
+  matchedGenres: Array<{ id: number; name: string; icon: string | null }>;
+  matchedKeywords: Array<{ id: number; name: string }>;
+  matchedYearRange: { min: number; max: number } | null;
+  // Preferred categories that were dropped to find a result
+  relaxedCriteria: SuggestionCriterion[];
+  // How closely the movie matches the preferences (0 to 1)
+  confidence: number;
+  // Selected movies that share a genre with the suggestion
+  becauseYouLiked: Movie[];
+}
+
+/**
+ * Frequency of each category across a set of movies
+ */
+export interface CategoryCounts {
+  genreCounts: Map<number, number>;
+  keywordCounts: Map<number, number>;
+  actorCounts: Map<number, number>;
+  crewCounts: Map<number, number>;
+  years: number[];
+}
+
+/**
+ * Count genres, keywords, actors, crew and release years across movies
+ */
+export async function collectCategoryCounts(
+  movieIds: number[],
+  context: Context
+): Promise<CategoryCounts> {
+  const years: number[] = [];
+  const genreCounts = new Map<number, number>();
+  const keywordCounts = new Map<number, number>();
+  const actorCounts = new Map<number, number>();
+  const crewCounts = new Map<number, number>();
+
+  // Fetch all selected movies in parallel (with credits for actors/crew)
+  const moviePromises = movieIds.map((id) =>
+    context.tmdb.getMovie(id, undefined, true).catch(() => null)
+  );
+  const movies = await Promise.all(moviePromises);
+
+  // Fetch keywords for all movies in parallel
+  const keywordPromises = movieIds.map((id) =>
+    context.tmdb.getMovieKeywords(id).catch(() => ({ keywords: [] }))
+  );
+  const keywordResults = await Promise.all(keywordPromises);
+
+  // Extract categories from each movie and count frequencies
+  for (let i = 0; i < movies.length; i++) {
+    const movie = movies[i];
+    if (!movie) continue;
+
+    const movieData = movie as {
+      genres?: Array<{ id: number; name: string }>;
+      release_date?: string;
+      credits?: {
+        cast?: Array<{ id: number; name: string }>;
+        crew?: Array<{ id: number; name: string; job?: string }>;
+      };
+    };
+
+    // Count genre frequencies
+    if (movieData.genres) {
+      movieData.genres.forEach((genre) => {
+        genreCounts.set(genre.id, (genreCounts.get(genre.id) || 0) + 1);
+      });
+    }
+
+    // Count keyword frequencies
+    const keywordData = keywordResults[i];
+    if (keywordData?.keywords) {
+      keywordData.keywords.forEach((keyword: { id: number; name: string }) => {
+        keywordCounts.set(keyword.id, (keywordCounts.get(keyword.id) || 0) + 1);
+      });
+    }
+
+    // Extract release year
+    if (movieData.release_date) {
+      const year = parseInt(movieData.release_date.substring(0, 4), 10);
+      if (!isNaN(year)) {
+        years.push(year);
+      }
+    }
+
+    // Count actor frequencies (top 3 actors per movie)
+    if (movieData.credits?.cast) {
+      movieData.credits.cast.slice(0, 3).forEach((actor) => {
+        actorCounts.set(actor.id, (actorCounts.get(actor.id) || 0) + 1);
+      });
+    }
+
+    // Count crew frequencies (directors and writers only)
+    if (movieData.credits?.crew) {
+      movieData.credits.crew
+        .filter((member) => {
+          const job = member.job?.toLowerCase() || "";
+          return job.includes("director") || job.includes("writer") || job.includes("screenplay");
+        })
+        .slice(0, 2)
+        .forEach((member) => {
+          crewCounts.set(member.id, (crewCounts.get(member.id) || 0) + 1);
+        });
+    }
+  }
+
+  return { genreCounts, keywordCounts, actorCounts, crewCounts, years };
+}
+
+/**
+ * Get the most frequent IDs from a count map
+ */
+export function topCounted(counts: Map<number, number>, limit: number): number[] {
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([id]) => id);
+}
+
+/**
+ * Calculate flexible year range (expand by 5 years on each side for more variety)
+ */
+export function expandYearRange(years: number[]): number[] | undefined {
+  if (years.length === 0) {
+    return undefined;
+  }
+
+  const minYear = Math.min(...years);
+  const maxYear = Math.max(...years);
+  const yearSpan = maxYear - minYear;
+  // Expand range: add 5 years on each side, or 50% of span (whichever is larger)
+  const expansion = Math.max(5, Math.floor(yearSpan * 0.5));
+  const expandedMin = Math.max(1900, minYear - expansion); // Don't go before 1900
+  const expandedMax = Math.min(new Date().getFullYear(), maxYear + expansion); // Don't go past current year
+  return [expandedMin, expandedMax];
+}
+
+/**
+ * Extract and aggregate categories from selected movies
+ * Returns simplified preferences that are less restrictive for better discovery
+ */
+export async function extractCategoriesFromMovies(
+  movieIds: number[],
+  context: Context
+): Promise<MoviePreferencesInput> {
+  const counts = await collectCategoryCounts(movieIds, context);
+
+  return {
+    // Select top genres (most common, limit to 2-3 for less restriction)
+    genres: topCounted(counts.genreCounts, 3),
+    // Select top keywords (most common, limit to 3-5 for less restriction)
+    keywordIds: topCounted(counts.keywordCounts, 5),
+    // Select top actors (most common, limit to 2 for less restriction)
+    actors: topCounted(counts.actorCounts, 2),
+    // Select top crew (most common, limit to 1-2 for less restriction)
+    crew: topCounted(counts.crewCounts, 2),
+    yearRange: expandYearRange(counts.years),
+  };
+}
+
+/**
+ * Name the strategy for the filters a query actually applied
+ * (a strategy's filters can come out narrower when some preferences are empty)
+ */
+function getStrategyForFilters(filters: SuggestionFilters): SuggestionStrategy {
+  const genreCount = filters.genres?.length || 0;
+  const hasKeywords = !!filters.keywords;
+  const hasEra = !!filters.yearRange;
+
+  if (genreCount > 0 && hasKeywords) return "GENRES_AND_KEYWORDS";
+  if (genreCount > 0 && hasEra) return genreCount > 1 ? "GENRES_AND_ERA" : "TOP_GENRE_AND_ERA";
+  if (genreCount > 0) return genreCount > 1 ? "GENRES_ONLY" : "TOP_GENRE_ONLY";
+  if (hasKeywords && hasEra) return "KEYWORDS_AND_ERA";
+  if (hasKeywords) return "KEYWORDS_ONLY";
+  return hasEra ? "ERA_ONLY" : "RANDOM_POPULAR";
+}
+
+/**
+ * Explain which preferences a suggested movie matches and which were relaxed
+ * Costs a keywords request plus a details lookup per selected movie, so only explained
+ * suggestions pay for it
+ */
+export async function explainSuggestion(
+  suggestion: Suggestion,
+  selectedMovieIds: number[],
+  context: Context
+): Promise<SuggestionResultData> {
+  const { movie, prefs, strategy, usedFilters } = suggestion;
+  const movieGenres = movie.genres || [];
+  const movieGenreIds = new Set(movieGenres.map((genre) => genre.id));
+  const preferredGenres = prefs.genres || [];
+  const preferredKeywords = new Set(prefs.keywordIds || []);
+
+  const keywordData = await context.tmdb
+    .getMovieKeywords(movie.id)
+    .catch(() => ({ keywords: [] }));
+  const movieKeywords: Array<{ id: number; name: string }> = keywordData.keywords || [];
+
+  const matchedGenres = movieGenres
+    .filter((genre) => preferredGenres.includes(genre.id))
+    .map((genre) => ({
+      id: genre.id,
+      name: genre.name,
+      icon: GENRE_ICONS[genre.id] || null,
+    }));
+  const matchedKeywords = movieKeywords
+    .filter((keyword) => preferredKeywords.has(keyword.id))
+    .map((keyword) => ({ id: keyword.id, name: keyword.name }));
+
+  const year = movie.releaseDate ? parseInt(movie.releaseDate.substring(0, 4), 10) : NaN;
+  const eraMatched =
+    !!prefs.yearRange && !isNaN(year) && year >= prefs.yearRange[0] && year <= prefs.yearRange[1];
+
+  // Preferences that were available but left out of the query that found the movie
+  const relaxedCriteria: SuggestionCriterion[] = [];
+  if (
+    preferredGenres.length > 0 &&
+    (usedFilters.genres?.length || 0) < Math.min(2, preferredGenres.length)
+  ) {
+    relaxedCriteria.push("GENRES");
+  }
+  if (preferredKeywords.size > 0 && !usedFilters.keywords) {
+    relaxedCriteria.push("KEYWORDS");
+  }
+  if (prefs.yearRange && !usedFilters.yearRange) {
+    relaxedCriteria.push("ERA");
+  }
+
+  // Weighted share of matched preferences (genres 50%, keywords 25%, era 25%)
+  let matchedWeight = 0;
+  let availableWeight = 0;
+  if (preferredGenres.length > 0) {
+    availableWeight += 0.5;
+    matchedWeight += 0.5 * Math.min(1, matchedGenres.length / Math.min(2, preferredGenres.length));
+  }
+  if (preferredKeywords.size > 0) {
+    availableWeight += 0.25;
+    matchedWeight += 0.25 * Math.min(1, matchedKeywords.length / 3);
+  }
+  if (prefs.yearRange) {
+    availableWeight += 0.25;
+    matchedWeight += eraMatched ? 0.25 : 0;
+  }
+  let confidence = availableWeight > 0 ? matchedWeight / availableWeight : 0;
+  if (strategy === "RANDOM_POPULAR") {
+    confidence *= 0.5; // Only matched by chance
+  }
+
+  // Selected movies are cached from extracting preferences
+  const selectedMovies = await Promise.all(
+    selectedMovieIds.map((id) => context.tmdb.getMovie(id).catch(() => null))
+  );
+  const becauseYouLiked = selectedMovies
+    .filter((selected): selected is NonNullable<typeof selected> => selected !== null)
+    .map((selected) => transformTMDBMovie(selected as TMDBMovieResponse))
+    .filter((selected) => selected.genres?.some((genre) => movieGenreIds.has(genre.id)))
+    .slice(0, 3);
+
+  return {
+    movie,
+    strategy,
+    matchedGenres,
+    matchedKeywords,
+    matchedYearRange: eraMatched && prefs.yearRange
+      ? { min: prefs.yearRange[0], max: prefs.yearRange[1] }
+      : null,
+    relaxedCriteria,
+    confidence: Math.round(confidence * 100) / 100,
+    becauseYouLiked,
+  };
+}
+
+/**
+ * Suggest a single movie matching the categories aggregated from selected movies
+ * Walks from the most specific to the least restrictive query, then falls back to random popular movies
+ * Saves the result to suggest history if the user is authenticated
+ * baseOptions: TMDB options applied to every query (e.g. streaming services)
+ */
+export async function suggestMovieFromSelections(
+  selectedMovieIds: number[],
+  context: Context,
+  excludeWatched?: boolean,
+  baseOptions?: TMDBOptions
+): Promise<Suggestion> {
+  // Validate that movie IDs are provided
+  if (!selectedMovieIds || selectedMovieIds.length === 0) {
+    throw new UserInputError("At least one movie ID must be provided");
+  }
+  // Each selected movie costs TMDB lookups, so every suggest entry point is capped here
+  if (selectedMovieIds.length > SUGGEST_MAX_SELECTED_MOVIES) {
+    throw new UserInputError(ERROR_MESSAGES.SUGGEST_TOO_MANY_SELECTED_MOVIES);
+  }
+
+  // Get suggest history to exclude from results
+  const historyIds = context.user
+    ? await getSuggestHistory(context.prisma, context.user.id)
+    : [];
+  const historySet = new Set(historyIds);
+
+  // Treat watched movies like suggest history when excludeWatched is requested
+  const watchedIds = await getExcludedWatchedIds(context, excludeWatched);
+  watchedIds?.forEach((movieId) => historySet.add(movieId));
+  
+  // Exclude selected movies from results
+  const selectedMovieIdsSet = new Set(selectedMovieIds);
+
+  // Extract categories from selected movies
+  const prefs = await extractCategoriesFromMovies(
+    selectedMovieIds,
+    context
+  );
+
+  const options = mergeTMDBOptions(
+    convertGraphQLOptionsToTMDBOptions(prefs.options, context.preferences),
+    baseOptions
+  );
+
+  // Build a simpler, less restrictive query
+  // Strategy: Use fewer filters at once, prioritize genres and year range
+  // We don't use actors/crew filters to keep queries less restrictive
+  let tmdbMovies: unknown[] = [];
+  let attempts = 0;
+  let usedFilters: SuggestionFilters = {};
+
+  // Try different combinations, starting with simpler queries
+  // Names are the intended strategy; the reported one comes from the filters actually applied
+  const queryStrategies: Array<{ name: SuggestionStrategy; filters: () => SuggestionFilters }> = [
+    // Strategy 1: Genres + Year Range (most common, least restrictive)
+    {
+      name: "GENRES_AND_ERA",
+      filters: () => ({
+        genres: prefs.genres && prefs.genres.length > 0 ? prefs.genres.slice(0, 2) : undefined,
+        yearRange: prefs.yearRange,
+      }),
+    },
+    // Strategy 2: Genres + Keywords (thematic match)
+    {
+      name: "GENRES_AND_KEYWORDS",
+      filters: () => ({
+        genres: prefs.genres && prefs.genres.length > 0 ? prefs.genres.slice(0, 2) : undefined,
+        keywords: prefs.keywordIds && prefs.keywordIds.length > 0 ? prefs.keywordIds.slice(0, 3) : undefined,
+      }),
+    },
+    // Strategy 3: Just top genre + year range
+    {
+      name: "TOP_GENRE_AND_ERA",
+      filters: () => ({
+        genres: prefs.genres && prefs.genres.length > 0 ? [prefs.genres[0]] : undefined,
+        yearRange: prefs.yearRange,
+      }),
+    },
+    // Strategy 4: Genres only
+    {
+      name: "GENRES_ONLY",
+      filters: () => ({
+        genres: prefs.genres && prefs.genres.length > 0 ? prefs.genres.slice(0, 2) : undefined,
+      }),
+    },
+    // Strategy 5: Keywords + Year Range
+    {
+      name: "KEYWORDS_AND_ERA",
+      filters: () => ({
+        keywords: prefs.keywordIds && prefs.keywordIds.length > 0 ? prefs.keywordIds.slice(0, 3) : undefined,
+        yearRange: prefs.yearRange,
+      }),
+    },
+    // Strategy 6: Just top genre
+    {
+      name: "TOP_GENRE_ONLY",
+      filters: () => ({
+        genres: prefs.genres && prefs.genres.length > 0 ? [prefs.genres[0]] : undefined,
+      }),
+    },
+    // Strategy 7: Year range only
+    {
+      name: "ERA_ONLY",
+      filters: () => ({
+        yearRange: prefs.yearRange,
+      }),
+    },
+  ];
+
+  // Try each strategy until we get results
+  while (tmdbMovies.length === 0 && attempts < queryStrategies.length) {
+    const strategy = queryStrategies[attempts];
+    const filters = strategy.filters();
+    
+    // Only include non-empty filters
+    const discoverFilters: DiscoverFilters = {};
+    if (filters.genres) discoverFilters.genres = filters.genres;
+    if (filters.keywords) discoverFilters.keywordIds = filters.keywords;
+    if (filters.yearRange) discoverFilters.yearRange = filters.yearRange;
+
+    // Skip if no filters to use
+    if (Object.keys(discoverFilters).length === 0) {
+      attempts++;
+      continue;
+    }
+
+    const discoverParams = buildDiscoverParams(discoverFilters, false);
+    const discoveredMovies = await context.tmdb.discoverMovies(discoverParams, options);
+    
+    // Filter out movies from suggest history and selected movies
+    tmdbMovies = (discoveredMovies as Array<{ id: number }>).filter(
+      (movie) => !historySet.has(movie.id) && !selectedMovieIdsSet.has(movie.id)
+    );
+    if (tmdbMovies.length > 0) {
+      usedFilters = {
+        genres: discoverFilters.genres,
+        keywords: discoverFilters.keywordIds,
+        yearRange: discoverFilters.yearRange,
+      };
+    }
+    
+    attempts++;
+  }
+
+  // If still no results, try with just year range or random popular movies
+  if (tmdbMovies.length === 0) {
+    // Last resort: try with just year range if available
+    if (prefs.yearRange) {
+      const discoverParams = buildDiscoverParams({ yearRange: prefs.yearRange }, false);
+      const discoveredMovies = await context.tmdb.discoverMovies(discoverParams, options);
+      // Filter out movies from suggest history and selected movies
+      tmdbMovies = (discoveredMovies as Array<{ id: number }>).filter(
+        (movie) => !historySet.has(movie.id) && !selectedMovieIdsSet.has(movie.id)
+      );
+      usedFilters = { yearRange: prefs.yearRange };
+    }
+    
+    // If still no results, get a random popular movie (excluding history)
+    if (tmdbMovies.length === 0) {
+      let randomMovie: { id: number } | null = null;
+      let retries = 0;
+      const maxRetries = 20; // Try up to 20 times to find a movie not in history
+      
+      while (!randomMovie && retries < maxRetries) {
+        const candidate = await context.tmdb.getRandomMovieFromSource(
+          "popular",
+          undefined,
+          options
+        );
+        const movieId = (candidate as { id: number }).id;
+        
+        if (!historySet.has(movieId) && !selectedMovieIdsSet.has(movieId)) {
+          randomMovie = candidate as { id: number };
+        }
+        retries++;
+      }
+      
+      if (!randomMovie) {
+        // If we can't find a movie not in history/selected, try a few more times with any movie
+        // but still exclude selected movies
+        let fallbackRetries = 0;
+        const maxFallbackRetries = 10;
+        while (!randomMovie && fallbackRetries < maxFallbackRetries) {
+          const candidate = await context.tmdb.getRandomMovieFromSource(
+            "popular",
+            undefined,
+            options
+          ) as { id: number };
+          
+          // Still exclude selected movies even in fallback
+          if (!selectedMovieIdsSet.has(candidate.id)) {
+            randomMovie = candidate;
+          }
+          fallbackRetries++;
+        }
+        
+        // Last resort: if we still can't find one, return any movie (should be very rare)
+        if (!randomMovie) {
+          randomMovie = await context.tmdb.getRandomMovieFromSource(
+            "popular",
+            undefined,
+            options
+          ) as { id: number };
+        }
+      }
+      
+      const movieId = randomMovie.id;
+      const fullMovie = await context.tmdb.getMovie(movieId, options);
+      const result = transformTMDBMovie(fullMovie as TMDBMovieResponse);
+      
+      // Save to history if user is authenticated
+      if (context.user) {
+        await addToSuggestHistory(context.prisma, context.user.id, result.id);
+      }
+      
+      return { movie: result, prefs, strategy: "RANDOM_POPULAR", usedFilters: {} };
+    }
+  }
+
+  // Randomize page selection for more variety
+  // If we have results, pick a random one
+  const selectedMovie = pickRandomItem(tmdbMovies) as { id: number };
+  
+  // Fetch full movie details including videos/trailer
+  const fullMovie = await context.tmdb.getMovie(selectedMovie.id, options);
+  const result = transformTMDBMovie(fullMovie as TMDBMovieResponse);
+  
+  // Save to suggest history if user is authenticated
+  if (context.user) {
+    await addToSuggestHistory(context.prisma, context.user.id, result.id);
+  }
+  
+  return { movie: result, prefs, strategy: getStrategyForFilters(usedFilters), usedFilters };
+}
@@ -0,0 +1,61 @@
+import { Context } from "../context";
+import { generateSuggestRound } from "./suggestRoundHelpers";
+
+/**
+ * Context with a mocked TMDB datasource and no signed-in user (so no suggest history lookup)
+ */
+function createContext(tmdb: Record<string, jest.Mock>): Context {
+  return { user: null, preferences: null, tmdb } as unknown as Context;
+}
+
+const getMovie = jest.fn(async (id: number) => ({ id, title: `Movie ${id}` }));
+
+describe("generateSuggestRound", () => {
+  it("returns one movie per combination when discover finds enough", async () => {
+    let nextId = 1;
+    const context = createContext({
+      getGenres: jest.fn().mockResolvedValue([{ id: 28, name: "Action" }]),
+      discoverMovies: jest.fn(async () => [{ id: nextId++ }]),
+      getMovie,
+      getRandomMovieFromSource: jest.fn(),
+    });
+
+    const movies = await generateSuggestRound(1, context);
+
+    expect(movies).toHaveLength(4);
+    expect(context.tmdb.getRandomMovieFromSource).not.toHaveBeenCalled();
+  });
+
+  it("returns fewer than 4 movies instead of hanging when the fill pool is too small", async () => {
+    const getRandomMovieFromSource = jest.fn().mockResolvedValue({ id: 1 });
+    const context = createContext({
+      getGenres: jest.fn().mockResolvedValue([{ id: 28, name: "Action" }]),
+      // Only the first combination finds anything, and the fill source keeps returning that movie
+      discoverMovies: jest.fn().mockResolvedValueOnce([{ id: 1 }]).mockResolvedValue([]),
+      getMovie,
+      getRandomMovieFromSource,
+    });
+
+    const movies = await generateSuggestRound(1, context);
+
+    expect(movies.map((movie) => movie.id)).toEqual([1]);
+    expect(getRandomMovieFromSource.mock.calls.length).toBeLessThanOrEqual(40);
+  });
+
+  it("skips excluded movies while filling", async () => {
+    let nextId = 10;
+    const context = createContext({
+      getGenres: jest.fn().mockResolvedValue([{ id: 28, name: "Action" }]),
+      discoverMovies: jest.fn().mockResolvedValueOnce([{ id: 1 }]).mockResolvedValue([]),
+      getMovie,
+      getRandomMovieFromSource: jest
+        .fn()
+        .mockResolvedValueOnce({ id: 2 })
+        .mockImplementation(async () => ({ id: nextId++ })),
+    });
+
+    const movies = await generateSuggestRound(1, context, undefined, [2]);
+
+    expect(movies.map((movie) => movie.id)).toEqual([1, 10, 11, 12]);
+  });
+});
@@ -0,0 +1,568 @@
+/**
+ * Helper functions for generating suggest movie rounds
+ */
+
+import { Context } from "../context";
+import { Movie, TMDBOptions } from "../types";
+import { transformTMDBMovie, TMDBMovieResponse } from "./transformers";
+import { buildDiscoverParams, pickRandomItem } from "./discoverHelpers";
+import { getSuggestHistory } from "./dbHelpers";
+import { convertGraphQLOptionsToTMDBOptions, mergeTMDBOptions } from "./tmdbOptionsConverter";
+import {
+  MOVIE_VIBES,
+  ERA_OPTIONS,
+  MOOD_TO_KEYWORDS,
+  getEraYearRange,
+  SUGGEST_MOVIE_ROUNDS,
+  SUGGEST_EXPLORATION_WEIGHT,
+  POPULARITY_LEVELS,
+} from "../constants";
+import { UserInputError } from "./errors";
+
+type PopularityLevel = "HIGH" | "AVERAGE" | "LOW";
+
+/**
+ * Category combination used to discover one movie in a round
+ */
+export interface RoundCombination {
+  genres?: number[];
+  yearRange?: number[];
+  keywordIds?: number[];
+  popularityLevel?: PopularityLevel;
+}
+
+/**
+ * What the user picked in earlier rounds, counted per category
+ */
+export interface RoundPickProfile {
+  genres: Map<number, number>;
+  eras: Map<string, number>;
+  // Only keywords that belong to a mood in MOOD_TO_KEYWORDS
+  moodKeywords: Map<number, number>;
+  popularityLevels: Map<PopularityLevel, number>;
+}
+
+// Decade eras used to classify picked movies (the broad ranges in ERA_OPTIONS)
+const DECADE_ERAS = ["70s-earlier", "80s", "90s", "2000-2009", "2010-2019", "2020-present"];
+
+const MOOD_KEYWORD_IDS = new Set(Object.values(MOOD_TO_KEYWORDS).flat());
+
+function increment<K>(counts: Map<K, number>, key: K): void {
+  counts.set(key, (counts.get(key) || 0) + 1);
+}
+
+/**
+ * Pick a key at random, weighted by its count
+ */
+function sampleWeighted<K>(counts: Map<K, number>): K | undefined {
+  const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+  let target = Math.random() * total;
+  for (const [key, count] of counts) {
+    target -= count;
+    if (target < 0) {
+      return key;
+    }
+  }
+  return undefined;
+}
+
+function mostFrequent<K>(counts: Map<K, number>): K | undefined {
+  let best: K | undefined;
+  let bestCount = 0;
+  counts.forEach((count, key) => {
+    if (count > bestCount) {
+      best = key;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/**
+ * Build a pick profile from movies chosen in earlier rounds
+ * Returns undefined if nothing has been picked yet
+ */
+export async function buildRoundPickProfile(
+  movieIds: number[],
+  context: Context
+): Promise<RoundPickProfile | undefined> {
+  if (movieIds.length === 0) {
+    return undefined;
+  }
+
+  const [movies, keywordResults] = await Promise.all([
+    Promise.all(movieIds.map((id) => context.tmdb.getMovie(id).catch(() => null))),
+    Promise.all(
+      movieIds.map((id) =>
+        context.tmdb.getMovieKeywords(id).catch(() => ({ keywords: [] }))
+      )
+    ),
+  ]);
+
+  const profile: RoundPickProfile = {
+    genres: new Map(),
+    eras: new Map(),
+    moodKeywords: new Map(),
+    popularityLevels: new Map(),
+  };
+
+  movies.forEach((movie, i) => {
+    if (!movie) return;
+
+    const movieData = movie as {
+      genres?: Array<{ id: number }>;
+      release_date?: string;
+      popularity?: number;
+    };
+
+    movieData.genres?.forEach((genre) => increment(profile.genres, genre.id));
+
+    const year = movieData.release_date
+      ? parseInt(movieData.release_date.substring(0, 4), 10)
+      : NaN;
+    if (!isNaN(year)) {
+      const era = DECADE_ERAS.find((eraId) => {
+        const range = getEraYearRange(eraId);
+        return range && year >= range[0] && year <= range[1];
+      });
+      if (era) increment(profile.eras, era);
+    }
+
+    (keywordResults[i]?.keywords || []).forEach((keyword: { id: number }) => {
+      if (MOOD_KEYWORD_IDS.has(keyword.id)) {
+        increment(profile.moodKeywords, keyword.id);
+      }
+    });
+
+    if (movieData.popularity !== undefined) {
+      const level = (Object.keys(POPULARITY_LEVELS) as PopularityLevel[]).find(
+        (key) =>
+          movieData.popularity! >= POPULARITY_LEVELS[key].min &&
+          movieData.popularity! < POPULARITY_LEVELS[key].max
+      );
+      if (level) increment(profile.popularityLevels, level);
+    }
+  });
+
+  return profile;
+}
+
+/**
+ * Number of combinations (out of 4) that should exploit earlier picks in a round
+ * Grows from 0 in the first round towards 3 in the last; a higher exploration weight keeps more exploratory slots
+ * At least one slot always explores so the user can still change direction
+ */
+export function getExploitSlotCount(
+  round: number,
+  explorationWeight: number = SUGGEST_EXPLORATION_WEIGHT
+): number {
+  const progress = SUGGEST_MOVIE_ROUNDS > 1 ? (round - 1) / (SUGGEST_MOVIE_ROUNDS - 1) : 1;
+  return Math.min(3, Math.round(4 * progress * (1 - explorationWeight)));
+}
+
+/**
+ * Build a combination from earlier picks
+ * The first exploit slot uses the most frequent picks; the others sample in proportion to how often each was picked
+ */
+function buildExploitCombination(
+  profile: RoundPickProfile,
+  slot: number
+): RoundCombination {
+  const pick = <K>(counts: Map<K, number>) =>
+    slot === 0 ? mostFrequent(counts) : sampleWeighted(counts);
+
+  const combo: RoundCombination = {};
+
+  const genre = pick(profile.genres);
+  if (genre !== undefined) {
+    combo.genres = [genre];
+    // Pair with a second picked genre for variety
+    if (slot === 1 && profile.genres.size > 1) {
+      const others = new Map(profile.genres);
+      others.delete(genre);
+      const second = sampleWeighted(others);
+      if (second !== undefined) combo.genres.push(second);
+    }
+  }
+
+  const era = pick(profile.eras);
+  const yearRange = era ? getEraYearRange(era) : null;
+  if (yearRange) combo.yearRange = yearRange;
+
+  const moodKeyword = pick(profile.moodKeywords);
+  if (moodKeyword !== undefined) combo.keywordIds = [moodKeyword];
+
+  const popularityLevel = pick(profile.popularityLevels);
+  if (popularityLevel) combo.popularityLevel = popularityLevel;
+
+  return combo;
+}
+
+/**
+ * Generate 4 diverse category combinations for a suggest round
+ * Each combination represents different genres, moods, eras, and popularity levels
+ * With a pick profile, later rounds replace exploratory combinations with ones built from earlier picks
+ */
+export function generateRoundCombinations(
+  round: number,
+  genreIds: number[],
+  profile?: RoundPickProfile,
+  explorationWeight: number = SUGGEST_EXPLORATION_WEIGHT
+): RoundCombination[] {
+  const combinations: RoundCombination[] = [];
+
+  // Use round number as seed for deterministic but varied combinations
+  // Each round will have different category focuses
+  const roundSeed = round - 1; // 0 to (SUGGEST_MOVIE_ROUNDS - 1)
+
+  // Popular genres to use (common, well-represented genres)
+  const popularGenres = [
+    28, // Action
+    35, // Comedy
+    18, // Drama
+    14, // Fantasy
+    27, // Horror
+    878, // Sci-Fi
+    53, // Thriller
+    16, // Animation
+    10749, // Romance
+    80, // Crime
+  ];
+
+  // Select genres based on round
+  const genreGroups = [
+    [popularGenres[roundSeed % popularGenres.length]],
+    [
+      popularGenres[roundSeed % popularGenres.length],
+      popularGenres[(roundSeed + 1) % popularGenres.length],
+    ],
+    [popularGenres[(roundSeed + 2) % popularGenres.length]],
+    [
+      popularGenres[(roundSeed + 3) % popularGenres.length],
+      popularGenres[(roundSeed + 4) % popularGenres.length],
+    ],
+  ];
+
+  // Select moods based on round (vary across rounds)
+  const moodOptions = MOVIE_VIBES.map((m) => m.id);
+  const selectedMoods = [
+    moodOptions[(roundSeed * 4) % moodOptions.length],
+    moodOptions[(roundSeed * 4 + 1) % moodOptions.length],
+    moodOptions[(roundSeed * 4 + 2) % moodOptions.length],
+    moodOptions[(roundSeed * 4 + 3) % moodOptions.length],
+  ];
+
+  // Select eras based on round
+  const eraOptions = ERA_OPTIONS.map((e) => e.value);
+  const selectedEras = [
+    eraOptions[(roundSeed * 2) % eraOptions.length],
+    eraOptions[(roundSeed * 2 + 1) % eraOptions.length],
+    eraOptions[(roundSeed * 2 + 2) % eraOptions.length],
+    eraOptions[(roundSeed * 2 + 3) % eraOptions.length],
+  ];
+
+  // Popularity levels
+  const popularityLevels: PopularityLevel[] = ["HIGH", "AVERAGE", "LOW"];
+
+  // Generate 4 combinations deterministically based on round
+  // Each combination will always have the same categories for the same round
+  for (let i = 0; i < 4; i++) {
+    const combo: RoundCombination = {
+      genres: genreGroups[i],
+    };
+
+    // Deterministically include mood (keyword) based on round and position
+    // Pattern: include mood for positions 0, 1, 3 (75% coverage)
+    if (i !== 2) {
+      const moodId = selectedMoods[i];
+      const moodKeywords = MOOD_TO_KEYWORDS[moodId];
+      if (moodKeywords && moodKeywords.length > 0) {
+        // Use first keyword from mood
+        combo.keywordIds = [moodKeywords[0]];
+      }
+    }
+
+    // Deterministically include era (year range) based on round and position
+    // Pattern: include era for positions 0, 2, 3 (75% coverage)
+    if (i !== 1) {
+      const eraId = selectedEras[i];
+      const yearRange = getEraYearRange(eraId);
+      if (yearRange) {
+        combo.yearRange = yearRange;
+      }
+    }
+
+    // Deterministically include popularity level based on round and position
+    // Pattern: include popularity for positions 1, 3 (50% coverage)
+    if (i === 1 || i === 3) {
+      combo.popularityLevel = popularityLevels[(roundSeed + i) % popularityLevels.length];
+    }
+
+    combinations.push(combo);
+  }
+
+  // Exploit earlier picks in the last positions, keeping the first ones exploratory
+  if (profile && profile.genres.size > 0) {
+    const exploitSlots = getExploitSlotCount(round, explorationWeight);
+    for (let slot = 0; slot < exploitSlots; slot++) {
+      combinations[combinations.length - 1 - slot] = buildExploitCombination(profile, slot);
+    }
+  }
+
+  return combinations;
+}
+
+/**
+ * Get 4 movies for a suggest round, one per category combination
+ * profile: What the user picked in earlier rounds (see buildRoundPickProfile)
+ * excludeIds: Movies to leave out in addition to suggest history (e.g. already shown in a session)
+ * baseOptions: TMDB options applied to every query (e.g. streaming services)
+ */
+export async function generateSuggestRound(
+  round: number,
+  context: Context,
+  profile?: RoundPickProfile,
+  excludeIds: number[] = [],
+  explorationWeight: number = SUGGEST_EXPLORATION_WEIGHT,
+  baseOptions?: TMDBOptions
+): Promise<Movie[]> {
+  // Validate round number
+  if (round < 1 || round > SUGGEST_MOVIE_ROUNDS) {
+    throw new UserInputError(`Round must be between 1 and ${SUGGEST_MOVIE_ROUNDS}`);
+  }
+
+  // Get suggest history to exclude from results
+  const historyIds = context.user
+    ? await getSuggestHistory(context.prisma, context.user.id)
+    : [];
+  const historySet = new Set([...historyIds, ...excludeIds]);
+
+  // Get available genres
+  const allGenres = await context.tmdb.getGenres();
+  const genreIds = allGenres.map((g) => g.id);
+
+  // Generate 4 diverse category combinations for this round
+  // Each combination represents different genres, moods, eras, and popularity levels
+  const combinations = generateRoundCombinations(round, genreIds, profile, explorationWeight);
+
+  // Fetch movies for each combination in parallel
+  const moviePromises = combinations.map(async (combo) => {
+    try {
+      // Build discover params for this combination
+      const discoverFilters = {
+        genres: combo.genres,
+        yearRange: combo.yearRange,
+        keywords: combo.keywordIds,
+        popularityLevel: combo.popularityLevel,
+      };
+
+      const discoverParams = buildDiscoverParams(discoverFilters, false);
+      const options = mergeTMDBOptions(
+        convertGraphQLOptionsToTMDBOptions({
+          voteAverageGte: 5.0, // Minimum quality threshold
+          voteCountGte: 50, // Minimum votes for reliability
+        }, context.preferences),
+        baseOptions
+      );
+
+      // Discover movies with this combination
+      let discoveredMovies = await context.tmdb.discoverMovies(discoverParams, options);
+      // Filter out movies from suggest history
+      let tmdbMovies = (discoveredMovies as Array<{ id: number }>).filter(
+        (movie) => !historySet.has(movie.id)
+      );
+
+      // If no results, try with fewer constraints
+      if (tmdbMovies.length === 0 && combo.genres && combo.genres.length > 1) {
+        // Try with just the first genre
+        const fallbackParams = buildDiscoverParams(
+          { ...discoverFilters, genres: [combo.genres[0]] },
+          false
+        );
+        const fallbackDiscovered = await context.tmdb.discoverMovies(fallbackParams, options);
+        // Filter out movies from suggest history
+        tmdbMovies = (fallbackDiscovered as Array<{ id: number }>).filter(
+          (movie) => !historySet.has(movie.id)
+        );
+      }
+
+      // If still no results, try with just genres (no other filters)
+      if (tmdbMovies.length === 0 && combo.genres && combo.genres.length > 0) {
+        const genreOnlyParams = buildDiscoverParams({ genres: combo.genres }, false);
+        const genreDiscovered = await context.tmdb.discoverMovies(genreOnlyParams, options);
+        // Filter out movies from suggest history
+        tmdbMovies = (genreDiscovered as Array<{ id: number }>).filter(
+          (movie) => !historySet.has(movie.id)
+        );
+      }
+
+      // Pick a random movie from results
+      if (tmdbMovies.length > 0) {
+        const selectedMovie = pickRandomItem(tmdbMovies) as { id: number };
+        // Fetch full movie details
+        const fullMovie = await context.tmdb.getMovie(selectedMovie.id, options);
+        return transformTMDBMovie(fullMovie as TMDBMovieResponse);
+      }
+
+      return null;
+    } catch (error) {
+      // If one combination fails, return null (will be filtered out)
+      return null;
+    }
+  });
+
+  // Wait for all movies to be fetched
+  const movies = await Promise.all(moviePromises);
+  
+  // Filter out null results and ensure we have at least some movies
+  const validMovies = movies.filter((m): m is Movie => m !== null);
+
+  if (validMovies.length === 0) {
+    // Fallback: return 4 random movies from popular sources (excluding history)
+    const fallbackOptions = mergeTMDBOptions(
+      convertGraphQLOptionsToTMDBOptions({
+        voteAverageGte: 5.0,
+        voteCountGte: 50,
+      }, context.preferences),
+      baseOptions
+    );
+    
+    const fallbackResults: Movie[] = [];
+    const sources = ["popular", "top_rated", "trending", "now_playing"] as const;
+    let retries = 0;
+    const maxRetries = 40; // Try up to 40 times to find 4 movies not in history
+    
+    while (fallbackResults.length < 4 && retries < maxRetries) {
+      const sourceIndex = retries % sources.length;
+      const source = sources[sourceIndex];
+      const timeWindow = source === "trending" ? "day" : undefined;
+      
+      try {
+        const randomMovie = await context.tmdb.getRandomMovieFromSource(
+          source,
+          timeWindow,
+          fallbackOptions
+        );
+        const movieId = (randomMovie as { id: number }).id;
+        
+        // Skip if in history
+        if (historySet.has(movieId)) {
+          retries++;
+          continue;
+        }
+        
+        // Check if already added
+        if (fallbackResults.some((m) => m.id === movieId)) {
+          retries++;
+          continue;
+        }
+        
+        const fullMovie = await context.tmdb.getMovie(movieId, fallbackOptions);
+        const transformed = transformTMDBMovie(fullMovie as TMDBMovieResponse);
+        fallbackResults.push(transformed);
+      } catch (error) {
+        // If one source fails, continue with others
+      }
+      
+      retries++;
+    }
+    
+    // If we still don't have 4 movies, fill with any movies (even if in history)
+    if (fallbackResults.length < 4) {
+      const remaining = 4 - fallbackResults.length;
+      for (let i = 0; i < remaining; i++) {
+        try {
+          const source = sources[i % sources.length];
+          const timeWindow = source === "trending" ? "day" : undefined;
+          const randomMovie = await context.tmdb.getRandomMovieFromSource(
+            source,
+            timeWindow,
+            fallbackOptions
+          );
+          const movieId = (randomMovie as { id: number }).id;
+          
+          // Check if already added
+          if (fallbackResults.some((m) => m.id === movieId)) {
+            continue;
+          }
+          
+          const fullMovie = await context.tmdb.getMovie(movieId, fallbackOptions);
+          const transformed = transformTMDBMovie(fullMovie as TMDBMovieResponse);
+          fallbackResults.push(transformed);
+        } catch (error) {
+          // Continue if one fails
+        }
+      }
+    }
+
+    return fallbackResults.slice(0, 4);
+  }
+
+  // If we have fewer than 4 movies, fill with random popular movies (excluding history)
+  const fillOptions = mergeTMDBOptions(
+    convertGraphQLOptionsToTMDBOptions({
+      voteAverageGte: 5.0,
+      voteCountGte: 50,
+    }, context.preferences),
+    baseOptions
+  );
+  
+  let fillRetries = 0;
+  const maxFillRetries = 20; // Try up to 20 times to find movies not in history
+  
+  while (validMovies.length < 4 && fillRetries < maxFillRetries) {
+    try {
+      const randomMovie = await context.tmdb.getRandomMovieFromSource(
+        "popular",
+        undefined,
+        fillOptions
+      );
+      const movieId = (randomMovie as { id: number }).id;
+      
+      // Skip if in history or already added
+      if (historySet.has(movieId) || validMovies.some((m) => m.id === movieId)) {
+        fillRetries++;
+        continue;
+      }
+      
+      const fullMovie = await context.tmdb.getMovie(movieId, fillOptions);
+      const transformed = transformTMDBMovie(fullMovie as TMDBMovieResponse);
+      validMovies.push(transformed);
+    } catch (error) {
+      // If we can't get more movies, break
+      break;
+    }
+    fillRetries++;
+  }
+  
+  // If we still need more movies, allow history movies (but avoid duplicates).
+  // Capped as well, so a small pool returns fewer than 4 movies instead of spinning.
+  let historyFillRetries = 0;
+  const maxHistoryFillRetries = 20;
+
+  while (validMovies.length < 4 && historyFillRetries < maxHistoryFillRetries) {
+    historyFillRetries++;
+    try {
+      const randomMovie = await context.tmdb.getRandomMovieFromSource(
+        "popular",
+        undefined,
+        fillOptions
+      );
+      const movieId = (randomMovie as { id: number }).id;
+      
+      // Only check for duplicates now
+      if (validMovies.some((m) => m.id === movieId)) {
+        continue;
+      }
+      
+      const fullMovie = await context.tmdb.getMovie(movieId, fillOptions);
+      const transformed = transformTMDBMovie(fullMovie as TMDBMovieResponse);
+      validMovies.push(transformed);
+    } catch (error) {
+      // If we can't get more movies, break
+      break;
+    }
+  }
+
+  return validMovies.slice(0, 4);
+}
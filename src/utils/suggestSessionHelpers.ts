@@ -0,0 +1,65 @@
+/**
+ * Helper functions for persistent suggest sessions
+ */
+
+import { PrismaClient, SuggestSession } from "@prisma/client";
+import { Context } from "../context";
+import { buildRoundPickProfile, generateSuggestRound } from "./suggestRoundHelpers";
+import { ERROR_MESSAGES } from "../constants";
+import { ForbiddenError, NotFoundError, UserInputError } from "./errors";
+
+/**
+ * Verify suggest session exists and belongs to the user
+ */
+export async function verifySuggestSessionOwnership(
+  prisma: PrismaClient,
+  sessionId: number,
+  userId: number
+): Promise<SuggestSession> {
+  const session = await prisma.suggestSession.findUnique({
+    where: { id: sessionId },
+  });
+
+  if (!session) {
+    throw new NotFoundError(ERROR_MESSAGES.SUGGEST_SESSION_NOT_FOUND);
+  }
+
+  if (session.userId !== userId) {
+    throw new ForbiddenError(ERROR_MESSAGES.SUGGEST_SESSION_NO_ACCESS);
+  }
+
+  return session;
+}
+
+/**
+ * Throw if the session no longer accepts choices
+ */
+export function assertSuggestSessionActive(session: SuggestSession): void {
+  if (session.status !== "ACTIVE") {
+    throw new UserInputError(ERROR_MESSAGES.SUGGEST_SESSION_FINISHED);
+  }
+}
+
+/**
+ * Generate the movie IDs for a session round, adapted to the movies chosen so far
+ * Movies already chosen or shown in the previous round are not offered again
+ */
+export async function generateSessionRoundMovieIds(
+  round: number,
+  chosenMovieIds: number[],
+  context: Context,
+  explorationWeight: number,
+  previousRoundMovieIds: number[] = []
+): Promise<number[]> {
+  const profile = await buildRoundPickProfile(chosenMovieIds, context);
+
+  const movies = await generateSuggestRound(
+    round,
+    context,
+    profile,
+    [...chosenMovieIds, ...previousRoundMovieIds],
+    explorationWeight
+  );
+
+  return movies.map((movie) => movie.id);
+}
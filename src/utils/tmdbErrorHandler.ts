@@ -1,3 +1,6 @@
+import { NotFoundError, UpstreamTMDBError } from "./errors";
+import { TMDBUnavailableError } from "../datasources/tmdb/scheduler";
+
 interface AxiosErrorResponse {
   response?: {
     status: number;
@@ -8,21 +11,32 @@ interface AxiosErrorResponse {
   message?: string;
 }
 
+/**
+ * Convert a failed TMDB request into an UPSTREAM_TMDB_ERROR
+ */
 export function handleTMDBError(
   error: unknown,
   defaultMessage: string
 ): Error {
+  if (error instanceof TMDBUnavailableError) {
+    return new UpstreamTMDBError(`${defaultMessage}: ${error.message}`, 503);
+  }
+
   const axiosError = error as AxiosErrorResponse;
   
   if (axiosError.response) {
     const statusMessage =
       axiosError.response.data?.status_message || axiosError.message;
-    return new Error(
-      `TMDB API error: ${axiosError.response.status} - ${statusMessage}`
+    if (axiosError.response.status === 404) {
+      return new NotFoundError(`TMDB API error: 404 - ${statusMessage}`);
+    }
+    return new UpstreamTMDBError(
+      `TMDB API error: ${axiosError.response.status} - ${statusMessage}`,
+      axiosError.response.status
     );
   }
   
   const errorMessage =
     axiosError.message || (error instanceof Error ? error.message : "Unknown error");
-  return new Error(`${defaultMessage}: ${errorMessage}`);
+  return new UpstreamTMDBError(`${defaultMessage}: ${errorMessage}`);
 }
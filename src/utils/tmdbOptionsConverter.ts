@@ -1,15 +1,37 @@
+import { UserPreferences } from "@prisma/client";
 import { TMDBOptions, GraphQLOptionsInput } from "../types";
 
+/**
+ * Get the TMDB options a user saved as defaults in their preferences
+ */
+function getPreferenceOptions(preferences: UserPreferences): TMDBOptions {
+  const tmdbOptions: TMDBOptions = {};
+
+  if (preferences.region) tmdbOptions.region = preferences.region;
+  if (preferences.language) tmdbOptions.language = preferences.language;
+  if (preferences.voteAverageGte !== null)
+    tmdbOptions.voteAverageGte = preferences.voteAverageGte;
+  if (preferences.voteCountGte !== null)
+    tmdbOptions.voteCountGte = preferences.voteCountGte;
+  if (preferences.withOriginalLanguage)
+    tmdbOptions.withOriginalLanguage = preferences.withOriginalLanguage;
+  if (preferences.includeAdult !== null)
+    tmdbOptions.includeAdult = preferences.includeAdult;
+
+  return tmdbOptions;
+}
+
 /**
  * Convert GraphQL options input to TMDB options format
  * Handles optional fields and provides proper type conversion
+ * defaults: The authenticated user's preferences (context.preferences); explicit options take precedence
  */
 export function convertGraphQLOptionsToTMDBOptions(
-  options?: GraphQLOptionsInput | null
+  options?: GraphQLOptionsInput | null,
+  defaults?: UserPreferences | null
 ): TMDBOptions | undefined {
-  if (!options) return undefined;
-
-  const tmdbOptions: TMDBOptions = {};
+  const tmdbOptions: TMDBOptions = defaults ? getPreferenceOptions(defaults) : {};
+  if (!options) return Object.keys(tmdbOptions).length > 0 ? tmdbOptions : undefined;
   
   if (options.region) tmdbOptions.region = options.region;
   if (options.language) tmdbOptions.language = options.language;
@@ -32,3 +54,13 @@ export function convertGraphQLOptionsToTMDBOptions(
   return Object.keys(tmdbOptions).length > 0 ? tmdbOptions : undefined;
 }
 
+/**
+ * Merge TMDB options, with later options taking precedence
+ * Returns undefined when there is nothing to merge (keeps requests cacheable)
+ */
+export function mergeTMDBOptions(
+  ...optionSets: Array<TMDBOptions | undefined>
+): TMDBOptions | undefined {
+  const merged: TMDBOptions = Object.assign({}, ...optionSets.filter(Boolean));
+  return Object.keys(merged).length > 0 ? merged : undefined;
+}
@@ -1,4 +1,5 @@
-import { Movie, Person } from "../types";
+import { Movie, Person, WatchProvider, WatchProviderAvailability } from "../types";
+import type { TMDBWatchProvider, TMDBWatchProviderRegion } from "../datasources/tmdb/types";
 
 const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/w500";
 
@@ -18,6 +19,7 @@ export interface TMDBVideo {
 export interface TMDBMovieResponse {
   id: number;
   title: string;
+  imdb_id?: string | null; // Only on movie details, not list results
   overview?: string | null;
   poster_path?: string | null;
   release_date?: string | null;
@@ -255,3 +257,34 @@ export function transformTMDBPerson(
     popularity: null,
   };
 }
+
+export function transformTMDBWatchProvider(provider: TMDBWatchProvider): WatchProvider {
+  return {
+    id: provider.provider_id,
+    name: provider.provider_name,
+    logoUrl: provider.logo_path ? `${TMDB_IMAGE_BASE_URL}${provider.logo_path}` : null,
+    displayPriority: provider.display_priority ?? null,
+  };
+}
+
+/**
+ * Transform a movie's providers in one region, ordered by TMDB's display priority
+ */
+export function transformTMDBWatchProviderRegion(
+  region: string,
+  providers: TMDBWatchProviderRegion
+): WatchProviderAvailability {
+  const transformList = (list?: TMDBWatchProvider[]) =>
+    (list || [])
+      .slice()
+      .sort((a, b) => (a.display_priority ?? 0) - (b.display_priority ?? 0))
+      .map(transformTMDBWatchProvider);
+
+  return {
+    region,
+    link: providers.link || null,
+    flatrate: transformList(providers.flatrate),
+    rent: transformList(providers.rent),
+    buy: transformList(providers.buy),
+  };
+}
@@ -0,0 +1,99 @@
+import { PrismaClient } from "@prisma/client";
+import {
+  EMAIL_VERIFICATION_TOKEN_TTL_HOURS,
+  ERROR_MESSAGES,
+  PASSWORD_RESET_TOKEN_TTL_HOURS,
+} from "../constants";
+import { Mailer } from "../mailer";
+import { hashSecureToken } from "./auth";
+import { UserInputError } from "./errors";
+import { consumeUserToken, createUserToken, sendPasswordResetEmail } from "./userTokenHelpers";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function createPrisma({ consumed = 1, userId = 1 } = {}) {
+  const userToken = {
+    updateMany: jest.fn().mockResolvedValue({ count: consumed }),
+    create: jest.fn().mockResolvedValue({}),
+    findUnique: jest.fn().mockResolvedValue({ userId }),
+  };
+  const prisma = {
+    userToken,
+    $transaction: jest.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  };
+  return { prisma: prisma as unknown as PrismaClient, userToken };
+}
+
+describe("createUserToken", () => {
+  it("stores only the token's hash and invalidates earlier unused tokens of the type", async () => {
+    const { prisma, userToken } = createPrisma();
+
+    const token = await createUserToken(prisma, 1, "PASSWORD_RESET");
+
+    expect(userToken.updateMany).toHaveBeenCalledWith({
+      where: { userId: 1, type: "PASSWORD_RESET", usedAt: null },
+      data: { usedAt: expect.any(Date) },
+    });
+    const [{ data }] = userToken.create.mock.calls[0];
+    expect(data.tokenHash).toBe(hashSecureToken(token));
+    expect(JSON.stringify(data)).not.toContain(token);
+  });
+
+  it.each([
+    ["PASSWORD_RESET", PASSWORD_RESET_TOKEN_TTL_HOURS],
+    ["EMAIL_VERIFICATION", EMAIL_VERIFICATION_TOKEN_TTL_HOURS],
+  ] as const)("expires %s tokens after their TTL", async (type, hours) => {
+    const { prisma, userToken } = createPrisma();
+    const before = Date.now();
+
+    await createUserToken(prisma, 1, type);
+
+    const expiresAt: Date = userToken.create.mock.calls[0][0].data.expiresAt;
+    expect(expiresAt.getTime()).toBeGreaterThanOrEqual(before + hours * HOUR_MS);
+    expect(expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + hours * HOUR_MS);
+  });
+});
+
+describe("consumeUserToken", () => {
+  it("marks an unused, unexpired token as used and returns its user", async () => {
+    const { prisma, userToken } = createPrisma({ userId: 5 });
+
+    await expect(consumeUserToken(prisma, "token", "EMAIL_VERIFICATION")).resolves.toBe(5);
+    expect(userToken.updateMany).toHaveBeenCalledWith({
+      where: {
+        tokenHash: hashSecureToken("token"),
+        type: "EMAIL_VERIFICATION",
+        usedAt: null,
+        expiresAt: { gt: expect.any(Date) },
+      },
+      data: { usedAt: expect.any(Date) },
+    });
+  });
+
+  it.each([
+    ["PASSWORD_RESET", ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID],
+    ["EMAIL_VERIFICATION", ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID],
+  ] as const)("rejects unknown, expired or used %s tokens", async (type, message) => {
+    const { prisma, userToken } = createPrisma({ consumed: 0 });
+
+    const result = consumeUserToken(prisma, "token", type);
+
+    await expect(result).rejects.toBeInstanceOf(UserInputError);
+    await expect(result).rejects.toThrow(message);
+    expect(userToken.findUnique).not.toHaveBeenCalled();
+  });
+});
+
+describe("sendPasswordResetEmail", () => {
+  it("emails the token whose hash was stored", async () => {
+    const { prisma, userToken } = createPrisma();
+    const mailer: Mailer = { send: jest.fn().mockResolvedValue(undefined) };
+
+    await sendPasswordResetEmail(prisma, mailer, { id: 1, email: "user@example.com" });
+
+    const [message] = (mailer.send as jest.Mock).mock.calls[0];
+    const token = /Token: (\S+)/.exec(message.text)?.[1] ?? "";
+    expect(message.to).toBe("user@example.com");
+    expect(userToken.create.mock.calls[0][0].data.tokenHash).toBe(hashSecureToken(token));
+  });
+});
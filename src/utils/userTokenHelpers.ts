@@ -0,0 +1,102 @@
+/**
+ * Helper functions for single-use password reset and email verification tokens
+ * Only a hash of each token is stored; the token itself only appears in the email
+ */
+
+import { PrismaClient, User, UserTokenType } from "@prisma/client";
+import { Mailer, passwordResetEmail, verificationEmail } from "../mailer";
+import {
+  EMAIL_VERIFICATION_TOKEN_TTL_HOURS,
+  ERROR_MESSAGES,
+  PASSWORD_RESET_TOKEN_TTL_HOURS,
+} from "../constants";
+import { generateSecureToken, hashSecureToken } from "./auth";
+import { UserInputError } from "./errors";
+
+const TOKEN_TTL_HOURS: Record<UserTokenType, number> = {
+  PASSWORD_RESET: PASSWORD_RESET_TOKEN_TTL_HOURS,
+  EMAIL_VERIFICATION: EMAIL_VERIFICATION_TOKEN_TTL_HOURS,
+};
+
+const INVALID_TOKEN_MESSAGES: Record<UserTokenType, string> = {
+  PASSWORD_RESET: ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID,
+  EMAIL_VERIFICATION: ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID,
+};
+
+/**
+ * Issue a new token for a user, invalidating their earlier unused tokens of the same type
+ */
+export async function createUserToken(
+  prisma: PrismaClient,
+  userId: number,
+  type: UserTokenType
+): Promise<string> {
+  const token = generateSecureToken();
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.userToken.updateMany({
+      where: { userId, type, usedAt: null },
+      data: { usedAt: now },
+    }),
+    prisma.userToken.create({
+      data: {
+        userId,
+        type,
+        tokenHash: hashSecureToken(token),
+        expiresAt: new Date(now.getTime() + TOKEN_TTL_HOURS[type] * 60 * 60 * 1000),
+      },
+    }),
+  ]);
+
+  return token;
+}
+
+/**
+ * Mark a token as used and return the ID of the user it was issued to
+ * Throws UserInputError if the token is unknown, expired or already used
+ */
+export async function consumeUserToken(
+  prisma: PrismaClient,
+  token: string,
+  type: UserTokenType
+): Promise<number> {
+  const tokenHash = hashSecureToken(token);
+
+  // Conditional update so a token can't be used twice by concurrent requests
+  const { count } = await prisma.userToken.updateMany({
+    where: { tokenHash, type, usedAt: null, expiresAt: { gt: new Date() } },
+    data: { usedAt: new Date() },
+  });
+  const userToken =
+    count > 0 ? await prisma.userToken.findUnique({ where: { tokenHash } }) : null;
+
+  if (!userToken) {
+    throw new UserInputError(INVALID_TOKEN_MESSAGES[type]);
+  }
+  return userToken.userId;
+}
+
+/**
+ * Email a user a password reset token
+ */
+export async function sendPasswordResetEmail(
+  prisma: PrismaClient,
+  mailer: Mailer,
+  user: Pick<User, "id" | "email">
+): Promise<void> {
+  const token = await createUserToken(prisma, user.id, "PASSWORD_RESET");
+  await mailer.send(passwordResetEmail(user.email, token));
+}
+
+/**
+ * Email a user a token confirming their email address
+ */
+export async function sendVerificationEmail(
+  prisma: PrismaClient,
+  mailer: Mailer,
+  user: Pick<User, "id" | "email">
+): Promise<void> {
+  const token = await createUserToken(prisma, user.id, "EMAIL_VERIFICATION");
+  await mailer.send(verificationEmail(user.email, token));
+}
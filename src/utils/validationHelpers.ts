@@ -1,4 +1,6 @@
-import { ERROR_MESSAGES } from "../constants";
+import { ERROR_MESSAGES, SUGGEST_EXPLORATION_WEIGHT } from "../constants";
+import { UserInputError } from "./errors";
+import { DEFAULT_REGION } from "../datasources/tmdb/types";
 
 /**
  * Validate that a string is not empty after trimming
@@ -8,7 +10,7 @@ export function validateNonEmptyString(
   fieldName: string = "Field"
 ): string {
   if (!value || !value.trim()) {
-    throw new Error(`${fieldName} cannot be empty`);
+    throw new UserInputError(`${fieldName} cannot be empty`);
   }
   return value.trim();
 }
@@ -20,6 +22,46 @@ export function validateCollectionName(name: string | null | undefined): string
   return validateNonEmptyString(name, "Collection name");
 }
 
+/**
+ * Validate suggest round exploration weight (0 to 1), using the default if not provided
+ */
+export function validateExplorationWeight(weight: number | null | undefined): number {
+  if (weight === null || weight === undefined) {
+    return SUGGEST_EXPLORATION_WEIGHT;
+  }
+  if (weight < 0 || weight > 1) {
+    throw new UserInputError(ERROR_MESSAGES.EXPLORATION_WEIGHT_INVALID);
+  }
+  return weight;
+}
+
+/**
+ * Validate and normalize an ISO 3166-1 alpha-2 region code, using the default region if not provided
+ */
+export function validateRegion(region: string | null | undefined): string {
+  if (!region || !region.trim()) {
+    return DEFAULT_REGION;
+  }
+  const normalized = region.trim().toUpperCase();
+  if (!/^[A-Z]{2}$/.test(normalized)) {
+    throw new UserInputError(ERROR_MESSAGES.INVALID_REGION);
+  }
+  return normalized;
+}
+
+/**
+ * Validate and normalize an ISO 639-1 language code with an optional region (e.g. "en", "en-US")
+ */
+export function validateLanguage(language: string, allowRegion: boolean = true): string {
+  const match = /^([a-z]{2})(?:-([a-z]{2}))?$/i.exec(language.trim());
+  if (!match || (match[2] && !allowRegion)) {
+    throw new UserInputError(ERROR_MESSAGES.INVALID_LANGUAGE);
+  }
+  return match[2]
+    ? `${match[1].toLowerCase()}-${match[2].toUpperCase()}`
+    : match[1].toLowerCase();
+}
+
 /**
  * Validate user name
  */
@@ -0,0 +1,92 @@
+/**
+ * Helper functions for watch history (MovieHistory) operations
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { Context } from "../context";
+import { Movie } from "../types";
+import { UserInputError } from "./errors";
+
+/**
+ * Parse an optional ISO date string argument
+ * Throws if the value is present but not a valid date
+ */
+export function parseDateArg(
+  value: string | null | undefined,
+  fieldName: string
+): Date | undefined {
+  if (value === null || value === undefined || value === "") {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new UserInputError(`${fieldName} must be a valid date`);
+  }
+  return date;
+}
+
+/**
+ * Record a watch for a user (multiple entries per movie are allowed for rewatches)
+ */
+export async function recordWatch(
+  prisma: PrismaClient,
+  userId: number,
+  movie: Pick<Movie, "id" | "title" | "posterUrl">,
+  watchedAt: Date = new Date()
+) {
+  return prisma.movieHistory.create({
+    data: {
+      userId,
+      movieId: movie.id,
+      title: movie.title,
+      posterUrl: movie.posterUrl ?? null,
+      watchedAt,
+    },
+  });
+}
+
+/**
+ * Get all distinct TMDB movie IDs the user has watched
+ */
+export async function getWatchedMovieIds(
+  prisma: PrismaClient,
+  userId: number
+): Promise<number[]> {
+  const entries = await prisma.movieHistory.findMany({
+    where: { userId },
+    select: { movieId: true },
+    distinct: ["movieId"],
+  });
+
+  return entries.map((entry) => entry.movieId);
+}
+
+/**
+ * Get the set of watched movie IDs when excludeWatched is requested
+ * Returns null if filtering is not requested or the user is not authenticated
+ */
+export async function getExcludedWatchedIds(
+  context: Context,
+  excludeWatched?: boolean | null
+): Promise<Set<number> | null> {
+  if (!excludeWatched || !context.user) {
+    return null;
+  }
+
+  const watchedIds = await getWatchedMovieIds(context.prisma, context.user.id);
+  return new Set(watchedIds);
+}
+
+/**
+ * Remove movies the user has already watched
+ */
+export function filterOutWatched<T extends { id: number }>(
+  movies: T[],
+  watchedIds: Set<number> | null
+): T[] {
+  if (!watchedIds || watchedIds.size === 0) {
+    return movies;
+  }
+  return movies.filter((movie) => !watchedIds.has(movie.id));
+}